@@ -0,0 +1,229 @@
+/**
+ * Portable index bundles, so a team can share crawled docs instead of every
+ * member re-crawling them.
+ *
+ * A bundle is a JSONL file: a header line naming the format and its version,
+ * then one line per page holding the page (markdown, title, crawl time, cache
+ * headers) and its chunks in page order. Search tables aren't exported; on
+ * import the chunks are re-inserted and the FTS triggers index them again.
+ * Embeddings are recomputed after the import, since they depend on the local
+ * model.
+ *
+ * Imports merge by (url, version) and keep whichever copy was crawled later.
+ * The whole file is validated before anything is written.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { listDocumentKeys, getDocument, getDocumentChunks, importDocument, getActiveCollection } from './db.js';
+import type { DocumentRow } from './db.js';
+import { embedMissingChunks } from './search.js';
+
+export const BUNDLE_FORMAT = 'webscribe-index';
+export const BUNDLE_VERSION = 1;
+
+export interface BundleHeader {
+    format: typeof BUNDLE_FORMAT;
+    bundle_version: number;
+    exported_at: string;
+    /** Collection the bundle was exported from */
+    collection: string;
+    filters: ExportFilters;
+    /** Number of page lines that follow */
+    documents: number;
+}
+
+/** One page line; `timestamp` is the crawl time as stored ('YYYY-MM-DD HH:MM:SS' UTC) */
+export interface BundleDocument extends DocumentRow {
+    chunks: Array<{ heading_path: string[]; content: string }>;
+}
+
+export interface ExportFilters {
+    domain?: string;
+    version?: string;
+}
+
+export interface ExportResult {
+    path: string;
+    documents: number;
+    chunks: number;
+    bytes: number;
+}
+
+export interface ImportResult {
+    path: string;
+    documents: number;
+    /** Pages not in the index before */
+    added: number;
+    /** Pages whose local copy was older and got replaced */
+    updated: number;
+    /** Pages whose local copy was as new or newer and was kept */
+    skipped: number;
+    /** Chunks of the added and updated pages */
+    chunks: number;
+}
+
+/**
+ * Writes the active collection's pages (optionally one domain and/or
+ * version) to a bundle file. The file is written under a temporary name and
+ * renamed when complete.
+ */
+export function exportIndex(file: string, filters: ExportFilters = {}): ExportResult {
+    const target = path.resolve(file);
+    const keys = listDocumentKeys(filters);
+    const header: BundleHeader = {
+        format: BUNDLE_FORMAT,
+        bundle_version: BUNDLE_VERSION,
+        exported_at: new Date().toISOString(),
+        collection: getActiveCollection(),
+        filters,
+        documents: keys.length,
+    };
+
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    const partial = `${target}.partial`;
+    const fd = fs.openSync(partial, 'w');
+    let chunks = 0;
+    try {
+        fs.writeSync(fd, JSON.stringify(header) + '\n');
+        for (const key of keys) {
+            const doc = getDocument(key.url, key.version)!;
+            const docChunks = getDocumentChunks(key.url, key.version)
+                .map(c => ({ heading_path: c.heading_path, content: c.content }));
+            chunks += docChunks.length;
+            const line: BundleDocument = { ...doc, chunks: docChunks };
+            fs.writeSync(fd, JSON.stringify(line) + '\n');
+        }
+    } catch (err) {
+        fs.closeSync(fd);
+        fs.rmSync(partial, { force: true });
+        throw err;
+    }
+    fs.closeSync(fd);
+    fs.renameSync(partial, target);
+
+    return { path: target, documents: keys.length, chunks, bytes: fs.statSync(target).size };
+}
+
+/**
+ * Merges a bundle into the active collection. Throws an Error naming the
+ * line if the bundle is malformed, truncated or from a newer release — in
+ * which case nothing is imported.
+ */
+export async function importIndex(file: string): Promise<ImportResult> {
+    const source = path.resolve(file);
+    if (!fs.existsSync(source)) throw new Error(`Bundle not found: ${source}`);
+
+    // First pass validates, so a broken bundle can't leave a half-imported index
+    await readBundle(source, () => {});
+
+    const result: ImportResult = { path: source, documents: 0, added: 0, updated: 0, skipped: 0, chunks: 0 };
+    const imported: Array<{ url: string; version: string }> = [];
+    await readBundle(source, doc => {
+        const { chunks, ...row } = doc;
+        const outcome = importDocument(row, chunks);
+        result.documents++;
+        result[outcome]++;
+        if (outcome !== 'skipped') {
+            result.chunks += chunks.length;
+            imported.push({ url: row.url, version: row.version });
+        }
+    });
+
+    // Embed the imported chunks for semantic search, as a crawl would
+    // (best-effort — misses are back-filled a batch per semantic query)
+    for (const { url, version } of imported) {
+        await embedMissingChunks(url, version).catch((err) => {
+            process.stderr.write(`[bundle] Embedding failed for ${url}: ${err}
+`);
+        });
+    }
+    return result;
+}
+
+// ── Reading ────────────────────────────────────────────────────────────────────
+
+async function readBundle(file: string, onDocument: (doc: BundleDocument) => void): Promise<BundleHeader> {
+    const lines = readline.createInterface({ input: fs.createReadStream(file, 'utf8'), crlfDelay: Infinity });
+    let header: BundleHeader | null = null;
+    let lineNumber = 0;
+    let documents = 0;
+
+    for await (const line of lines) {
+        lineNumber++;
+        if (line.trim() === '') continue;
+        let value: unknown;
+        try {
+            value = JSON.parse(line);
+        } catch {
+            throw new Error(`${file}:${lineNumber}: not valid JSON`);
+        }
+        if (!header) {
+            header = parseHeader(value, file);
+            continue;
+        }
+        onDocument(parseDocument(value, `${file}:${lineNumber}`));
+        documents++;
+    }
+
+    if (!header) throw new Error(`${file} is empty, not an index bundle`);
+    if (documents !== header.documents) {
+        throw new Error(`${file} is truncated: the header lists ${header.documents} page(s) but ${documents} were found`);
+    }
+    return header;
+}
+
+function parseHeader(value: unknown, file: string): BundleHeader {
+    const header = value as Partial<BundleHeader> | null;
+    if (!header || typeof header !== 'object' || header.format !== BUNDLE_FORMAT) {
+        throw new Error(`${file} is not a ${BUNDLE_FORMAT} bundle`);
+    }
+    if (typeof header.bundle_version !== 'number' || header.bundle_version > BUNDLE_VERSION) {
+        throw new Error(`${file} uses bundle version ${header.bundle_version}, newer than this release supports (${BUNDLE_VERSION}); upgrade webscribe-mcp`);
+    }
+    if (!Number.isInteger(header.documents)) throw new Error(`${file}: header is missing the page count`);
+    return header as BundleHeader;
+}
+
+function parseDocument(value: unknown, where: string): BundleDocument {
+    const doc = value as Record<string, unknown> | null;
+    if (!doc || typeof doc !== 'object') throw new Error(`${where}: expected a page object`);
+    for (const field of ['url', 'version', 'domain', 'title', 'markdown'] as const) {
+        if (typeof doc[field] !== 'string') throw new Error(`${where}: '${field}' must be a string`);
+    }
+    for (const field of ['etag', 'last_modified'] as const) {
+        if (doc[field] !== undefined && doc[field] !== null && typeof doc[field] !== 'string') {
+            throw new Error(`${where}: '${field}' must be a string or null`);
+        }
+    }
+    if (!Array.isArray(doc.chunks)) throw new Error(`${where}: 'chunks' must be an array`);
+    const chunks = doc.chunks.map((chunk: { heading_path?: unknown; content?: unknown }, i) => {
+        const headingPath = chunk?.heading_path;
+        if (!Array.isArray(headingPath) || !headingPath.every(h => typeof h === 'string') || typeof chunk.content !== 'string') {
+            throw new Error(`${where}: chunk ${i} needs a heading_path string array and string content`);
+        }
+        return { heading_path: headingPath as string[], content: chunk.content };
+    });
+
+    return {
+        url: doc.url as string,
+        version: doc.version as string,
+        domain: doc.domain as string,
+        title: doc.title as string,
+        markdown: doc.markdown as string,
+        etag: (doc.etag as string | null | undefined) ?? null,
+        last_modified: (doc.last_modified as string | null | undefined) ?? null,
+        timestamp: parseTimestamp(doc.timestamp, where),
+        chunks,
+    };
+}
+
+// Normalises to SQLite's CURRENT_TIMESTAMP format so crawl times compare as stored
+function parseTimestamp(value: unknown, where: string): string {
+    const text = typeof value === 'string' ? value.trim() : '';
+    const sqlite = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(text);
+    const ms = Date.parse(sqlite ? `${text.replace(' ', 'T')}Z` : text);
+    if (!text || Number.isNaN(ms)) throw new Error(`${where}: invalid timestamp ${JSON.stringify(value)}`);
+    return new Date(ms).toISOString().slice(0, 19).replace('T', ' ');
+}
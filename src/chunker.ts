@@ -17,8 +17,13 @@
  *   { heading_path: ["Authentication"], content: "Some intro text." }
  *   { heading_path: ["Authentication", "OAuth2 Flow"], content: "Step 1: Get a token..." }
  *   { heading_path: ["Authentication", "API Keys"], content: "Use the X-API-Key header..." }
+ *
+ * Fenced code blocks inside a chunk can then be pulled out with
+ * extractCodeBlocks() for the code-example index.
  */
 
+import { normalizeLanguage } from './utils.js';
+
 export interface Chunk {
     /** Full breadcrumb path from the document root, e.g. ["Authentication", "OAuth2 Flow"] */
     heading_path: string[];
@@ -26,6 +31,19 @@ export interface Chunk {
     content: string;
 }
 
+export interface CodeBlock {
+    /** Normalised fence language, e.g. 'typescript' ('' when the fence has no label) */
+    language: string;
+    /** The code between the fences */
+    code: string;
+    /** The prose paragraph just before the block, usually what introduces it */
+    context: string;
+}
+
+// Opening/closing fence: ``` or ~~~ (3+), optional language label
+const FENCE_RE = /^\s*(`{3,}|~{3,})\s*([^\s`]*)/;
+const MAX_CONTEXT_CHARS = 300;
+
 /**
  * Splits markdown into semantic chunks based on ATX-style headings (# ## ###).
  * Content before any heading is collected under an empty heading_path.
@@ -52,8 +70,15 @@ export function chunkMarkdown(markdown: string): Chunk[] {
         currentContent = [];
     }
 
+    let openFence: string | null = null;
+
     for (const line of lines) {
-        const headingMatch = line.match(/^(#{1,6})\s+(.+)$/);
+        // Lines inside a code fence are never headings (e.g. `# install` in a shell block)
+        const fence = line.match(FENCE_RE);
+        if (fence && (!openFence || (fence[1][0] === openFence[0] && fence[1].length >= openFence.length && !fence[2]))) {
+            openFence = openFence ? null : fence[1];
+        }
+        const headingMatch = openFence || fence ? null : line.match(/^(#{1,6})\s+(.+)$/);
         if (headingMatch) {
             flush();
             const level = headingMatch[1].length; // 1 = H1, 2 = H2, …
@@ -78,3 +103,48 @@ export function chunkMarkdown(markdown: string): Chunk[] {
     flush();
     return chunks;
 }
+
+/**
+ * Extracts every fenced code block from a chunk's markdown, in order.
+ * Blocks with only whitespace are skipped; an unclosed fence runs to the end.
+ */
+export function extractCodeBlocks(content: string): CodeBlock[] {
+    const blocks: CodeBlock[] = [];
+    let paragraph: string[] = [];     // prose lines of the current paragraph
+    let lastParagraph = '';           // the most recent finished paragraph
+    let fence: string | null = null;
+    let language = '';
+    let context = '';
+    let code: string[] = [];
+
+    const flushBlock = () => {
+        const text = code.join('\n').replace(/^\n+|\s+$/g, '');
+        if (text.trim()) blocks.push({ language, code: text, context });
+        code = [];
+    };
+
+    for (const line of content.split('\n')) {
+        const match = line.match(FENCE_RE);
+        if (fence) {
+            if (match && match[1][0] === fence[0] && match[1].length >= fence.length && !match[2]) {
+                flushBlock();
+                fence = null;
+            } else {
+                code.push(line);
+            }
+        } else if (match) {
+            fence = match[1];
+            language = normalizeLanguage(match[2]);
+            if (paragraph.length) lastParagraph = paragraph.join(' ');
+            context = lastParagraph.slice(0, MAX_CONTEXT_CHARS);
+            paragraph = [];
+        } else if (line.trim()) {
+            paragraph.push(line.trim());
+        } else if (paragraph.length) {
+            lastParagraph = paragraph.join(' ');
+            paragraph = [];
+        }
+    }
+    if (fence) flushBlock();
+    return blocks;
+}
@@ -0,0 +1,369 @@
+/**
+ * Standalone CLI subcommands.
+ *
+ * Lets the index be pre-warmed from CI and inspected while debugging without
+ * going through an MCP client. Each command calls the same crawler and db
+ * functions the MCP tools use:
+ *
+ *   webscribe crawl <url> [--version v] [--max-pages n] [--glob g] [--components] [--no-tabs]
+ *   webscribe search <query> [--version v] [--domain d] [--url-prefix p] [--heading h]
+ *                            [--limit n] [--offset n] [--mode lexical|semantic|hybrid]
+ *                            [--max-per-doc n] [--diversify none|mmr]
+ *   webscribe get <url> [--version v]
+ *   webscribe stats
+ *   webscribe collections
+ *   webscribe purge (--url u | --domain d | --version v)
+ *   webscribe maintain
+ *   webscribe refresh [--domain d] [--version v] [--ttl 12h] [--limit n] [--tombstone]
+ *   webscribe export <file> [--domain d] [--version v]
+ *   webscribe import <file>
+ *
+ * Every command accepts --json for machine-readable output, and --db /
+ * --collection to pick the index. Results go to stdout; crawler logs keep
+ * going to stderr.
+ */
+
+import { parseArgs } from 'node:util';
+import { runCrawler, crawlComponentDocs, refreshStale, DEFAULT_REFRESH_LIMIT } from './crawler.js';
+import type { CrawlHooks } from './crawler.js';
+import {
+    getDocument,
+    getDocumentCount,
+    getChunkCount,
+    listSources,
+    listCollections,
+    deleteDocument,
+    purgeDomain,
+    purgeVersion,
+    maintainIndex,
+    getTombstone,
+    configureDatabase,
+} from './db.js';
+import type { DeleteResult } from './db.js';
+import { searchIndex, SEARCH_MODES } from './search.js';
+import type { SearchMode } from './search.js';
+import { exportIndex, importIndex } from './bundle.js';
+import { parseDuration } from './staleness.js';
+import { DIVERSIFY_STRATEGIES } from './diversify.js';
+import type { DiversifyStrategy } from './diversify.js';
+
+export const CLI_COMMANDS = ['crawl', 'search', 'get', 'stats', 'collections', 'purge', 'maintain', 'refresh', 'export', 'import', 'help'] as const;
+export type CliCommand = typeof CLI_COMMANDS[number];
+
+const USAGE = `Usage: webscribe <command> [options]
+
+Commands:
+  crawl <url>       Crawl a documentation site into the local index
+                      --version <v>     version label (default: latest)
+                      --max-pages <n>   page limit (default: 10, or 200 with --components)
+                      --glob <pattern>  only crawl matching paths, e.g. '**/components/**'
+                      --components      treat <url> as a component index page
+                      --no-tabs         don't enqueue /usage, /examples, … sub-tabs
+  search <query>    Search indexed chunks ("exact phrase", prefix*, -exclude, a OR b, a NEAR/5 b)
+                      --version <v> · --domain <d> · --url-prefix <p> · --heading <text>
+                      --limit <n>       results per page (default 20, max 100)
+                      --offset <n>      skip this many ranked results
+                      --mode <m>        lexical (default) | semantic | hybrid
+                      --max-per-doc <n> at most n chunks per page (extra hits are folded)
+                      --diversify <d>   none (default) | mmr
+  get <url>         Print the cached markdown for a page   [--version <v>]
+  stats             Show index totals and indexed sources
+  collections       List named indexes with their page and chunk counts
+  purge             Delete pages from the index
+                      --url <u> [--version <v>]   one page (version defaults to latest)
+                      --domain <d> [--version <v>] a whole domain
+                      --version <v>                a whole version label
+  maintain          Remove orphaned rows, check and rebuild the search index, vacuum
+  refresh           Re-check pages older than their TTL and re-extract the changed ones
+                      --domain <d> · --version <v>
+                      --ttl <duration>  stale after this long, e.g. 12h or 30d
+                                        (default: env WEBSCRIBE_STALE_TTL, else 7d)
+                      --limit <n>       pages per run, oldest first (default ${DEFAULT_REFRESH_LIMIT})
+                      --tombstone       remove gone (404/410) pages from the index
+  export <file>     Write pages to a JSONL bundle for sharing   [--domain <d>] [--version <v>]
+  import <file>     Merge a bundle into the index (the newer copy of each page wins)
+
+Global options:
+  --json            Print machine-readable JSON
+  --db <path>       Database file of the default collection (env WEBSCRIBE_DB_PATH,
+                    default ~/.universal-docs-mcp/documents.db)
+  --collection <n>  Named index to use (env WEBSCRIBE_COLLECTION, default: default)
+
+With no command, webscribe-mcp starts the MCP server on stdio (or --http <port>);
+webscribe-mcp --check-db reports the index schema version and pending migrations.`;
+
+export function isCliCommand(arg: string | undefined): arg is CliCommand {
+    return (CLI_COMMANDS as readonly string[]).includes(arg ?? '');
+}
+
+/**
+ * Runs a CLI subcommand. `argv` starts with the command name.
+ * Returns the process exit code.
+ */
+export async function runCli(argv: string[]): Promise<number> {
+    const [command, ...rest] = argv;
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args: rest,
+            allowPositionals: true,
+            options: {
+                'version': { type: 'string' },
+                'max-pages': { type: 'string' },
+                'glob': { type: 'string' },
+                'components': { type: 'boolean' },
+                'no-tabs': { type: 'boolean' },
+                'url': { type: 'string' },
+                'domain': { type: 'string' },
+                'mode': { type: 'string' },
+                'url-prefix': { type: 'string' },
+                'heading': { type: 'string' },
+                'limit': { type: 'string' },
+                'offset': { type: 'string' },
+                'max-per-doc': { type: 'string' },
+                'diversify': { type: 'string' },
+                'ttl': { type: 'string' },
+                'tombstone': { type: 'boolean' },
+                'json': { type: 'boolean' },
+                'db': { type: 'string' },
+                'collection': { type: 'string' },
+            },
+        });
+    } catch (err) {
+        process.stderr.write(`${err instanceof Error ? err.message : err}\n\n${USAGE}\n`);
+        return 2;
+    }
+    const { values, positionals } = parsed;
+    const json = values.json ?? false;
+
+    try {
+        configureDatabase({ path: values.db, collection: values.collection });
+
+        switch (command as CliCommand) {
+            case 'crawl': {
+                const url = positionals[0];
+                if (!url) return usageError('crawl requires a <url>');
+                const components = values.components ?? false;
+                const maxPages = values['max-pages'] ? Number(values['max-pages']) : (components ? 200 : 10);
+                if (!Number.isInteger(maxPages) || maxPages <= 0) return usageError(`invalid --max-pages: ${values['max-pages']}`);
+                const version = values.version ?? 'latest';
+
+                // Ctrl+C stops the crawl cleanly after the current page
+                const controller = new AbortController();
+                const onSigint = () => {
+                    process.stderr.write('\n[cli] Stopping after the current page…\n');
+                    controller.abort();
+                };
+                process.once('SIGINT', onSigint);
+
+                const hooks: CrawlHooks = {
+                    signal: controller.signal,
+                    onProgress: json ? undefined : (p) => {
+                        process.stderr.write(`[cli] ${p.done}/${maxPages} pages done, ${p.queued} queued, ${p.failed} failed\n`);
+                    },
+                };
+                const urls = components
+                    ? await crawlComponentDocs(url, version, maxPages, hooks)
+                    : await runCrawler(url, version, maxPages, values.glob, !values['no-tabs'], hooks);
+                process.off('SIGINT', onSigint);
+
+                if (json) {
+                    print(JSON.stringify({ crawled_count: urls.length, urls }, null, 2));
+                } else {
+                    print(`Crawled ${urls.length} page(s) into version "${version}":`);
+                    for (const u of urls) print(`  ${u}`);
+                }
+                return 0;
+            }
+
+            case 'search': {
+                const query = positionals.join(' ');
+                if (!query) return usageError('search requires a <query>');
+                const mode = (values.mode ?? 'lexical') as SearchMode;
+                if (!SEARCH_MODES.includes(mode)) return usageError(`--mode must be one of: ${SEARCH_MODES.join(', ')}`);
+                const diversify = (values.diversify ?? 'none') as DiversifyStrategy;
+                if (!DIVERSIFY_STRATEGIES.includes(diversify)) {
+                    return usageError(`--diversify must be one of: ${DIVERSIFY_STRATEGIES.join(', ')}`);
+                }
+                const page = await searchIndex(query, {
+                    version: values.version,
+                    domain: values.domain,
+                    url_prefix: values['url-prefix'],
+                    heading_contains: values.heading,
+                    limit: values.limit ? Number(values.limit) : undefined,
+                    offset: values.offset ? Number(values.offset) : undefined,
+                }, mode, {}, {
+                    max_per_document: values['max-per-doc'] ? Number(values['max-per-doc']) : undefined,
+                    strategy: diversify,
+                });
+
+                if (json) {
+                    print(JSON.stringify(page, null, 2));
+                } else if (page.results.length === 0) {
+                    print(`No results for "${query}".`);
+                } else {
+                    print(`Showing ${page.offset + 1}–${page.offset + page.results.length} of ${page.total} result(s)\n`);
+                    if (page.unembedded) print(`(${page.unembedded} chunk(s) not embedded yet were left out; repeat the search to embed more)\n`);
+                    page.results.forEach((r, i) => {
+                        const breadcrumb = r.heading_path.length ? r.heading_path.join(' › ') : r.title;
+                        print(`${page.offset + i + 1}. ${breadcrumb}  (score ${r.score.toFixed(2)}, ${r.version})`);
+                        print(`   ${r.url}${r.folded_hits ? `  (+${r.folded_hits} more from this page)` : ''}`);
+                        print(`   ${r.snippet.replace(/\s+/g, ' ').trim()}\n`);
+                    });
+                }
+                return 0;
+            }
+
+            case 'get': {
+                const url = positionals[0];
+                if (!url) return usageError('get requires a <url>');
+                const version = values.version ?? 'latest';
+                const doc = getDocument(url, version);
+                if (!doc) {
+                    const tombstone = getTombstone(url, version);
+                    const gone = tombstone ? `; it was removed from its site (HTTP ${tombstone.status}, found ${tombstone.gone_at})` : '';
+                    process.stderr.write(`No cached document found for: ${url} (version: ${version})${gone}\n`);
+                    return 1;
+                }
+                print(json ? JSON.stringify(doc, null, 2) : doc.markdown);
+                return 0;
+            }
+
+            case 'stats': {
+                const stats = {
+                    total_pages: getDocumentCount(),
+                    total_chunks: getChunkCount(),
+                    sources: listSources(),
+                };
+                if (json) {
+                    print(JSON.stringify(stats, null, 2));
+                } else {
+                    print(`${stats.total_pages} pages, ${stats.total_chunks} chunks\n`);
+                    for (const s of stats.sources) {
+                        print(`  ${s.domain} [${s.version}]  ${s.page_count} pages, ${s.chunk_count} chunks, last crawled ${s.last_crawled}`);
+                    }
+                }
+                return 0;
+            }
+
+            case 'collections': {
+                const collections = listCollections();
+                if (json) {
+                    print(JSON.stringify({ collections }, null, 2));
+                } else {
+                    for (const c of collections) {
+                        const marker = c.active ? '*' : ' ';
+                        print(`${marker} ${c.name}  ${c.page_count} pages, ${c.chunk_count} chunks, ${(c.size_bytes / 1024 / 1024).toFixed(1)} MB  ${c.path}`);
+                    }
+                }
+                return 0;
+            }
+
+            case 'purge': {
+                let result: DeleteResult;
+                let target: string;
+                if (values.url) {
+                    const version = values.version ?? 'latest';
+                    result = deleteDocument(values.url, version);
+                    target = `${values.url} [${version}]`;
+                } else if (values.domain) {
+                    result = purgeDomain(values.domain, values.version);
+                    target = values.version ? `${values.domain} [${values.version}]` : values.domain;
+                } else if (values.version) {
+                    result = purgeVersion(values.version);
+                    target = `version "${values.version}"`;
+                } else {
+                    return usageError('purge requires --url, --domain or --version');
+                }
+
+                if (json) {
+                    print(JSON.stringify({ deleted_pages: result.documents, deleted_chunks: result.chunks }, null, 2));
+                } else {
+                    print(`Purged ${target}: ${result.documents} page(s), ${result.chunks} chunk(s).`);
+                }
+                return 0;
+            }
+
+            case 'maintain': {
+                const report = maintainIndex();
+                if (json) {
+                    print(JSON.stringify(report, null, 2));
+                } else {
+                    const orphans = Object.entries(report.orphans_removed).filter(([, n]) => n > 0);
+                    const mb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+                    print(`Orphaned rows removed: ${orphans.length ? orphans.map(([table, n]) => `${n} ${table}`).join(', ') : 'none'}`);
+                    for (const fts of report.fts) {
+                        const before = fts.integrity_before === 'ok' ? 'ok' : `failed (${fts.integrity_before})`;
+                        print(`${fts.table}: integrity ${before}, rebuilt and optimized, now ${fts.integrity_after}`);
+                    }
+                    print(`Size: ${mb(report.size_before)} → ${mb(report.size_after)} (${(report.duration_ms / 1000).toFixed(1)}s)`);
+                }
+                return report.foreign_key_violations === 0 && report.fts.every(f => f.integrity_after === 'ok') ? 0 : 1;
+            }
+
+            case 'refresh': {
+                const limit = values.limit ? Number(values.limit) : DEFAULT_REFRESH_LIMIT;
+                if (!Number.isInteger(limit) || limit <= 0) return usageError(`invalid --limit: ${values.limit}`);
+                const report = await refreshStale({
+                    domain: values.domain,
+                    version: values.version,
+                    ttl: values.ttl ? parseDuration(values.ttl) : undefined,
+                    limit,
+                    tombstone: values.tombstone ?? false,
+                });
+                if (json) {
+                    print(JSON.stringify(report, null, 2));
+                } else {
+                    print(`Checked ${report.checked} of ${report.stale} stale page(s): ${report.refreshed.length} refreshed, ${report.unchanged.length} unchanged, ${report.gone.length} gone, ${report.failed.length} failed.`);
+                    for (const page of report.refreshed) print(`  refreshed  ${page.url} [${page.version}]`);
+                    for (const page of report.gone) print(`  gone       ${page.url} [${page.version}] (HTTP ${page.status})`);
+                    for (const page of report.failed) print(`  failed     ${page.url} [${page.version}]: ${page.error}`);
+                    if (report.tombstoned > 0) print(`Tombstoned ${report.tombstoned} gone page(s).`);
+                    if (report.checked < report.stale) print(`${report.stale - report.checked} stale page(s) left; run again to continue.`);
+                }
+                return report.failed.length === 0 ? 0 : 1;
+            }
+
+            case 'export': {
+                const file = positionals[0];
+                if (!file) return usageError('export requires a <file>');
+                const result = exportIndex(file, { domain: values.domain, version: values.version });
+                if (json) {
+                    print(JSON.stringify(result, null, 2));
+                } else {
+                    print(`Exported ${result.documents} page(s), ${result.chunks} chunk(s) to ${result.path} (${(result.bytes / 1024).toFixed(1)} KB).`);
+                }
+                return 0;
+            }
+
+            case 'import': {
+                const file = positionals[0];
+                if (!file) return usageError('import requires a <file>');
+                const result = await importIndex(file);
+                if (json) {
+                    print(JSON.stringify(result, null, 2));
+                } else {
+                    print(`Imported ${result.path}: ${result.added} added, ${result.updated} updated, ${result.skipped} kept (local copy as new or newer).`);
+                }
+                return 0;
+            }
+
+            case 'help':
+                print(USAGE);
+                return 0;
+        }
+    } catch (err) {
+        process.stderr.write(`Error: ${err instanceof Error ? err.message : String(err)}\n`);
+        return 1;
+    }
+    return usageError(`unknown command: ${command}`);
+}
+
+function print(text: string): void {
+    process.stdout.write(text + '\n');
+}
+
+function usageError(message: string): number {
+    process.stderr.write(`webscribe: ${message}\n\n${USAGE}\n`);
+    return 2;
+}
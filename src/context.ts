@@ -0,0 +1,100 @@
+/**
+ * Token-budgeted context packs for a question.
+ *
+ * Replaces the search → get_document round trips that overflow an agent's
+ * context: the question is searched, near-duplicate chunks are dropped, each
+ * remaining hit is offered to the packer with its parent section, its own
+ * section and the bare chunk, and the packer fills the budget best hit first
+ * (see packing.ts).
+ */
+
+import type { SearchFilters } from './db.js';
+import { searchIndex } from './search.js';
+import type { SearchMode, SearchHit } from './search.js';
+import { getSection, renderChunks } from './sections.js';
+import type { Section } from './sections.js';
+import { questionToQuery } from './query.js';
+import { packContext, dropNearDuplicates } from './packing.js';
+import type { PackOption, PackedContext } from './packing.js';
+
+export const DEFAULT_CONTEXT_TOKENS = 4000;
+export const MIN_CONTEXT_TOKENS = 200;
+export const MAX_CONTEXT_TOKENS = 100_000;
+
+// Hits considered for packing; more than fit in a typical budget
+const CONTEXT_CANDIDATES = 20;
+
+export interface ContextOptions {
+    max_tokens?: number;
+    mode?: SearchMode;
+    filters?: Omit<SearchFilters, 'limit' | 'offset'>;
+}
+
+export interface ContextPack extends PackedContext {
+    question: string;
+    /** The search query derived from the question */
+    query: string;
+    max_tokens: number;
+}
+
+/**
+ * Searches for a question and packs the best sections into `max_tokens`
+ * estimated tokens. Defaults to hybrid search, which copes best with
+ * natural-language questions.
+ */
+export async function buildContext(question: string, options: ContextOptions = {}): Promise<ContextPack> {
+    const maxTokens = Math.min(
+        Math.max(Math.floor(options.max_tokens ?? DEFAULT_CONTEXT_TOKENS), MIN_CONTEXT_TOKENS),
+        MAX_CONTEXT_TOKENS,
+    );
+    const query = questionToQuery(question);
+    if (!query) throw new Error("question has no searchable words");
+
+    const page = await searchIndex(query, { ...options.filters, limit: CONTEXT_CANDIDATES }, options.mode ?? 'hybrid');
+    const hits = dropNearDuplicates(page.results, hit => hit.content);
+
+    return {
+        question,
+        query,
+        max_tokens: maxTokens,
+        ...packContext(hits.map(packOptions), maxTokens),
+    };
+}
+
+/**
+ * The ways a hit can be packed, largest first: its parent section (for
+ * hits below a top-level heading), its own section with subsections, and
+ * the chunk alone.
+ */
+function packOptions(hit: SearchHit): PackOption[] {
+    const sections: Array<Section | null> = [
+        hit.heading_path.length > 1
+            ? getSection({ url: hit.url, version: hit.version, heading_path: hit.heading_path.slice(0, -1) })
+            : null,
+        getSection({ chunk_id: hit.chunk_id }),
+    ];
+
+    // The chunk ⊆ its section ⊆ the parent section, so equal sizes mean equal content
+    const options: PackOption[] = [];
+    for (const section of sections) {
+        if (!section || options.some(o => o.chunk_ids.length === section.chunks.length)) continue;
+        options.push({
+            url: hit.url,
+            title: hit.title,
+            heading_path: section.heading_path,
+            chunk_ids: section.chunks.map(c => c.chunk_id),
+            markdown: section.markdown,
+        });
+    }
+
+    if (!options.some(o => o.chunk_ids.length === 1)) {
+        options.push({
+            url: hit.url,
+            title: hit.title,
+            heading_path: hit.heading_path,
+            chunk_ids: [hit.chunk_id],
+            markdown: renderChunks([{ chunk_id: hit.chunk_id, ordinal: 0, heading_path: hit.heading_path, content: hit.content }]),
+        });
+    }
+    return options;
+}
@@ -1,12 +1,42 @@
 import { chromium, Browser, Page } from 'playwright';
 import pLimit from 'p-limit';
 import { extractMarkdownPristine } from './utils.js';
-import { upsertDocument, upsertChunks, getCacheHeaders } from './db.js';
+import {
+    upsertDocument,
+    upsertChunks,
+    getCacheHeaders,
+    getDocument,
+    listStaleDocuments,
+    markDocumentChecked,
+    tombstoneDocument,
+} from './db.js';
 import { chunkMarkdown } from './chunker.js';
 import { isAllowed, enforceCrawlDelay } from './robots.js';
 import { discoverSitemapUrls } from './sitemap.js';
 import { getProfile } from './profiles.js';
-import { searchDocuments } from './db.js';
+import { getStalePolicy, ttlFor } from './staleness.js';
+import { searchIndex, embedMissingChunks } from './search.js';
+import type { SearchMode, SearchPage } from './search.js';
+import type { SearchFilters, SnippetOptions } from './db.js';
+import type { DiversityOptions } from './diversify.js';
+
+// ── Progress & cancellation ────────────────────────────────────────────────────
+
+export interface CrawlProgress {
+    /** Pages successfully extracted and stored */
+    done: number;
+    /** URLs still waiting in the crawl queue */
+    queued: number;
+    /** Pages visited that produced no document (errors, robots.txt, empty pages) */
+    failed: number;
+}
+
+export interface CrawlHooks {
+    /** When aborted, the crawl stops before the next page and returns what it has so far */
+    signal?: AbortSignal;
+    /** Called after every page visit with the running totals */
+    onProgress?: (progress: CrawlProgress) => void;
+}
 
 // ── Sub-tab expansion ──────────────────────────────────────────────────────────
 
@@ -58,41 +88,70 @@ async function revealHiddenContent(page: Page): Promise<void> {
 
 // ── Smart re-crawl check ───────────────────────────────────────────────────────
 
+/** HTTP statuses that mean a page was removed from its site */
+const GONE_STATUSES = [404, 410];
+
+export interface RemoteCheck {
+    /**
+     * 'changed' also covers pages never crawled or cached without an ETag or
+     * Last-Modified, which can only be compared by extracting them again
+     */
+    state: 'changed' | 'unchanged' | 'gone' | 'unreachable';
+    /** Status of the HEAD request, when one was made */
+    status?: number;
+    /** Network error, for 'unreachable' */
+    error?: string;
+}
+
 /**
  * Performs a HEAD request to check whether the remote resource has changed
- * since it was last crawled. Returns true if the page should be (re-)crawled.
+ * since it was last crawled, using the cached ETag / Last-Modified.
  */
-async function shouldCrawl(url: string, version: string): Promise<boolean> {
+export async function checkRemote(url: string, version: string): Promise<RemoteCheck> {
     const cached = getCacheHeaders(url, version);
-    if (!cached) return true; // Never crawled before
+    if (!cached) return { state: 'changed' }; // Never crawled before
 
     // If we have no cache signal, always re-crawl
-    if (!cached.etag && !cached.last_modified) return true;
+    if (!cached.etag && !cached.last_modified) return { state: 'changed' };
 
     try {
         const res = await fetch(url, {
             method: 'HEAD',
             signal: AbortSignal.timeout(5000),
         });
-        if (!res.ok) return true;
+        if (GONE_STATUSES.includes(res.status)) return { state: 'gone', status: res.status };
+        if (!res.ok) return { state: 'changed', status: res.status };
 
         const remoteEtag = res.headers.get('etag');
         const remoteLastMod = res.headers.get('last-modified');
 
         if (remoteEtag && cached.etag) {
-            return remoteEtag !== cached.etag;
+            return { state: remoteEtag !== cached.etag ? 'changed' : 'unchanged', status: res.status };
         }
         if (remoteLastMod && cached.last_modified) {
-            return remoteLastMod !== cached.last_modified;
+            return { state: remoteLastMod !== cached.last_modified ? 'changed' : 'unchanged', status: res.status };
         }
-        return true; // Can't determine — re-crawl to be safe
-    } catch {
-        return true; // Network error — try to crawl anyway
+        return { state: 'changed', status: res.status }; // Can't determine — re-crawl to be safe
+    } catch (err) {
+        return { state: 'unreachable', error: String(err) };
     }
 }
 
+/**
+ * Returns true if the page should be (re-)crawled. Network errors count as
+ * changed, so the crawl still tries the page.
+ */
+async function shouldCrawl(url: string, version: string): Promise<boolean> {
+    return (await checkRemote(url, version)).state !== 'unchanged';
+}
+
 // ── Single page visitor ────────────────────────────────────────────────────────
 
+type Extraction =
+    | { status: 'stored'; markdown: string }
+    | { status: 'gone'; http_status: number }
+    | { status: 'empty' };
+
 /**
  * Visits a single URL with Playwright, waits for SPA hydration,
  * extracts markdown (using the matching site profile), stores the document
@@ -117,56 +176,75 @@ async function visitPage(
         if (!(await shouldCrawl(url, version))) {
             process.stderr.write(`[crawler] Skipping (unchanged since last crawl): ${url}\n`);
             // Return the cached markdown content
-            const { getDocument } = await import('./db.js');
             const cached = getDocument(url, version);
             return cached?.markdown ?? null;
         }
 
-        await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 30_000 });
-        await page.waitForLoadState('networkidle', { timeout: 20_000 }).catch(() => { });
-
-        // Reveal hidden content (show-code buttons, accordions, details)
-        await revealHiddenContent(page);
-
-        const html = await page.content();
+        const result = await extractPage(page, url, version);
+        if (result.status === 'gone') {
+            process.stderr.write(`[crawler] Skipping (HTTP ${result.http_status}): ${url}\n`);
+        }
+        return result.status === 'stored' ? result.markdown : null;
+    } catch (err) {
+        process.stderr.write(`[crawler] Failed to visit ${url}: ${err}\n`);
+        return null;
+    }
+}
 
-        // Get site-specific extraction profile
-        const profile = getProfile(url);
+/**
+ * Loads and extracts a page and stores it with its chunks, without the
+ * robots.txt, crawl-delay and re-crawl checks of visitPage. Throws on
+ * navigation errors.
+ */
+async function extractPage(page: Page, url: string, version: string): Promise<Extraction> {
+    const response = await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 30_000 });
+    if (response && GONE_STATUSES.includes(response.status())) return { status: 'gone', http_status: response.status() };
+    await page.waitForLoadState('networkidle', { timeout: 20_000 }).catch(() => { });
 
-        const markdown = extractMarkdownPristine(html, url, profile);
+    // Reveal hidden content (show-code buttons, accordions, details)
+    await revealHiddenContent(page);
 
-        // Skip near-empty pages (404s, redirects, empty tabs)
-        if (markdown.trim().length < 50) return null;
+    const html = await page.content();
 
-        const title = await page.title();
-        const domain = new URL(url).hostname;
+    // Get site-specific extraction profile
+    const profile = getProfile(url);
 
-        // Extract HTTP cache headers for smart re-crawl on future runs
-        let etag: string | undefined;
-        let lastModified: string | undefined;
-        try {
-            const headRes = await fetch(url, { method: 'HEAD', signal: AbortSignal.timeout(3000) });
-            etag = headRes.headers.get('etag') ?? undefined;
-            lastModified = headRes.headers.get('last-modified') ?? undefined;
-        } catch { /* ignore — cache headers are best-effort */ }
+    const markdown = extractMarkdownPristine(html, url, profile);
 
-        // Persist full document
-        upsertDocument(url, version, domain, title, markdown, etag, lastModified);
+    // Skip near-empty pages (error pages, redirects, empty tabs)
+    if (markdown.trim().length < 50) return { status: 'empty' };
 
-        // Persist semantic chunks for FTS5 search
-        const chunks = chunkMarkdown(markdown);
-        if (chunks.length > 0) {
-            upsertChunks(url, version, chunks);
-        }
+    const title = await page.title();
+    const domain = new URL(url).hostname;
 
-        process.stderr.write(
-            `[crawler] ✓ ${url} (profile: ${profile.name}, chunks: ${chunks.length})\n`
-        );
-        return markdown;
-    } catch (err) {
-        process.stderr.write(`[crawler] Failed to visit ${url}: ${err}\n`);
-        return null;
+    // Extract HTTP cache headers for smart re-crawl on future runs
+    let etag: string | undefined;
+    let lastModified: string | undefined;
+    try {
+        const headRes = await fetch(url, { method: 'HEAD', signal: AbortSignal.timeout(3000) });
+        etag = headRes.headers.get('etag') ?? undefined;
+        lastModified = headRes.headers.get('last-modified') ?? undefined;
+    } catch { /* ignore — cache headers are best-effort */ }
+
+    // Persist full document
+    upsertDocument(url, version, domain, title, markdown, etag, lastModified);
+
+    // Persist semantic chunks for FTS5 search
+    const chunks = chunkMarkdown(markdown);
+    if (chunks.length > 0) {
+        upsertChunks(url, version, chunks);
+
+        // Embed the new chunks for semantic search (best-effort — any
+        // misses are back-filled a batch per semantic/hybrid query)
+        await embedMissingChunks(url, version).catch((err) => {
+            process.stderr.write(`[crawler] Embedding failed for ${url}: ${err}\n`);
+        });
     }
+
+    process.stderr.write(
+        `[crawler] ✓ ${url} (profile: ${profile.name}, chunks: ${chunks.length})\n`
+    );
+    return { status: 'stored', markdown };
 }
 
 // ── BFS Crawler ────────────────────────────────────────────────────────────────
@@ -187,6 +265,7 @@ async function visitPage(
  * @param maxPages   Maximum pages to crawl before stopping.
  * @param urlGlob    Optional path filter (substring match against pathname).
  * @param expandTabs Whether to auto-enqueue sub-tab suffixes for every URL.
+ * @param hooks      Optional progress callback and abort signal.
  * @returns Array of successfully crawled URLs.
  */
 export async function runCrawler(
@@ -195,11 +274,13 @@ export async function runCrawler(
     maxPages: number = 10,
     urlGlob?: string,
     expandTabs: boolean = true,
+    hooks: CrawlHooks = {},
 ): Promise<string[]> {
     const browser: Browser = await chromium.launch({ headless: true });
     const crawledUrls: string[] = [];
     const visited = new Set<string>();
     const queue: string[] = [];
+    let failed = 0;
 
     const startHostname = new URL(startUrl).hostname;
 
@@ -226,7 +307,7 @@ export async function runCrawler(
 
         // Process queue — one page at a time to respect sequential Playwright context
         // (concurrency happens at the outer tool level if multiple tools are used)
-        while (queue.length > 0 && crawledUrls.length < maxPages) {
+        while (queue.length > 0 && crawledUrls.length < maxPages && !hooks.signal?.aborted) {
             const url = queue.shift()!;
             const normalised = url.replace(/\/$/, '');
             if (visited.has(normalised)) continue;
@@ -265,7 +346,10 @@ export async function runCrawler(
                         } catch { /* malformed URL */ }
                     }
                 } catch { /* page navigated away */ }
+            } else {
+                failed++;
             }
+            hooks.onProgress?.({ done: crawledUrls.length, queued: queue.length, failed });
         }
 
         await page.close();
@@ -285,15 +369,18 @@ export async function runCrawler(
  * Phase 2 — Crawls every component URL + all sub-tab variants with concurrency.
  *
  * Works generically for Salt DS, MUI, Ant Design, Chakra, Docusaurus, etc.
+ * Accepts the same progress/cancellation hooks as runCrawler.
  */
 export async function crawlComponentDocs(
     indexUrl: string,
     version: string = 'latest',
     maxPages: number = 200,
+    hooks: CrawlHooks = {},
 ): Promise<string[]> {
     const browser: Browser = await chromium.launch({ headless: true });
     const crawledUrls: string[] = [];
     const visited = new Set<string>();
+    let failed = 0;
 
     try {
         const page = await browser.newPage();
@@ -354,9 +441,13 @@ export async function crawlComponentDocs(
         );
         let pageIdx = 0;
 
-        const tasks = queue.slice(0, maxPages * 2).map((url, i) =>
+        const batch = queue.slice(0, maxPages * 2);
+        let pending = batch.length;
+
+        const tasks = batch.map((url, i) =>
             limit(async () => {
-                if (crawledUrls.length >= maxPages) return;
+                pending--;
+                if (crawledUrls.length >= maxPages || hooks.signal?.aborted) return;
                 const normalised = url.replace(/\/$/, '');
                 if (visited.has(normalised)) return;
                 visited.add(normalised);
@@ -365,6 +456,8 @@ export async function crawlComponentDocs(
                 const pageToUse = pages[i % CONCURRENCY];
                 const markdown = await visitPage(pageToUse, url, version);
                 if (markdown) crawledUrls.push(url);
+                else failed++;
+                hooks.onProgress?.({ done: crawledUrls.length, queued: pending, failed });
             })
         );
 
@@ -396,15 +489,135 @@ export async function extractSinglePage(url: string, version: string = 'latest')
     }
 }
 
+// ── Stale page refresh ─────────────────────────────────────────────────────────
+
+export const DEFAULT_REFRESH_LIMIT = 50;
+export const MAX_REFRESH_LIMIT = 500;
+
+export interface RefreshOptions {
+    domain?: string;
+    version?: string;
+    /** TTL in seconds for every domain, instead of the staleness policy */
+    ttl?: number;
+    /** Most pages to check in one run, oldest first (default 50, max 500) */
+    limit?: number;
+    /** Remove gone pages from the index, leaving a tombstone */
+    tombstone?: boolean;
+}
+
+export interface RefreshedPage {
+    url: string;
+    version: string;
+    /** Crawl time before the refresh ('YYYY-MM-DD HH:MM:SS' UTC) */
+    crawled: string;
+    /** HTTP status, for gone pages */
+    status?: number;
+    /** What went wrong, for failed pages */
+    error?: string;
+}
+
+export interface RefreshReport {
+    /** Stale pages found, including any beyond the limit */
+    stale: number;
+    checked: number;
+    /** Extracted again with new content */
+    refreshed: RefreshedPage[];
+    /** Confirmed unchanged; their TTL starts over */
+    unchanged: RefreshedPage[];
+    /** Answered 404 or 410 */
+    gone: RefreshedPage[];
+    /** Disallowed by robots.txt, unreachable or failed to extract; retried next run */
+    failed: RefreshedPage[];
+    /** Gone pages removed from the index (with `tombstone`) */
+    tombstoned: number;
+}
+
+type RefreshOutcome = { result: 'refreshed' | 'unchanged' | 'gone' | 'failed'; status?: number; error?: string };
+
+/**
+ * Re-checks cached pages older than their domain's TTL (see staleness.ts),
+ * oldest first. Each page is compared with the live site through the same
+ * ETag / Last-Modified check as a crawl; only pages that changed, or can't be
+ * compared that way, are extracted again. The browser is only started once a
+ * page needs extracting. Accepts the same hooks as runCrawler.
+ */
+export async function refreshStale(options: RefreshOptions = {}, hooks: CrawlHooks = {}): Promise<RefreshReport> {
+    const policy = getStalePolicy();
+    const stale = listStaleDocuments(
+        domain => options.ttl ?? ttlFor(domain, policy),
+        { domain: options.domain, version: options.version },
+    );
+    const limit = Math.min(Math.max(1, Math.floor(options.limit ?? DEFAULT_REFRESH_LIMIT)), MAX_REFRESH_LIMIT);
+    const batch = stale.slice(0, limit);
+    const report: RefreshReport = { stale: stale.length, checked: 0, refreshed: [], unchanged: [], gone: [], failed: [], tombstoned: 0 };
+
+    const session: { browser?: Browser; page?: Page } = {};
+    const openPage = async () => {
+        session.browser ??= await chromium.launch({ headless: true });
+        session.page ??= await session.browser.newPage();
+        return session.page;
+    };
+
+    try {
+        for (const doc of batch) {
+            if (hooks.signal?.aborted) break;
+            const { result, status, error } = await refreshPage(doc.url, doc.version, openPage);
+            report[result].push({ url: doc.url, version: doc.version, crawled: doc.timestamp, status, error });
+            report.checked++;
+
+            if (result === 'gone' && options.tombstone) {
+                tombstoneDocument(doc.url, doc.version, status!);
+                report.tombstoned++;
+            }
+            process.stderr.write(`[refresh] ${result}: ${doc.url}${status ? ` (HTTP ${status})` : ''}${error ? ` (${error})` : ''}\n`);
+            hooks.onProgress?.({ done: report.checked - report.failed.length, queued: batch.length - report.checked, failed: report.failed.length });
+        }
+    } finally {
+        await session.browser?.close();
+    }
+    return report;
+}
+
+async function refreshPage(url: string, version: string, openPage: () => Promise<Page>): Promise<RefreshOutcome> {
+    try {
+        if (!(await isAllowed(url))) return { result: 'failed', error: 'robots.txt disallows this page' };
+        await enforceCrawlDelay(url);
+
+        const remote = await checkRemote(url, version);
+        if (remote.state === 'unchanged') {
+            markDocumentChecked(url, version);
+            return { result: 'unchanged' };
+        }
+        if (remote.state === 'gone') return { result: 'gone', status: remote.status };
+        if (remote.state === 'unreachable') return { result: 'failed', error: remote.error };
+
+        const before = getDocument(url, version)?.markdown;
+        const extraction = await extractPage(await openPage(), url, version);
+        if (extraction.status === 'gone') return { result: 'gone', status: extraction.http_status };
+        if (extraction.status === 'empty') return { result: 'failed', error: 'page extracted to (nearly) empty markdown' };
+        if (extraction.markdown !== before) return { result: 'refreshed' };
+        markDocumentChecked(url, version);
+        return { result: 'unchanged' };
+    } catch (err) {
+        return { result: 'failed', error: String(err) };
+    }
+}
+
 // ── Local search ───────────────────────────────────────────────────────────────
 
 /**
- * FTS5-powered search across all cached chunks.
- * Returns structured results ranked by BM25 relevance.
+ * Search across all cached chunks, filtered and paged in SQL.
+ * 'lexical' (default) ranks by FTS5 BM25 relevance; 'semantic' by embedding
+ * similarity; 'hybrid' fuses both rankings (see search.ts).
+ * Each hit includes a highlighted snippet and its match offsets. Diversity
+ * options cap chunks per page and/or re-rank with MMR (see diversify.ts).
  */
 export async function searchLocalDatasets(
     query: string,
-    version?: string,
-): Promise<Array<{ url: string; version: string; title: string; heading_path: string[]; content: string; score: number }>> {
-    return searchDocuments(query, version);
+    filters: SearchFilters = {},
+    mode: SearchMode = 'lexical',
+    snippet: SnippetOptions = {},
+    diversity: DiversityOptions = {},
+): Promise<SearchPage> {
+    return searchIndex(query, filters, mode, snippet, diversity);
 }
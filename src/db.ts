@@ -2,103 +2,467 @@ import Database from 'better-sqlite3';
 import path from 'path';
 import os from 'os';
 import fs from 'fs';
+import { createHash } from 'node:crypto';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { parseSearchQuery } from './query.js';
+import { FTS_COLUMNS, bm25Expression } from './ranking.js';
+import { FTS_TOKENIZERS, getRequestedTokenizer, tokenizerFromSql, identifierTerms } from './tokenizer.js';
+import type { FtsTokenizer } from './tokenizer.js';
+import { runMigrations, migrationStatus } from './migrations.js';
+import type { Migration, MigrationStatus } from './migrations.js';
+import { maintainDatabase, checkDatabaseHealth, scanDatabase } from './maintenance.js';
+import type { MaintenanceReport } from './maintenance.js';
+import { extractCodeBlocks } from './chunker.js';
+import { normalizeLanguage } from './utils.js';
 
 // ── Storage location ───────────────────────────────────────────────────────────
-// Stored in the user's home directory so data survives package updates via npx.
-const DB_DIR = path.join(os.homedir(), '.universal-docs-mcp');
-const DB_PATH = path.join(DB_DIR, 'documents.db');
+// Stored in the user's home directory by default so data survives package
+// updates via npx. WEBSCRIBE_DB_PATH (or --db) points the default collection
+// elsewhere, e.g. a per-project index; named collections are separate SQLite
+// files in a `collections/` directory next to it.
 
-if (!fs.existsSync(DB_DIR)) {
-    fs.mkdirSync(DB_DIR, { recursive: true });
+export const DEFAULT_COLLECTION = 'default';
+const DEFAULT_DB_PATH = path.join(os.homedir(), '.universal-docs-mcp', 'documents.db');
+const COLLECTION_NAME_RE = /^[a-z0-9][a-z0-9._-]{0,63}$/i;
+
+export interface DatabaseConfig {
+    /** Database file of the default collection (':memory:' for a throwaway index) */
+    path?: string;
+    /** Collection used when a call doesn't name one */
+    collection?: string;
+}
+
+let configuredPath: string | undefined;
+let configuredCollection: string | undefined;
+
+/**
+ * Overrides the environment (WEBSCRIBE_DB_PATH, WEBSCRIBE_COLLECTION), e.g.
+ * from CLI flags. Must run before the first database access.
+ */
+export function configureDatabase(config: DatabaseConfig): void {
+    if (connections.size > 0) throw new Error('configureDatabase() must be called before the database is opened');
+    if (config.collection !== undefined) validateCollectionName(config.collection);
+    configuredPath = config.path ?? configuredPath;
+    configuredCollection = config.collection ?? configuredCollection;
 }
 
-export const db = new Database(DB_PATH);
+/**
+ * Path of the default collection's database file.
+ */
+export function getDatabasePath(): string {
+    const configured = configuredPath ?? process.env.WEBSCRIBE_DB_PATH;
+    if (configured === ':memory:') return configured;
+    return configured ? path.resolve(configured) : DEFAULT_DB_PATH;
+}
 
-// WAL mode for maximum concurrency (required for concurrent Playwright crawls)
-db.pragma('journal_mode = WAL');
+/**
+ * Path of a collection's database file. Collections of an in-memory index are in-memory too.
+ */
+export function getCollectionPath(name: string): string {
+    validateCollectionName(name);
+    const defaultPath = getDatabasePath();
+    if (name === DEFAULT_COLLECTION || defaultPath === ':memory:') return defaultPath;
+    return path.join(path.dirname(defaultPath), 'collections', `${name}.db`);
+}
+
+// ── Connections ────────────────────────────────────────────────────────────────
+// Databases are opened (and migrated) on first use rather than at import, so
+// tests and CLI flags can choose the location first. The collection a call
+// works on is scoped with withCollection(); everything below reads it through
+// database().
+
+const connections = new Map<string, Database.Database>();
+const collectionScope = new AsyncLocalStorage<string>();
+
+/**
+ * Runs `fn` — and everything it awaits or starts — against a named
+ * collection. Undefined or '' keeps the current one.
+ */
+export function withCollection<T>(name: string | undefined, fn: () => T): T {
+    if (!name) return fn();
+    validateCollectionName(name);
+    return collectionScope.run(name, fn);
+}
+
+/**
+ * The collection the current call works on.
+ */
+export function getActiveCollection(): string {
+    return collectionScope.getStore() ?? configuredCollection ?? process.env.WEBSCRIBE_COLLECTION ?? DEFAULT_COLLECTION;
+}
+
+/**
+ * Closes every open database, e.g. before a backup or at shutdown.
+ */
+export function closeDatabases(): void {
+    for (const connection of connections.values()) connection.close();
+    connections.clear();
+}
+
+function database(): Database.Database {
+    const name = getActiveCollection();
+    let connection = connections.get(name);
+    if (!connection) {
+        const file = getCollectionPath(name);
+        if (file !== ':memory:') fs.mkdirSync(path.dirname(file), { recursive: true });
+        connection = new Database(file);
+        // WAL mode for maximum concurrency (required for concurrent Playwright crawls)
+        connection.pragma('journal_mode = WAL');
+        // Explicit, so the cascades hold whatever the driver's compile-time default
+        connection.pragma('foreign_keys = ON');
+        initSchema(connection, file);
+        for (const problem of checkDatabaseHealth(connection)) {
+            process.stderr.write(`[db] ${name}: ${problem}; run maintain_index to repair\n`);
+        }
+        connections.set(name, connection);
+    }
+    return connection;
+}
+
+function validateCollectionName(name: string): void {
+    if (!COLLECTION_NAME_RE.test(name)) {
+        throw new Error(`Invalid collection name '${name}': use up to 64 letters, digits, '.', '_' or '-', starting with a letter or digit`);
+    }
+}
 
 // ── Schema ─────────────────────────────────────────────────────────────────────
+// Every database is brought to the latest layout by numbered migrations (see
+// migrations.ts). Never edit a released migration: append a new one. Indexes
+// created before migrations were numbered (schema version 0) may already have
+// some of the changes, so each step checks before altering.
+
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Create documents, chunks and embedding tables',
+        up: db => {
+            db.exec(`
+                -- Main documents table (full page per URL+version)
+                CREATE TABLE IF NOT EXISTS documents_v2 (
+                    url           TEXT NOT NULL,
+                    version       TEXT NOT NULL DEFAULT 'latest',
+                    domain        TEXT NOT NULL,
+                    title         TEXT NOT NULL,
+                    markdown      TEXT NOT NULL,
+                    etag          TEXT,
+                    last_modified TEXT,
+                    timestamp     DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    PRIMARY KEY (url, version)
+                );
+
+                -- Semantic chunk table: one row per heading section of a page
+                CREATE TABLE IF NOT EXISTS chunks (
+                    id           INTEGER PRIMARY KEY AUTOINCREMENT,
+                    url          TEXT NOT NULL,
+                    version      TEXT NOT NULL DEFAULT 'latest',
+                    heading_path TEXT NOT NULL,   -- JSON array, e.g. ["Authentication","OAuth2 Flow"]
+                    content      TEXT NOT NULL,
+                    FOREIGN KEY (url, version) REFERENCES documents_v2 (url, version) ON DELETE CASCADE
+                );
+
+                -- Embedding vectors per chunk (Float32 BLOB), one row per chunk per embedding model
+                CREATE TABLE IF NOT EXISTS chunk_embeddings (
+                    chunk_id INTEGER NOT NULL,
+                    model    TEXT NOT NULL,      -- provider id, e.g. 'local-hash-256'
+                    vector   BLOB NOT NULL,
+                    PRIMARY KEY (chunk_id, model),
+                    FOREIGN KEY (chunk_id) REFERENCES chunks (id) ON DELETE CASCADE
+                );
+            `);
+            // Early documents_v2 tables predate the cache headers
+            addColumnIfMissing(db, 'documents_v2', 'etag', 'TEXT');
+            addColumnIfMissing(db, 'documents_v2', 'last_modified', 'TEXT');
+        },
+    },
+    {
+        version: 2,
+        description: 'Move pages from the legacy documents table into documents_v2',
+        destructive: true,
+        up: db => {
+            const hasLegacyTable = db.prepare(
+                `SELECT 1 FROM sqlite_master WHERE type='table' AND name='documents'`
+            ).get();
+            if (hasLegacyTable) {
+                db.exec(`
+                    INSERT OR IGNORE INTO documents_v2 (url, domain, title, markdown, timestamp)
+                    SELECT url, domain, title, markdown, timestamp FROM documents;
+                    DROP TABLE documents;
+                `);
+            }
+        },
+    },
+    {
+        version: 3,
+        description: 'Index page titles and code identifiers (rebuilds chunks_fts)',
+        destructive: true,
+        up: db => {
+            const ftsCols = columnsOf(db, 'chunks_fts');
+            const chunkCols = columnsOf(db, 'chunks');
+            if (ftsCols.join(',') === FTS_COLUMNS.join(',') && chunkCols.includes('title') && chunkCols.includes('identifiers')) return;
+
+            // The sync triggers are recreated after migrating
+            db.exec(`
+                DROP TRIGGER IF EXISTS chunks_ai;
+                DROP TRIGGER IF EXISTS chunks_ad;
+                DROP TRIGGER IF EXISTS chunks_au;
+                DROP TABLE IF EXISTS chunks_fts;
+            `);
+            if (!chunkCols.includes('title')) {
+                // Copy of documents_v2.title, so chunks_fts can index it
+                db.exec(`ALTER TABLE chunks ADD COLUMN title TEXT NOT NULL DEFAULT '';`);
+                db.exec(`
+                    UPDATE chunks SET title = COALESCE(
+                        (SELECT d.title FROM documents_v2 d WHERE d.url = chunks.url AND d.version = chunks.version), '');
+                `);
+            }
+            if (!chunkCols.includes('identifiers')) {
+                // Split code identifiers, see tokenizer.ts
+                db.exec(`ALTER TABLE chunks ADD COLUMN identifiers TEXT NOT NULL DEFAULT '';`);
+                const setIdentifiers = db.prepare(`UPDATE chunks SET identifiers = ? WHERE id = ?`);
+                const rows = db.prepare(`SELECT id, heading_path, content FROM chunks`).all() as Array<{ id: number; heading_path: string; content: string }>;
+                for (const row of rows) {
+                    setIdentifiers.run(identifierTerms(`${parseHeadingPath(row.heading_path).join(' ')}\n${row.content}`), row.id);
+                }
+            }
+            createChunksFts(db, getRequestedTokenizer() ?? 'unicode61');
+        },
+    },
+    {
+        version: 4,
+        description: 'Store chunk positions within their page',
+        up: db => {
+            // 0-based position of the chunk within its page. Chunks of older indexes were
+            // inserted in page order, so id order within a page gives their position.
+            if (!columnsOf(db, 'chunks').includes('ordinal')) {
+                db.exec(`
+                    ALTER TABLE chunks ADD COLUMN ordinal INTEGER NOT NULL DEFAULT 0;
+                    UPDATE chunks SET ordinal = (
+                        SELECT COUNT(*) FROM chunks c2
+                        WHERE c2.url = chunks.url AND c2.version = chunks.version AND c2.id < chunks.id
+                    );
+                `);
+            }
+            db.exec(`CREATE INDEX IF NOT EXISTS chunks_page_order ON chunks (url, version, ordinal);`);
+        },
+    },
+    {
+        version: 5,
+        description: 'Extract fenced code blocks into a searchable code_examples table',
+        up: db => {
+            db.exec(`
+                -- Fenced code blocks pulled out of chunks, for "show me an example of X" searches
+                CREATE TABLE IF NOT EXISTS code_examples (
+                    id           INTEGER PRIMARY KEY AUTOINCREMENT,
+                    chunk_id     INTEGER NOT NULL,
+                    url          TEXT NOT NULL,
+                    version      TEXT NOT NULL DEFAULT 'latest',
+                    language     TEXT NOT NULL DEFAULT '',  -- normalised fence label, '' if none
+                    heading_path TEXT NOT NULL,             -- JSON array, copied from the chunk
+                    context      TEXT NOT NULL DEFAULT '',  -- prose paragraph introducing the block
+                    code         TEXT NOT NULL,
+                    identifiers  TEXT NOT NULL DEFAULT '',
+                    FOREIGN KEY (chunk_id) REFERENCES chunks (id) ON DELETE CASCADE
+                );
+                CREATE INDEX IF NOT EXISTS code_examples_chunk ON code_examples (chunk_id);
+            `);
+            if (tableExists(db, 'code_examples_fts')) return;
+
+            // Code blocks of every chunk indexed before the table existed
+            const hasExamples = db.prepare(`SELECT 1 FROM code_examples LIMIT 1`).get();
+            if (!hasExamples) {
+                const rows = db.prepare(
+                    `SELECT id, url, version, heading_path, content FROM chunks WHERE content LIKE '%\`\`\`%' OR content LIKE '%~~~%'`
+                ).all() as Array<{ id: number; url: string; version: string; heading_path: string; content: string }>;
+                for (const row of rows) insertCodeExamples(db, row.id, row.url, row.version, row.heading_path, row.content);
+            }
+            createCodeExamplesFts(db, currentTokenizer(db));
+        },
+    },
+    {
+        version: 6,
+        description: 'Keep earlier revisions of each page',
+        up: db => {
+            db.exec(`
+                -- Earlier copies of each page's markdown; the newest row matches documents_v2
+                CREATE TABLE IF NOT EXISTS document_revisions (
+                    id           INTEGER PRIMARY KEY AUTOINCREMENT,
+                    url          TEXT NOT NULL,
+                    version      TEXT NOT NULL DEFAULT 'latest',
+                    title        TEXT NOT NULL,
+                    markdown     TEXT NOT NULL,
+                    content_hash TEXT NOT NULL,   -- sha256 of markdown, hex
+                    captured_at  DATETIME DEFAULT CURRENT_TIMESTAMP
+                );
+                CREATE INDEX IF NOT EXISTS document_revisions_page ON document_revisions (url, version, id);
+            `);
+        },
+    },
+    {
+        version: 7,
+        description: 'Record pages removed from their site',
+        up: db => {
+            db.exec(`
+                -- Pages refresh_stale found gone (404/410) and removed from the index
+                CREATE TABLE IF NOT EXISTS document_tombstones (
+                    url     TEXT NOT NULL,
+                    version TEXT NOT NULL DEFAULT 'latest',
+                    domain  TEXT NOT NULL,
+                    status  INTEGER NOT NULL,     -- HTTP status that showed the page gone
+                    gone_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    PRIMARY KEY (url, version)
+                );
+            `);
+        },
+    },
+];
+
+/**
+ * Migrates a freshly opened database to the latest schema, applies the
+ * configured tokenizer and (re)creates the FTS sync triggers.
+ */
+function initSchema(db: Database.Database, file: string): void {
+    runMigrations(db, MIGRATIONS, file);
+    applyTokenizer(db);
+    createTriggers(db);
+}
+
+export interface DatabaseCheck extends MigrationStatus {
+    /** Problems maintain_index would repair; only scanned when no migration is pending */
+    problems: string[];
+}
+
+/**
+ * Reports the schema version and pending migrations of the active collection,
+ * and scans it for orphaned rows and FTS drift, without opening it for
+ * writing (for --check-db).
+ */
+export function checkDatabase(): DatabaseCheck {
+    const file = getCollectionPath(getActiveCollection());
+    if (file === ':memory:' || !fs.existsSync(file)) return { ...migrationStatus(null, MIGRATIONS, file), problems: [] };
+    const db = new Database(file, { readonly: true, fileMustExist: true });
+    try {
+        const status = migrationStatus(db, MIGRATIONS, file);
+        return { ...status, problems: status.pending.length === 0 ? scanDatabase(db) : [] };
+    } finally {
+        db.close();
+    }
+}
+
+// ── Search index layout ────────────────────────────────────────────────────────
+// The FTS tokenizer is configuration (WEBSCRIBE_FTS_TOKENIZER), not schema, so
+// switching it is handled on open rather than by a migration.
 
-db.exec(`
-    -- Main documents table (full page per URL+version)
-    CREATE TABLE IF NOT EXISTS documents_v2 (
-        url           TEXT NOT NULL,
-        version       TEXT NOT NULL DEFAULT 'latest',
-        domain        TEXT NOT NULL,
-        title         TEXT NOT NULL,
-        markdown      TEXT NOT NULL,
-        etag          TEXT,
-        last_modified TEXT,
-        timestamp     DATETIME DEFAULT CURRENT_TIMESTAMP,
-        PRIMARY KEY (url, version)
-    );
-
-    -- Semantic chunk table: one row per heading section of a page
-    CREATE TABLE IF NOT EXISTS chunks (
-        id           INTEGER PRIMARY KEY AUTOINCREMENT,
-        url          TEXT NOT NULL,
-        version      TEXT NOT NULL DEFAULT 'latest',
-        heading_path TEXT NOT NULL,   -- JSON array, e.g. ["Authentication","OAuth2 Flow"]
-        content      TEXT NOT NULL,
-        FOREIGN KEY (url, version) REFERENCES documents_v2 (url, version) ON DELETE CASCADE
-    );
-
-    -- FTS5 virtual table backed by the chunks table for BM25 relevance search
-    CREATE VIRTUAL TABLE IF NOT EXISTS chunks_fts USING fts5(
-        url,
-        version,
-        heading_path,
-        content,
-        content='chunks',
-        content_rowid='id'
-    );
-`);
-
-// ── Legacy data migration ───────────────────────────────────────────────────────
-const hasLegacyTable = db.prepare(
-    `SELECT 1 FROM sqlite_master WHERE type='table' AND name='documents'`
-).get();
-if (hasLegacyTable) {
+function createChunksFts(db: Database.Database, tokenizer: FtsTokenizer): void {
     db.exec(`
-        INSERT OR IGNORE INTO documents_v2 (url, domain, title, markdown, timestamp)
-        SELECT url, domain, title, markdown, timestamp FROM documents;
-        DROP TABLE IF EXISTS documents;
+        -- FTS5 virtual table backed by the chunks table for BM25 relevance search
+        CREATE VIRTUAL TABLE chunks_fts USING fts5(
+            ${FTS_COLUMNS.join(', ')},
+            content='chunks',
+            content_rowid='id',
+            tokenize='${FTS_TOKENIZERS[tokenizer]}'
+        );
+        INSERT INTO chunks_fts (chunks_fts) VALUES ('rebuild');
     `);
 }
 
-// ── Schema migration: add new columns to existing documents_v2 tables ──────────
-// SQLite ALTER TABLE only supports ADD COLUMN (not IF NOT EXISTS), so we check first.
-const existingCols = (db.prepare(
-    `PRAGMA table_info(documents_v2)`
-).all() as Array<{ name: string }>).map(r => r.name);
+function createCodeExamplesFts(db: Database.Database, tokenizer: FtsTokenizer): void {
+    db.exec(`
+        CREATE VIRTUAL TABLE code_examples_fts USING fts5(
+            heading_path,
+            context,
+            code,
+            identifiers,
+            content='code_examples',
+            content_rowid='id',
+            tokenize='${FTS_TOKENIZERS[tokenizer]}'
+        );
+        INSERT INTO code_examples_fts (code_examples_fts) VALUES ('rebuild');
+    `);
+}
 
-if (!existingCols.includes('etag')) {
-    db.exec(`ALTER TABLE documents_v2 ADD COLUMN etag TEXT;`);
+function currentTokenizer(db: Database.Database): FtsTokenizer {
+    const { sql } = db.prepare(`SELECT sql FROM sqlite_master WHERE type='table' AND name='chunks_fts'`).get() as { sql: string };
+    return tokenizerFromSql(sql);
 }
-if (!existingCols.includes('last_modified')) {
-    db.exec(`ALTER TABLE documents_v2 ADD COLUMN last_modified TEXT;`);
+
+// Rebuilds both FTS tables when WEBSCRIBE_FTS_TOKENIZER asks for a different tokenizer
+function applyTokenizer(db: Database.Database): void {
+    const requested = getRequestedTokenizer();
+    if (!requested || requested === currentTokenizer(db)) return;
+
+    process.stderr.write(`[db] Rebuilding search index (tokenizer: ${requested})…\n`);
+    db.transaction(() => {
+        db.exec(`
+            DROP TRIGGER IF EXISTS chunks_ai;
+            DROP TRIGGER IF EXISTS chunks_ad;
+            DROP TRIGGER IF EXISTS chunks_au;
+            DROP TRIGGER IF EXISTS code_examples_ai;
+            DROP TRIGGER IF EXISTS code_examples_ad;
+            DROP TABLE IF EXISTS chunks_fts;
+            DROP TABLE IF EXISTS code_examples_fts;
+        `);
+        createChunksFts(db, requested);
+        createCodeExamplesFts(db, requested);
+    })();
 }
 
 // ── FTS5 sync triggers ─────────────────────────────────────────────────────────
 // Keep chunks_fts in sync with the chunks table automatically.
-db.exec(`
-    CREATE TRIGGER IF NOT EXISTS chunks_ai AFTER INSERT ON chunks BEGIN
-        INSERT INTO chunks_fts (rowid, url, version, heading_path, content)
-        VALUES (new.id, new.url, new.version, new.heading_path, new.content);
-    END;
-
-    CREATE TRIGGER IF NOT EXISTS chunks_ad AFTER DELETE ON chunks BEGIN
-        INSERT INTO chunks_fts (chunks_fts, rowid, url, version, heading_path, content)
-        VALUES ('delete', old.id, old.url, old.version, old.heading_path, old.content);
-    END;
-
-    CREATE TRIGGER IF NOT EXISTS chunks_au AFTER UPDATE ON chunks BEGIN
-        INSERT INTO chunks_fts (chunks_fts, rowid, url, version, heading_path, content)
-        VALUES ('delete', old.id, old.url, old.version, old.heading_path, old.content);
-        INSERT INTO chunks_fts (rowid, url, version, heading_path, content)
-        VALUES (new.id, new.url, new.version, new.heading_path, new.content);
-    END;
-`);
+
+function createTriggers(db: Database.Database): void {
+    db.exec(`
+        CREATE TRIGGER IF NOT EXISTS chunks_ai AFTER INSERT ON chunks BEGIN
+            INSERT INTO chunks_fts (rowid, url, version, title, heading_path, content, identifiers)
+            VALUES (new.id, new.url, new.version, new.title, new.heading_path, new.content, new.identifiers);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS chunks_ad AFTER DELETE ON chunks BEGIN
+            INSERT INTO chunks_fts (chunks_fts, rowid, url, version, title, heading_path, content, identifiers)
+            VALUES ('delete', old.id, old.url, old.version, old.title, old.heading_path, old.content, old.identifiers);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS chunks_au AFTER UPDATE ON chunks BEGIN
+            INSERT INTO chunks_fts (chunks_fts, rowid, url, version, title, heading_path, content, identifiers)
+            VALUES ('delete', old.id, old.url, old.version, old.title, old.heading_path, old.content, old.identifiers);
+            INSERT INTO chunks_fts (rowid, url, version, title, heading_path, content, identifiers)
+            VALUES (new.id, new.url, new.version, new.title, new.heading_path, new.content, new.identifiers);
+        END;
+
+        -- The cascade only runs on connections with foreign_keys = ON; deleting
+        -- through one without it (e.g. the sqlite3 shell) must drop vectors too
+        CREATE TRIGGER IF NOT EXISTS chunk_embeddings_ad AFTER DELETE ON chunks BEGIN
+            DELETE FROM chunk_embeddings WHERE chunk_id = old.id;
+        END;
+
+        -- …and code examples, which in turn leave code_examples_fts
+        CREATE TRIGGER IF NOT EXISTS chunk_code_examples_ad AFTER DELETE ON chunks BEGIN
+            DELETE FROM code_examples WHERE chunk_id = old.id;
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS code_examples_ai AFTER INSERT ON code_examples BEGIN
+            INSERT INTO code_examples_fts (rowid, heading_path, context, code, identifiers)
+            VALUES (new.id, new.heading_path, new.context, new.code, new.identifiers);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS code_examples_ad AFTER DELETE ON code_examples BEGIN
+            INSERT INTO code_examples_fts (code_examples_fts, rowid, heading_path, context, code, identifiers)
+            VALUES ('delete', old.id, old.heading_path, old.context, old.code, old.identifiers);
+        END;
+    `);
+}
+
+function columnsOf(db: Database.Database, table: string): string[] {
+    return (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map(r => r.name);
+}
+
+function tableExists(db: Database.Database, name: string): boolean {
+    return db.prepare(`SELECT 1 FROM sqlite_master WHERE type='table' AND name = ?`).get(name) !== undefined;
+}
+
+// SQLite ALTER TABLE only supports ADD COLUMN (not IF NOT EXISTS), so check first
+function addColumnIfMissing(db: Database.Database, table: string, column: string, type: string): void {
+    if (!columnsOf(db, table).includes(column)) db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type};`);
+}
 
 // ── Types ──────────────────────────────────────────────────────────────────────
 
@@ -117,11 +481,54 @@ export interface ChunkRow {
     id: number;
     url: string;
     version: string;
+    title: string;
     heading_path: string; // JSON array string
     content: string;
+    identifiers: string;
+}
+
+export interface SearchFilters {
+    /** Only chunks of this documentation version */
+    version?: string;
+    /** Only pages from this hostname, e.g. 'mui.com' */
+    domain?: string;
+    /** Only pages whose URL starts with this prefix */
+    url_prefix?: string;
+    /** Only chunks whose heading breadcrumb contains this text (case-insensitive) */
+    heading_contains?: string;
+    /** Page size (default 20, max 100) */
+    limit?: number;
+    /** Number of ranked results to skip */
+    offset?: number;
 }
 
+export interface SnippetOptions {
+    /** Inserted before each matched term (default '**') */
+    start_marker?: string;
+    /** Inserted after each matched term (default '**') */
+    end_marker?: string;
+    /** Marks text cut from either end of the snippet (default '…') */
+    ellipsis?: string;
+    /** Approximate snippet length in tokens, 1–64 (default 24) */
+    tokens?: number;
+}
+
+export interface MatchInfo {
+    /** Short excerpt around the best match, with matched terms wrapped in markers */
+    snippet: string;
+    /** Distinct terms that matched, lower-cased, in order of first appearance */
+    matched_terms: string[];
+    /** [start, end) character offsets of every match within the chunk content */
+    match_offsets: Array<[number, number]>;
+}
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+export const DEFAULT_SNIPPET_TOKENS = 24;
+export const MAX_SNIPPET_TOKENS = 64;
+
 export interface SearchResult {
+    chunk_id: number;
     url: string;
     version: string;
     title: string;
@@ -130,6 +537,124 @@ export interface SearchResult {
     score: number;
 }
 
+export interface DocumentChunk {
+    chunk_id: number;
+    /** 0-based position within the page */
+    ordinal: number;
+    heading_path: string[];
+    content: string;
+}
+
+export interface CodeExampleFilters extends SearchFilters {
+    /** Only blocks fenced with this language (aliases like 'ts' are resolved) */
+    language?: string;
+}
+
+export interface CodeExampleResult {
+    example_id: number;
+    /** The chunk the block was extracted from */
+    chunk_id: number;
+    url: string;
+    version: string;
+    title: string;
+    heading_path: string[];
+    language: string;
+    /** The prose paragraph that introduces the block */
+    context: string;
+    code: string;
+    score: number;
+}
+
+export type DocumentSummary = Omit<DocumentRow, 'markdown'>;
+
+export interface RevisionSummary {
+    revision_id: number;
+    url: string;
+    version: string;
+    title: string;
+    /** sha256 of the markdown, hex */
+    content_hash: string;
+    captured_at: string;
+    /** Length of the markdown in characters */
+    chars: number;
+}
+
+export interface DocumentRevision extends RevisionSummary {
+    markdown: string;
+}
+
+export interface SourceSummary {
+    domain: string;
+    version: string;
+    page_count: number;
+    chunk_count: number;
+    last_crawled: string;
+}
+
+export interface CollectionSummary {
+    name: string;
+    /** Database file ('' for an in-memory index) */
+    path: string;
+    /** True for the collection calls use when they don't name one */
+    active: boolean;
+    page_count: number;
+    chunk_count: number;
+    /** Size of the database file in bytes */
+    size_bytes: number;
+    /** Time of the most recent crawl, null when empty */
+    last_crawled: string | null;
+}
+
+export interface DeleteResult {
+    documents: number;
+    chunks: number;
+}
+
+/** A cached page whose crawl time is older than its domain's TTL */
+export interface StaleDocument {
+    url: string;
+    version: string;
+    domain: string;
+    /** Crawl time ('YYYY-MM-DD HH:MM:SS' UTC) */
+    timestamp: string;
+    age_seconds: number;
+}
+
+export interface Tombstone {
+    url: string;
+    version: string;
+    domain: string;
+    /** HTTP status that showed the page gone (404 or 410) */
+    status: number;
+    gone_at: string;
+}
+
+/** What importDocument did with a page: stored it new, replaced an older copy, or kept a newer local one */
+export type ImportOutcome = 'added' | 'updated' | 'skipped';
+
+// ── Change listeners ───────────────────────────────────────────────────────────
+// Lets the MCP layer react to index writes (e.g. emit resources/list_changed)
+// without db.ts knowing anything about MCP.
+
+type DocumentChangeListener = (url: string, version: string, collection: string) => void;
+const documentChangeListeners = new Set<DocumentChangeListener>();
+
+/**
+ * Registers a listener called after every document write, in any collection.
+ * Returns a function that unregisters it.
+ */
+export function onDocumentChange(listener: DocumentChangeListener): () => void {
+    documentChangeListeners.add(listener);
+    return () => documentChangeListeners.delete(listener);
+}
+
+function notifyDocumentChange(url: string, version: string): void {
+    const collection = getActiveCollection();
+    for (const listener of documentChangeListeners) {
+        try { listener(url, version, collection); } catch { /* listeners must never break a write */ }
+    }
+}
+
 // ── Document operations ────────────────────────────────────────────────────────
 
 /**
@@ -145,16 +670,22 @@ export function upsertDocument(
     etag?: string,
     lastModified?: string,
 ): boolean {
+    const db = database();
     // Check if content has actually changed (skip write if identical)
     const existing = db.prepare(
-        `SELECT etag, last_modified FROM documents_v2 WHERE url = ? AND version = ?`
-    ).get(url, version) as { etag: string | null; last_modified: string | null } | undefined;
+        `SELECT title, markdown, etag, last_modified, timestamp FROM documents_v2 WHERE url = ? AND version = ?`
+    ).get(url, version) as Pick<DocumentRow, 'title' | 'markdown' | 'etag' | 'last_modified' | 'timestamp'> | undefined;
 
     if (existing && etag && existing.etag === etag) {
         // Remote resource unchanged — skip overwrite
         return false;
     }
 
+    // Pages stored before revisions were kept get their current copy recorded first
+    if (existing && !getLatestRevisionHash(url, version)) {
+        insertRevision(url, version, existing.title, existing.markdown, existing.timestamp);
+    }
+
     const stmt = db.prepare(`
         INSERT INTO documents_v2 (url, version, domain, title, markdown, etag, last_modified, timestamp)
         VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
@@ -166,88 +697,249 @@ export function upsertDocument(
             timestamp     = CURRENT_TIMESTAMP
     `);
     stmt.run(url, version, domain, title, markdown, etag ?? null, lastModified ?? null);
+    // A page that is back on its site is no longer gone
+    db.prepare(`DELETE FROM document_tombstones WHERE url = ? AND version = ?`).run(url, version);
+    // Keep the indexed title of existing chunks current (chunks_au re-indexes them)
+    db.prepare(
+        `UPDATE chunks SET title = ? WHERE url = ? AND version = ? AND title <> ?`
+    ).run(title, url, version, title);
+    if (getLatestRevisionHash(url, version) !== contentHash(markdown)) {
+        insertRevision(url, version, title, markdown);
+        pruneRevisions(url, version);
+    }
+    notifyDocumentChange(url, version);
     return true;
 }
 
+// ── Revision history ───────────────────────────────────────────────────────────
+
+export const DEFAULT_REVISION_LIMIT = 10;
+
+/**
+ * Number of revisions kept per page, the current one included. Read from
+ * WEBSCRIBE_MAX_REVISIONS (default 10, at least 1).
+ */
+export function getRevisionLimit(): number {
+    const raw = process.env.WEBSCRIBE_MAX_REVISIONS;
+    if (raw === undefined || raw.trim() === '') return DEFAULT_REVISION_LIMIT;
+    const limit = Number(raw);
+    if (!Number.isInteger(limit) || limit < 1) {
+        throw new Error(`Invalid WEBSCRIBE_MAX_REVISIONS '${raw}': expected a whole number of at least 1`);
+    }
+    return limit;
+}
+
+/**
+ * Lists the stored revisions of a page, newest first.
+ */
+export function listDocumentRevisions(url: string, version: string = 'latest'): RevisionSummary[] {
+    const db = database();
+    return db.prepare(`
+        SELECT id AS revision_id, url, version, title, content_hash, captured_at, length(markdown) AS chars
+        FROM document_revisions
+        WHERE url = ? AND version = ?
+        ORDER BY id DESC
+    `).all(url, version) as RevisionSummary[];
+}
+
+/**
+ * Returns one revision of a page, or null if it isn't stored (or belongs to another page).
+ */
+export function getDocumentRevision(url: string, version: string, revisionId: number): DocumentRevision | null {
+    const db = database();
+    const row = db.prepare(`
+        SELECT id AS revision_id, url, version, title, content_hash, captured_at, length(markdown) AS chars, markdown
+        FROM document_revisions
+        WHERE url = ? AND version = ? AND id = ?
+    `).get(url, version, revisionId) as DocumentRevision | undefined;
+    return row ?? null;
+}
+
+function contentHash(markdown: string): string {
+    return createHash('sha256').update(markdown).digest('hex');
+}
+
+function getLatestRevisionHash(url: string, version: string): string | null {
+    const db = database();
+    const row = db.prepare(
+        `SELECT content_hash FROM document_revisions WHERE url = ? AND version = ? ORDER BY id DESC LIMIT 1`
+    ).get(url, version) as { content_hash: string } | undefined;
+    return row?.content_hash ?? null;
+}
+
+function insertRevision(url: string, version: string, title: string, markdown: string, capturedAt?: string): void {
+    const db = database();
+    db.prepare(`
+        INSERT INTO document_revisions (url, version, title, markdown, content_hash, captured_at)
+        VALUES (?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))
+    `).run(url, version, title, markdown, contentHash(markdown), capturedAt ?? null);
+}
+
+// Drops the oldest revisions of a page beyond the retention limit
+function pruneRevisions(url: string, version: string): void {
+    const db = database();
+    db.prepare(`
+        DELETE FROM document_revisions
+        WHERE url = ? AND version = ? AND id NOT IN (
+            SELECT id FROM document_revisions WHERE url = ? AND version = ? ORDER BY id DESC LIMIT ?
+        )
+    `).run(url, version, url, version, getRevisionLimit());
+}
+
 /**
  * Replaces all chunks for a given URL+version.
- * Each chunk is { heading_path: string[], content: string }.
+ * Each chunk is { heading_path: string[], content: string }; its position in
+ * the array is stored as the chunk's ordinal.
  */
 export function upsertChunks(
     url: string,
     version: string,
     chunks: Array<{ heading_path: string[]; content: string }>,
 ): void {
+    const db = database();
     // Delete old chunks first (triggers will remove from FTS5 too)
     db.prepare(`DELETE FROM chunks WHERE url = ? AND version = ?`).run(url, version);
 
+    // The page title is indexed with every chunk; upsertDocument runs first
+    const title = (db.prepare(
+        `SELECT title FROM documents_v2 WHERE url = ? AND version = ?`
+    ).get(url, version) as { title: string } | undefined)?.title ?? '';
+
     const insert = db.prepare(`
-        INSERT INTO chunks (url, version, heading_path, content)
-        VALUES (?, ?, ?, ?)
+        INSERT INTO chunks (url, version, title, heading_path, content, identifiers, ordinal)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
     `);
     const insertMany = db.transaction((rows: typeof chunks) => {
-        for (const row of rows) {
-            insert.run(url, version, JSON.stringify(row.heading_path), row.content);
+        for (const [ordinal, row] of rows.entries()) {
+            const identifiers = identifierTerms(`${row.heading_path.join(' ')}\n${row.content}`);
+            const headingPath = JSON.stringify(row.heading_path);
+            const { lastInsertRowid } = insert.run(url, version, title, headingPath, row.content, identifiers, ordinal);
+            insertCodeExamples(db, Number(lastInsertRowid), url, version, headingPath, row.content);
         }
     });
     insertMany(chunks);
 }
 
 /**
- * FTS5-based search across all cached chunks.
- * Returns results ranked by BM25 relevance (most relevant first).
+ * Stores the fenced code blocks of one chunk in code_examples.
+ * `headingPath` is the chunk's JSON heading_path string.
  */
-export function searchDocuments(query: string, version?: string): SearchResult[] {
-    // Sanitise the query for FTS5: escape special chars, wrap each term with quotes
-    const ftsQuery = query
-        .trim()
-        .split(/\s+/)
-        .filter(Boolean)
-        .map(t => `"${t.replace(/"/g, '""')}"`)
-        .join(' ');
+function insertCodeExamples(db: Database.Database, chunkId: number, url: string, version: string, headingPath: string, content: string): void {
+    const blocks = extractCodeBlocks(content);
+    if (blocks.length === 0) return;
+    const insert = db.prepare(`
+        INSERT INTO code_examples (chunk_id, url, version, language, heading_path, context, code, identifiers)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const block of blocks) {
+        insert.run(chunkId, url, version, block.language, headingPath, block.context, block.code, identifierTerms(block.code));
+    }
+}
 
-    if (!ftsQuery) return [];
+/**
+ * Builds the SQL condition for search filters. Expects the query to alias
+ * chunks as `c` and (LEFT JOIN) documents_v2 as `d`.
+ */
+function buildFilterClause(filters: SearchFilters): { sql: string; params: string[] } {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (filters.version) {
+        conditions.push(`c.version = ?`);
+        params.push(filters.version);
+    }
+    if (filters.domain) {
+        conditions.push(`d.domain = ?`);
+        params.push(filters.domain);
+    }
+    if (filters.url_prefix) {
+        // substr() instead of LIKE so '%' and '_' in URLs need no escaping
+        conditions.push(`substr(c.url, 1, length(?)) = ?`);
+        params.push(filters.url_prefix, filters.url_prefix);
+    }
+    if (filters.heading_contains) {
+        conditions.push(`instr(lower(c.heading_path), lower(?)) > 0`);
+        params.push(filters.heading_contains);
+    }
+
+    return { sql: conditions.map(c => `AND ${c}`).join(' '), params };
+}
+
+/**
+ * Translates a user query into an FTS5 expression (phrases, prefixes, -, OR,
+ * NEAR — see query.ts). Returns an empty string when there is nothing to
+ * search for; throws a readable Error for malformed queries.
+ */
+function toFtsQuery(query: string): string {
+    return parseSearchQuery(query).fts;
+}
 
-    let sql: string;
-    const params: (string | number)[] = [ftsQuery];
-
-    if (version) {
-        sql = `
-            SELECT
-                c.url,
-                c.version,
-                COALESCE(d.title, c.url) AS title,
-                c.heading_path,
-                c.content,
-                -bm25(chunks_fts) AS score
-            FROM chunks_fts
-            JOIN chunks c ON chunks_fts.rowid = c.id
-            LEFT JOIN documents_v2 d ON d.url = c.url AND d.version = c.version
-            WHERE chunks_fts MATCH ?
-              AND c.version = ?
-            ORDER BY score DESC
-            LIMIT 20
-        `;
-        params.push(version);
-    } else {
-        sql = `
-            SELECT
-                c.url,
-                c.version,
-                COALESCE(d.title, c.url) AS title,
-                c.heading_path,
-                c.content,
-                -bm25(chunks_fts) AS score
-            FROM chunks_fts
-            JOIN chunks c ON chunks_fts.rowid = c.id
-            LEFT JOIN documents_v2 d ON d.url = c.url AND d.version = c.version
-            WHERE chunks_fts MATCH ?
-            ORDER BY score DESC
-            LIMIT 20
-        `;
+/**
+ * Runs an FTS5 query, turning SQLite's MATCH errors into a readable message
+ * rather than leaking a raw SqliteError to the caller.
+ */
+function runFtsQuery<T>(run: () => T): T {
+    try {
+        return run();
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        if (/fts5|syntax error|unterminated|unknown special query/i.test(message)) {
+            throw new Error(`Invalid search query: ${message}`);
+        }
+        throw err;
     }
+}
+
+/**
+ * Clamps a user-requested page size to 1..MAX_SEARCH_LIMIT (default DEFAULT_SEARCH_LIMIT).
+ */
+export function clampSearchLimit(limit?: number): number {
+    if (!limit || !Number.isFinite(limit)) return DEFAULT_SEARCH_LIMIT;
+    return Math.min(Math.max(Math.floor(limit), 1), MAX_SEARCH_LIMIT);
+}
+
+/**
+ * Clamps a requested snippet length to 1..MAX_SNIPPET_TOKENS (default DEFAULT_SNIPPET_TOKENS).
+ */
+export function clampSnippetTokens(tokens?: number): number {
+    if (tokens === undefined || !Number.isFinite(tokens)) return DEFAULT_SNIPPET_TOKENS;
+    return Math.min(Math.max(Math.floor(tokens), 1), MAX_SNIPPET_TOKENS);
+}
 
-    const rows = db.prepare(sql).all(...params) as Array<{
+/**
+ * FTS5-based search across all cached chunks. Supports the query syntax in
+ * query.ts ("phrases", prefix*, -exclusions, OR, NEAR).
+ * Returns one page of results ranked by BM25 relevance (most relevant first),
+ * with title and heading matches weighted up (see ranking.ts).
+ * All filters are applied in SQL before ranking and paging.
+ */
+export function searchDocuments(query: string, filters: SearchFilters = {}): SearchResult[] {
+    const db = database();
+    const ftsQuery = toFtsQuery(query);
+    if (!ftsQuery) return [];
+
+    const where = buildFilterClause(filters);
+    const limit = filters.limit ?? DEFAULT_SEARCH_LIMIT;
+    const offset = filters.offset ?? 0;
+
+    const rows = runFtsQuery(() => db.prepare(`
+        SELECT
+            c.id AS chunk_id,
+            c.url,
+            c.version,
+            COALESCE(d.title, c.url) AS title,
+            c.heading_path,
+            c.content,
+            -${bm25Expression('chunks_fts')} AS score
+        FROM chunks_fts
+        JOIN chunks c ON chunks_fts.rowid = c.id
+        LEFT JOIN documents_v2 d ON d.url = c.url AND d.version = c.version
+        WHERE chunks_fts MATCH ?
+          ${where.sql}
+        ORDER BY score DESC
+        LIMIT ? OFFSET ?
+    `).all(ftsQuery, ...where.params, limit, offset)) as Array<{
+        chunk_id: number;
         url: string;
         version: string;
         title: string;
@@ -257,28 +949,372 @@ export function searchDocuments(query: string, version?: string): SearchResult[]
     }>;
 
     return rows.map(r => ({
+        chunk_id: r.chunk_id,
         url: r.url,
         version: r.version,
         title: r.title,
-        heading_path: (() => { try { return JSON.parse(r.heading_path); } catch { return []; } })(),
+        heading_path: parseHeadingPath(r.heading_path),
         content: r.content,
         score: r.score,
     }));
 }
 
+/**
+ * Counts every chunk matching a search (ignores limit/offset), so callers can page.
+ */
+export function countSearchMatches(query: string, filters: SearchFilters = {}): number {
+    const db = database();
+    const ftsQuery = toFtsQuery(query);
+    if (!ftsQuery) return 0;
+
+    const where = buildFilterClause(filters);
+    const row = runFtsQuery(() => db.prepare(`
+        SELECT COUNT(*) AS count
+        FROM chunks_fts
+        JOIN chunks c ON chunks_fts.rowid = c.id
+        LEFT JOIN documents_v2 d ON d.url = c.url AND d.version = c.version
+        WHERE chunks_fts MATCH ?
+          ${where.sql}
+    `).get(ftsQuery, ...where.params)) as { count: number };
+    return row.count;
+}
+
+// FTS5 column index of chunks_fts.content (for snippet() / highlight())
+const FTS_CONTENT_COLUMN = FTS_COLUMNS.indexOf('content');
+// Private-use markers for highlight(); never shown to callers
+const MATCH_START = '\u0001';
+const MATCH_END = '\u0002';
+
+/**
+ * Computes snippets and match positions for a set of chunks against a query.
+ * Chunks that don't lexically match the query (e.g. semantic-only hits) are
+ * absent from the returned map.
+ */
+export function getMatchInfo(query: string, chunkIds: number[], options: SnippetOptions = {}): Map<number, MatchInfo> {
+    const db = database();
+    const info = new Map<number, MatchInfo>();
+    const ftsQuery = toFtsQuery(query);
+    if (!ftsQuery || chunkIds.length === 0) return info;
+
+    const tokens = clampSnippetTokens(options.tokens);
+    const rows = runFtsQuery(() => db.prepare(`
+        SELECT
+            rowid AS chunk_id,
+            snippet(chunks_fts, ${FTS_CONTENT_COLUMN}, ?, ?, ?, ?) AS snippet,
+            highlight(chunks_fts, ${FTS_CONTENT_COLUMN}, ?, ?) AS marked
+        FROM chunks_fts
+        WHERE chunks_fts MATCH ?
+          AND rowid IN (${chunkIds.map(() => '?').join(', ')})
+    `).all(
+        options.start_marker ?? '**',
+        options.end_marker ?? '**',
+        options.ellipsis ?? '…',
+        tokens,
+        MATCH_START,
+        MATCH_END,
+        ftsQuery,
+        ...chunkIds,
+    )) as Array<{ chunk_id: number; snippet: string; marked: string }>;
+
+    for (const row of rows) {
+        info.set(row.chunk_id, { snippet: row.snippet, ...parseHighlight(row.marked) });
+    }
+    return info;
+}
+
+/**
+ * Recovers match offsets (relative to the unmarked text) and the distinct
+ * matched terms from highlight() output.
+ */
+function parseHighlight(marked: string): Omit<MatchInfo, 'snippet'> {
+    const matchOffsets: Array<[number, number]> = [];
+    const terms = new Set<string>();
+    let plainLength = 0;
+    let start = -1;
+    let current = '';
+
+    for (const ch of marked) {
+        if (ch === MATCH_START) {
+            start = plainLength;
+            current = '';
+        } else if (ch === MATCH_END) {
+            if (start >= 0) {
+                matchOffsets.push([start, plainLength]);
+                terms.add(current.toLowerCase());
+            }
+            start = -1;
+        } else {
+            plainLength += ch.length;
+            if (start >= 0) current += ch;
+        }
+    }
+    return { matched_terms: [...terms], match_offsets: matchOffsets };
+}
+
+// ── Code examples ──────────────────────────────────────────────────────────────
+
+// Heading and introducing prose say what an example shows; the code itself
+// mostly repeats identifiers. Columns: heading_path, context, code, identifiers.
+const CODE_EXAMPLE_BM25 = 'bm25(code_examples_fts, 4, 2, 1, 1)';
+
+/**
+ * Builds the SQL condition for code-example filters. code_examples is aliased
+ * as `c` so the shared chunk filters (version, url_prefix, heading) apply as-is.
+ */
+function buildCodeExampleFilterClause(filters: CodeExampleFilters): { sql: string; params: string[] } {
+    const where = buildFilterClause(filters);
+    if (!filters.language) return where;
+    return { sql: `${where.sql} AND c.language = ?`, params: [...where.params, normalizeLanguage(filters.language)] };
+}
+
+/**
+ * FTS5 search over extracted code blocks (same query syntax as searchDocuments),
+ * ranked by BM25 with heading and introducing-prose matches weighted up.
+ */
+export function searchCodeExamples(query: string, filters: CodeExampleFilters = {}): CodeExampleResult[] {
+    const db = database();
+    const ftsQuery = toFtsQuery(query);
+    if (!ftsQuery) return [];
+
+    const where = buildCodeExampleFilterClause(filters);
+    const rows = runFtsQuery(() => db.prepare(`
+        SELECT
+            c.id AS example_id,
+            c.chunk_id,
+            c.url,
+            c.version,
+            COALESCE(d.title, c.url) AS title,
+            c.heading_path,
+            c.language,
+            c.context,
+            c.code,
+            -${CODE_EXAMPLE_BM25} AS score
+        FROM code_examples_fts
+        JOIN code_examples c ON code_examples_fts.rowid = c.id
+        LEFT JOIN documents_v2 d ON d.url = c.url AND d.version = c.version
+        WHERE code_examples_fts MATCH ?
+          ${where.sql}
+        ORDER BY score DESC
+        LIMIT ? OFFSET ?
+    `).all(ftsQuery, ...where.params, filters.limit ?? DEFAULT_SEARCH_LIMIT, filters.offset ?? 0)) as Array<
+        Omit<CodeExampleResult, 'heading_path'> & { heading_path: string }
+    >;
+
+    return rows.map(r => ({ ...r, heading_path: parseHeadingPath(r.heading_path) }));
+}
+
+/**
+ * Counts every code example matching a search (ignores limit/offset).
+ */
+export function countCodeExampleMatches(query: string, filters: CodeExampleFilters = {}): number {
+    const db = database();
+    const ftsQuery = toFtsQuery(query);
+    if (!ftsQuery) return 0;
+
+    const where = buildCodeExampleFilterClause(filters);
+    const row = runFtsQuery(() => db.prepare(`
+        SELECT COUNT(*) AS count
+        FROM code_examples_fts
+        JOIN code_examples c ON code_examples_fts.rowid = c.id
+        LEFT JOIN documents_v2 d ON d.url = c.url AND d.version = c.version
+        WHERE code_examples_fts MATCH ?
+          ${where.sql}
+    `).get(ftsQuery, ...where.params)) as { count: number };
+    return row.count;
+}
+
+// ── Embedding operations ───────────────────────────────────────────────────────
+
+/**
+ * Returns up to `limit` chunks that have no vector yet for the given embedding
+ * model, optionally restricted to one URL+version.
+ */
+export function getChunksMissingEmbedding(
+    model: string,
+    limit: number,
+    url?: string,
+    version?: string,
+): Array<{ id: number; heading_path: string[]; content: string }> {
+    const db = database();
+    const scope = url && version ? `AND c.url = ? AND c.version = ?` : '';
+    const params: (string | number)[] = [model];
+    if (scope) params.push(url!, version!);
+    params.push(limit);
+
+    const rows = db.prepare(`
+        SELECT c.id, c.heading_path, c.content
+        FROM chunks c
+        LEFT JOIN chunk_embeddings e ON e.chunk_id = c.id AND e.model = ?
+        WHERE e.chunk_id IS NULL ${scope}
+        ORDER BY c.id
+        LIMIT ?
+    `).all(...params) as Array<{ id: number; heading_path: string; content: string }>;
+
+    return rows.map(r => ({ id: r.id, heading_path: parseHeadingPath(r.heading_path), content: r.content }));
+}
+
+/**
+ * Counts the filtered chunks that have no embedding for `model` yet.
+ */
+export function countChunksMissingEmbedding(model: string, filters: SearchFilters = {}): number {
+    const db = database();
+    const where = buildFilterClause(filters);
+    const row = db.prepare(`
+        SELECT COUNT(*) AS count
+        FROM chunks c
+        LEFT JOIN chunk_embeddings e ON e.chunk_id = c.id AND e.model = ?
+        LEFT JOIN documents_v2 d ON d.url = c.url AND d.version = c.version
+        WHERE e.chunk_id IS NULL
+          ${where.sql}
+    `).get(model, ...where.params) as { count: number };
+    return row.count;
+}
+
+/**
+ * Stores (or replaces) embedding vectors for the given chunks.
+ */
+export function saveChunkEmbeddings(model: string, rows: Array<{ chunk_id: number; vector: Float32Array }>): void {
+    const db = database();
+    const insert = db.prepare(`
+        INSERT OR REPLACE INTO chunk_embeddings (chunk_id, model, vector) VALUES (?, ?, ?)
+    `);
+    const insertMany = db.transaction((items: typeof rows) => {
+        for (const row of items) {
+            insert.run(row.chunk_id, model, Buffer.from(row.vector.buffer, row.vector.byteOffset, row.vector.byteLength));
+        }
+    });
+    insertMany(rows);
+}
+
+/**
+ * Loads every stored vector for an embedding model that passes the search
+ * filters (limit/offset are ignored).
+ */
+export function getChunkEmbeddings(model: string, filters: SearchFilters = {}): Array<{ chunk_id: number; vector: Float32Array }> {
+    const db = database();
+    const where = buildFilterClause(filters);
+    const rows = db.prepare(`
+        SELECT e.chunk_id, e.vector
+        FROM chunk_embeddings e
+        JOIN chunks c ON c.id = e.chunk_id
+        LEFT JOIN documents_v2 d ON d.url = c.url AND d.version = c.version
+        WHERE e.model = ?
+          ${where.sql}
+    `).all(model, ...where.params) as Array<{ chunk_id: number; vector: Buffer }>;
+
+    return rows.map(r => ({
+        chunk_id: r.chunk_id,
+        // Copy out of the Buffer: its byteOffset isn't guaranteed to be 4-byte aligned
+        vector: new Float32Array(r.vector.buffer.slice(r.vector.byteOffset, r.vector.byteOffset + r.vector.byteLength)),
+    }));
+}
+
+/**
+ * Loads chunks by id in the same result shape as searchDocuments (score = 0).
+ * Ids that no longer exist are skipped.
+ */
+export function getChunksByIds(ids: number[]): SearchResult[] {
+    const db = database();
+    if (ids.length === 0) return [];
+    const rows = db.prepare(`
+        SELECT
+            c.id AS chunk_id,
+            c.url,
+            c.version,
+            COALESCE(d.title, c.url) AS title,
+            c.heading_path,
+            c.content
+        FROM chunks c
+        LEFT JOIN documents_v2 d ON d.url = c.url AND d.version = c.version
+        WHERE c.id IN (${ids.map(() => '?').join(', ')})
+    `).all(...ids) as Array<Omit<SearchResult, 'heading_path' | 'score'> & { heading_path: string }>;
+
+    return rows.map(r => ({ ...r, heading_path: parseHeadingPath(r.heading_path), score: 0 }));
+}
+
+/**
+ * Loads every chunk of one page in page order.
+ */
+export function getDocumentChunks(url: string, version: string = 'latest'): DocumentChunk[] {
+    const db = database();
+    const rows = db.prepare(`
+        SELECT id AS chunk_id, ordinal, heading_path, content
+        FROM chunks
+        WHERE url = ? AND version = ?
+        ORDER BY ordinal, id
+    `).all(url, version) as Array<Omit<DocumentChunk, 'heading_path'> & { heading_path: string }>;
+
+    return rows.map(r => ({ ...r, heading_path: parseHeadingPath(r.heading_path) }));
+}
+
+function parseHeadingPath(json: string): string[] {
+    try { return JSON.parse(json); } catch { return []; }
+}
+
 /**
  * Fetches the full cached markdown for a specific URL+version.
  */
 export function getDocument(url: string, version: string = 'latest'): DocumentRow | null {
+    const db = database();
     return (db.prepare(
         `SELECT * FROM documents_v2 WHERE url = ? AND version = ?`
     ).get(url, version) as DocumentRow | undefined) ?? null;
 }
 
+/**
+ * Lists cached documents (without their markdown), ordered by domain, version and URL.
+ */
+export function listDocuments(limit: number, offset: number = 0): DocumentSummary[] {
+    const db = database();
+    return db.prepare(`
+        SELECT url, version, domain, title, etag, last_modified, timestamp
+        FROM documents_v2
+        ORDER BY domain, version, url
+        LIMIT ? OFFSET ?
+    `).all(limit, offset) as DocumentSummary[];
+}
+
+/**
+ * Lists the cached documents (without their markdown) of one domain+version, ordered by URL.
+ */
+export function listDomainDocuments(domain: string, version: string): DocumentSummary[] {
+    const db = database();
+    return db.prepare(`
+        SELECT url, version, domain, title, etag, last_modified, timestamp
+        FROM documents_v2
+        WHERE domain = ? AND version = ?
+        ORDER BY url
+    `).all(domain, version) as DocumentSummary[];
+}
+
+/**
+ * Lists the (url, version) keys of cached documents, optionally only those of
+ * one domain and/or version, ordered by domain, version and URL.
+ */
+export function listDocumentKeys(filters: { domain?: string; version?: string } = {}): Array<{ url: string; version: string }> {
+    const db = database();
+    return db.prepare(`
+        SELECT url, version FROM documents_v2
+        WHERE (? IS NULL OR domain = ?) AND (? IS NULL OR version = ?)
+        ORDER BY domain, version, url
+    `).all(filters.domain ?? null, filters.domain ?? null, filters.version ?? null, filters.version ?? null) as Array<{ url: string; version: string }>;
+}
+
+/**
+ * Lists the URLs of all cached documents for one domain+version.
+ */
+export function listDocumentUrls(domain: string, version: string): string[] {
+    const db = database();
+    return (db.prepare(
+        `SELECT url FROM documents_v2 WHERE domain = ? AND version = ? ORDER BY url`
+    ).all(domain, version) as Array<{ url: string }>).map(r => r.url);
+}
+
 /**
  * Returns the etag and last_modified for a cached document (for smart re-crawl).
  */
 export function getCacheHeaders(url: string, version: string): { etag: string | null; last_modified: string | null } | null {
+    const db = database();
     const row = db.prepare(
         `SELECT etag, last_modified FROM documents_v2 WHERE url = ? AND version = ?`
     ).get(url, version) as { etag: string | null; last_modified: string | null } | undefined;
@@ -289,6 +1325,7 @@ export function getCacheHeaders(url: string, version: string): { etag: string |
  * Counts total documents indexed across all versions.
  */
 export function getDocumentCount(): number {
+    const db = database();
     const result = db.prepare(`SELECT COUNT(*) as count FROM documents_v2`).get() as { count: number };
     return result.count;
 }
@@ -297,6 +1334,246 @@ export function getDocumentCount(): number {
  * Counts total chunks indexed (useful for understanding search corpus size).
  */
 export function getChunkCount(): number {
+    const db = database();
     const result = db.prepare(`SELECT COUNT(*) as count FROM chunks`).get() as { count: number };
     return result.count;
 }
+
+// ── Index management ───────────────────────────────────────────────────────────
+
+/**
+ * Lists every indexed source (domain + version) with its page and chunk counts
+ * and the time of the most recent crawl.
+ */
+export function listSources(): SourceSummary[] {
+    const db = database();
+    return db.prepare(`
+        SELECT
+            d.domain,
+            d.version,
+            COUNT(*)                                                    AS page_count,
+            SUM((SELECT COUNT(*) FROM chunks c
+                 WHERE c.url = d.url AND c.version = d.version))        AS chunk_count,
+            MAX(d.timestamp)                                            AS last_crawled
+        FROM documents_v2 d
+        GROUP BY d.domain, d.version
+        ORDER BY d.domain, d.version
+    `).all() as SourceSummary[];
+}
+
+/**
+ * Lists the default collection plus every named collection found on disk (or
+ * opened in this process), with page and chunk counts.
+ */
+export function listCollections(): CollectionSummary[] {
+    const active = getActiveCollection();
+    const names = new Set([DEFAULT_COLLECTION, active, ...connections.keys()]);
+    const defaultPath = getDatabasePath();
+    const collectionsDir = path.join(path.dirname(defaultPath), 'collections');
+    if (defaultPath !== ':memory:' && fs.existsSync(collectionsDir)) {
+        for (const file of fs.readdirSync(collectionsDir)) {
+            const name = file.replace(/\.db$/, '');
+            if (name !== file && COLLECTION_NAME_RE.test(name)) names.add(name);
+        }
+    }
+
+    const sorted = [...names].sort((a, b) => Number(b === DEFAULT_COLLECTION) - Number(a === DEFAULT_COLLECTION) || a.localeCompare(b));
+    return sorted.map(name => withCollection(name, () => {
+        const file = getCollectionPath(name);
+        const sources = listSources();
+        return {
+            name,
+            path: file === ':memory:' ? '' : file,
+            active: name === active,
+            page_count: getDocumentCount(),
+            chunk_count: getChunkCount(),
+            size_bytes: file !== ':memory:' && fs.existsSync(file) ? fs.statSync(file).size : 0,
+            last_crawled: sources.reduce<string | null>((latest, s) => !latest || s.last_crawled > latest ? s.last_crawled : latest, null),
+        };
+    }));
+}
+
+/**
+ * Deletes the documents matched by `where` (a condition on documents_v2) together
+ * with their chunks, revisions and tombstones. Chunks are deleted explicitly rather
+ * than relying on ON DELETE CASCADE, and the chunks_ad trigger keeps chunks_fts in sync.
+ */
+function deleteDocumentsWhere(where: string, params: string[]): { deleted: Array<{ url: string; version: string }>; chunks: number } {
+    const db = database();
+    const run = db.transaction(() => {
+        const deleted = db.prepare(
+            `SELECT url, version FROM documents_v2 WHERE ${where}`
+        ).all(...params) as Array<{ url: string; version: string }>;
+
+        const chunks = db.prepare(`
+            DELETE FROM chunks
+            WHERE (url, version) IN (SELECT url, version FROM documents_v2 WHERE ${where})
+        `).run(...params).changes;
+        db.prepare(`
+            DELETE FROM document_revisions
+            WHERE (url, version) IN (SELECT url, version FROM documents_v2 WHERE ${where})
+        `).run(...params);
+        db.prepare(`DELETE FROM document_tombstones WHERE ${where}`).run(...params);
+        db.prepare(`DELETE FROM documents_v2 WHERE ${where}`).run(...params);
+
+        return { deleted, chunks };
+    });
+    const result = run();
+    for (const doc of result.deleted) notifyDocumentChange(doc.url, doc.version);
+    return result;
+}
+
+/**
+ * Deletes a single cached page (and its chunks) for one URL+version.
+ */
+export function deleteDocument(url: string, version: string = 'latest'): DeleteResult {
+    const { deleted, chunks } = deleteDocumentsWhere(`url = ? AND version = ?`, [url, version]);
+    return { documents: deleted.length, chunks };
+}
+
+/**
+ * Deletes every cached page for a domain, optionally restricted to one version.
+ */
+export function purgeDomain(domain: string, version?: string): DeleteResult {
+    const { deleted, chunks } = version
+        ? deleteDocumentsWhere(`domain = ? AND version = ?`, [domain, version])
+        : deleteDocumentsWhere(`domain = ?`, [domain]);
+    return { documents: deleted.length, chunks };
+}
+
+/**
+ * Deletes every cached page stored under a version label, across all domains.
+ */
+export function purgeVersion(version: string): DeleteResult {
+    const { deleted, chunks } = deleteDocumentsWhere(`version = ?`, [version]);
+    return { documents: deleted.length, chunks };
+}
+
+// ── Staleness ──────────────────────────────────────────────────────────────────
+
+/**
+ * Lists the cached pages whose crawl time is more than `ttl(domain)` seconds
+ * old, optionally only those of one domain and/or version, oldest first.
+ */
+export function listStaleDocuments(
+    ttl: (domain: string) => number,
+    filters: { domain?: string; version?: string } = {},
+): StaleDocument[] {
+    const db = database();
+    const rows = db.prepare(`
+        SELECT url, version, domain, timestamp,
+               CAST((julianday('now') - julianday(timestamp)) * 86400 AS INTEGER) AS age_seconds
+        FROM documents_v2
+        WHERE (? IS NULL OR domain = ?) AND (? IS NULL OR version = ?)
+        ORDER BY timestamp, url
+    `).all(filters.domain ?? null, filters.domain ?? null, filters.version ?? null, filters.version ?? null) as StaleDocument[];
+    return rows.filter(row => row.age_seconds > ttl(row.domain));
+}
+
+/**
+ * Restarts a page's TTL after the live site confirmed it unchanged.
+ */
+export function markDocumentChecked(url: string, version: string): void {
+    const db = database();
+    db.prepare(
+        `UPDATE documents_v2 SET timestamp = CURRENT_TIMESTAMP WHERE url = ? AND version = ?`
+    ).run(url, version);
+}
+
+/**
+ * Removes a page that is gone from its site (with its chunks and revisions)
+ * and leaves a tombstone recording when and how it disappeared. Crawling or
+ * importing the page again clears the tombstone.
+ */
+export function tombstoneDocument(url: string, version: string, status: number): DeleteResult {
+    const db = database();
+    const run = db.transaction(() => {
+        const doc = db.prepare(
+            `SELECT domain FROM documents_v2 WHERE url = ? AND version = ?`
+        ).get(url, version) as { domain: string } | undefined;
+        const { deleted, chunks } = deleteDocumentsWhere(`url = ? AND version = ?`, [url, version]);
+        if (doc) {
+            db.prepare(
+                `INSERT OR REPLACE INTO document_tombstones (url, version, domain, status) VALUES (?, ?, ?, ?)`
+            ).run(url, version, doc.domain, status);
+        }
+        return { documents: deleted.length, chunks };
+    });
+    return run();
+}
+
+/**
+ * Returns the tombstone of a page removed by refresh_stale, if any.
+ */
+export function getTombstone(url: string, version: string = 'latest'): Tombstone | null {
+    const db = database();
+    return (db.prepare(
+        `SELECT url, version, domain, status, gone_at FROM document_tombstones WHERE url = ? AND version = ?`
+    ).get(url, version) as Tombstone | undefined) ?? null;
+}
+
+// ── Maintenance ────────────────────────────────────────────────────────────────
+
+/**
+ * Repairs and compacts the active collection: removes orphaned rows, checks
+ * and rebuilds the FTS5 tables and vacuums (see maintenance.ts).
+ */
+export function maintainIndex(): MaintenanceReport {
+    const db = database();
+    return maintainDatabase(db, getCollectionPath(getActiveCollection()));
+}
+
+// ── Bundle import ──────────────────────────────────────────────────────────────
+
+/**
+ * Merges a page from an export bundle, keeping whichever copy was crawled
+ * later. The incoming copy keeps its crawl time and cache headers; its chunks
+ * replace the local ones, so chunks_fts and code examples are rebuilt for the
+ * page by the usual triggers.
+ */
+export function importDocument(
+    doc: DocumentRow,
+    chunks: Array<{ heading_path: string[]; content: string }>,
+): ImportOutcome {
+    const db = database();
+    const run = db.transaction((): ImportOutcome => {
+        const existing = db.prepare(`
+            SELECT title, markdown, timestamp, julianday(?) > julianday(timestamp) AS newer
+            FROM documents_v2 WHERE url = ? AND version = ?
+        `).get(doc.timestamp, doc.url, doc.version) as
+            Pick<DocumentRow, 'title' | 'markdown' | 'timestamp'> & { newer: number | null } | undefined;
+        if (existing && !existing.newer) return 'skipped';
+
+        if (existing && !getLatestRevisionHash(doc.url, doc.version)) {
+            insertRevision(doc.url, doc.version, existing.title, existing.markdown, existing.timestamp);
+        }
+        db.prepare(`
+            INSERT INTO documents_v2 (url, version, domain, title, markdown, etag, last_modified, timestamp)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(url, version) DO UPDATE SET
+                title         = excluded.title,
+                markdown      = excluded.markdown,
+                etag          = excluded.etag,
+                last_modified = excluded.last_modified,
+                timestamp     = excluded.timestamp
+        `).run(doc.url, doc.version, doc.domain, doc.title, doc.markdown, doc.etag, doc.last_modified, doc.timestamp);
+        db.prepare(`DELETE FROM document_tombstones WHERE url = ? AND version = ?`).run(doc.url, doc.version);
+
+        if (existing?.markdown === doc.markdown) {
+            // Same content, fresher copy: keep the chunks (and their embeddings)
+            db.prepare(
+                `UPDATE chunks SET title = ? WHERE url = ? AND version = ? AND title <> ?`
+            ).run(doc.title, doc.url, doc.version, doc.title);
+        } else {
+            upsertChunks(doc.url, doc.version, chunks);
+        }
+        if (getLatestRevisionHash(doc.url, doc.version) !== contentHash(doc.markdown)) {
+            insertRevision(doc.url, doc.version, doc.title, doc.markdown, doc.timestamp);
+            pruneRevisions(doc.url, doc.version);
+        }
+        return existing ? 'updated' : 'added';
+    });
+    const outcome = run();
+    if (outcome !== 'skipped') notifyDocumentChange(doc.url, doc.version);
+    return outcome;
+}
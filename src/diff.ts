@@ -0,0 +1,184 @@
+/**
+ * Line diffs between page revisions, rendered as unified diffs.
+ *
+ * Uses Myers' O(ND) algorithm after trimming the common prefix and suffix,
+ * so the usual case — a few edited lines in a long page — stays cheap. Pages
+ * rewritten wholesale (more than MAX_EDIT_DISTANCE changed lines) fall back
+ * to "remove everything, add everything" rather than spending quadratic time
+ * and memory on a diff nobody will read line by line.
+ */
+
+export const DEFAULT_CONTEXT_LINES = 3;
+export const MAX_EDIT_DISTANCE = 4000;
+
+export interface DiffOp {
+    type: 'equal' | 'delete' | 'insert';
+    line: string;
+}
+
+export interface TextDiff {
+    /** Unified diff; '' when the texts are identical */
+    unified: string;
+    /** Lines only in the new text */
+    added: number;
+    /** Lines only in the old text */
+    removed: number;
+}
+
+export interface DiffOptions {
+    /** Label of the old text on the `---` line */
+    from_label?: string;
+    /** Label of the new text on the `+++` line */
+    to_label?: string;
+    /** Unchanged lines shown around each change (default 3) */
+    context_lines?: number;
+}
+
+/**
+ * Diffs two texts line by line.
+ */
+export function diffText(oldText: string, newText: string, options: DiffOptions = {}): TextDiff {
+    const ops = diffLines(splitLines(oldText), splitLines(newText));
+    const added = ops.filter(op => op.type === 'insert').length;
+    const removed = ops.filter(op => op.type === 'delete').length;
+    if (added === 0 && removed === 0) return { unified: '', added, removed };
+
+    const context = Math.max(Math.floor(options.context_lines ?? DEFAULT_CONTEXT_LINES), 0);
+    const header = [`--- ${options.from_label ?? 'a'}`, `+++ ${options.to_label ?? 'b'}`];
+    return { unified: [...header, ...renderHunks(ops, context)].join('\n'), added, removed };
+}
+
+/**
+ * The shortest edit script turning `a` into `b`, as a sequence of kept,
+ * deleted and inserted lines (deletions before insertions within a change).
+ */
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const equal = (lines: string[]): DiffOp[] => lines.map(line => ({ type: 'equal', line }));
+    return [
+        ...equal(a.slice(0, start)),
+        ...myers(a.slice(start, endA), b.slice(start, endB)),
+        ...equal(a.slice(endA)),
+    ];
+}
+
+// ── Myers ──────────────────────────────────────────────────────────────────────
+
+function myers(a: string[], b: string[]): DiffOp[] {
+    const n = a.length;
+    const m = b.length;
+    if (n === 0 || m === 0) return replaceAll(a, b);
+
+    // v[k + offset] = furthest x reached on diagonal k; trace[d] holds diagonals -d..d after step d
+    const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    const trace: Int32Array[] = [];
+
+    for (let d = 0; d <= max; d++) {
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+                ? v[offset + k + 1]
+                : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                trace.push(v.slice(offset - d, offset + d + 1));
+                return backtrack(a, b, trace);
+            }
+        }
+        trace.push(v.slice(offset - d, offset + d + 1));
+    }
+    return replaceAll(a, b);
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): DiffOp[] {
+    const ops: DiffOp[] = [];
+    let x = a.length;
+    let y = b.length;
+
+    for (let d = trace.length - 1; d > 0; d--) {
+        const prev = trace[d - 1];
+        const at = (k: number) => prev[k + d - 1];
+        const k = x - y;
+        const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+        const prevX = at(prevK);
+        const prevY = prevX - prevK;
+
+        while (x > prevX && y > prevY) {
+            ops.push({ type: 'equal', line: a[--x] });
+            y--;
+        }
+        if (x === prevX) ops.push({ type: 'insert', line: b[--y] });
+        else ops.push({ type: 'delete', line: a[--x] });
+    }
+    while (x > 0 && y > 0) {
+        ops.push({ type: 'equal', line: a[--x] });
+        y--;
+    }
+    return ops.reverse();
+}
+
+function replaceAll(a: string[], b: string[]): DiffOp[] {
+    return [
+        ...a.map(line => ({ type: 'delete' as const, line })),
+        ...b.map(line => ({ type: 'insert' as const, line })),
+    ];
+}
+
+// ── Unified format ─────────────────────────────────────────────────────────────
+
+function renderHunks(ops: DiffOp[], context: number): string[] {
+    // Indexes of changed ops, grouped into hunks when their context would touch
+    const changed = ops.flatMap((op, i) => op.type === 'equal' ? [] : [i]);
+    const groups: Array<[number, number]> = [];
+    for (const i of changed) {
+        const last = groups[groups.length - 1];
+        if (last && i - last[1] <= 2 * context + 1) last[1] = i;
+        else groups.push([i, i]);
+    }
+
+    // Line numbers (0-based) in old and new text before each op
+    const oldLine: number[] = [];
+    const newLine: number[] = [];
+    let o = 0;
+    let n = 0;
+    for (const op of ops) {
+        oldLine.push(o);
+        newLine.push(n);
+        if (op.type !== 'insert') o++;
+        if (op.type !== 'delete') n++;
+    }
+
+    const lines: string[] = [];
+    for (const [first, last] of groups) {
+        const from = Math.max(first - context, 0);
+        const to = Math.min(last + context, ops.length - 1);
+        const hunk = ops.slice(from, to + 1);
+        const oldCount = hunk.filter(op => op.type !== 'insert').length;
+        const newCount = hunk.filter(op => op.type !== 'delete').length;
+        // An empty range names the line before it, as diff(1) does
+        const oldStart = oldCount ? oldLine[from] + 1 : oldLine[from];
+        const newStart = newCount ? newLine[from] + 1 : newLine[from];
+        lines.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+        for (const op of hunk) lines.push(`${op.type === 'equal' ? ' ' : op.type === 'delete' ? '-' : '+'}${op.line}`);
+    }
+    return lines;
+}
+
+function splitLines(text: string): string[] {
+    if (text === '') return [];
+    return text.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+}
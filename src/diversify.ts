@@ -0,0 +1,120 @@
+/**
+ * Result diversification, applied after ranking.
+ *
+ * A long page that matches a query can fill the whole first page of results
+ * with its chunks. Two remedies, usable together:
+ *
+ * - max_per_document — keep at most N chunks per page (URL + version); the
+ *   best kept chunk of each page reports how many more were folded into it.
+ * - MMR (Maximal Marginal Relevance) — re-order so each next result balances
+ *   relevance against similarity to results already chosen:
+ *     λ · relevance − (1 − λ) · max similarity to the chosen ones
+ *   Similarity counts coming from the same page and sharing vocabulary.
+ */
+
+import { jaccard } from './similarity.js';
+
+export const DIVERSIFY_STRATEGIES = ['none', 'mmr'] as const;
+export type DiversifyStrategy = typeof DIVERSIFY_STRATEGIES[number];
+
+export interface DiversityOptions {
+    /** Keep at most this many chunks per page (unlimited when unset) */
+    max_per_document?: number;
+    /** 'mmr' re-ranks for diversity; 'none' (default) keeps the ranking */
+    strategy?: DiversifyStrategy;
+    /** MMR trade-off in [0, 1]: 1 = pure relevance, 0 = pure diversity (default 0.7) */
+    mmr_lambda?: number;
+}
+
+export const DEFAULT_MMR_LAMBDA = 0.7;
+
+interface Rankable {
+    url: string;
+    version: string;
+    content: string;
+    score: number;
+}
+
+/**
+ * True when the options ask for any diversification.
+ */
+export function wantsDiversity(options: DiversityOptions): boolean {
+    return (options.max_per_document ?? 0) > 0 || options.strategy === 'mmr';
+}
+
+/**
+ * Keeps at most `max` items per page, preserving order. The first kept item
+ * of each page gets `folded_hits`: the number of that page's items dropped.
+ */
+export function capPerDocument<T extends Rankable>(items: T[], max: number): Array<T & { folded_hits: number }> {
+    const limit = Math.max(Math.floor(max), 1);
+    const kept: Array<T & { folded_hits: number }> = [];
+    const firstByPage = new Map<string, T & { folded_hits: number }>();
+    const countByPage = new Map<string, number>();
+
+    for (const item of items) {
+        const key = pageKey(item);
+        const count = countByPage.get(key) ?? 0;
+        countByPage.set(key, count + 1);
+        if (count < limit) {
+            const entry = { ...item, folded_hits: 0 };
+            if (count === 0) firstByPage.set(key, entry);
+            kept.push(entry);
+        } else {
+            firstByPage.get(key)!.folded_hits++;
+        }
+    }
+    return kept;
+}
+
+/**
+ * Re-orders ranked items with Maximal Marginal Relevance. Relevance is the
+ * item's score scaled to [0, 1] within the list, so it works for BM25,
+ * cosine and RRF scores alike.
+ */
+export function mmrRerank<T extends Rankable>(items: T[], lambda: number = DEFAULT_MMR_LAMBDA): T[] {
+    if (items.length < 3) return [...items];
+    const l = Math.min(Math.max(lambda, 0), 1);
+
+    const scores = items.map(i => i.score);
+    const min = Math.min(...scores);
+    const range = Math.max(...scores) - min;
+    const relevance = scores.map(s => range > 0 ? (s - min) / range : 1);
+    const terms = items.map(i => termSet(i.content));
+
+    const remaining = items.map((_, i) => i);
+    // Highest similarity of each remaining item to anything chosen so far
+    const maxSim = new Array<number>(items.length).fill(0);
+    const chosen: number[] = [];
+
+    while (remaining.length > 0) {
+        let best = 0;
+        let bestValue = -Infinity;
+        remaining.forEach((idx, pos) => {
+            const value = l * relevance[idx] - (1 - l) * maxSim[idx];
+            if (value > bestValue) {
+                bestValue = value;
+                best = pos;
+            }
+        });
+        const [pick] = remaining.splice(best, 1);
+        chosen.push(pick);
+        for (const idx of remaining) {
+            maxSim[idx] = Math.max(maxSim[idx], similarity(items[pick], terms[pick], items[idx], terms[idx]));
+        }
+    }
+    return chosen.map(i => items[i]);
+}
+
+// Half of the similarity comes from sharing a page, half from shared vocabulary
+function similarity(a: Rankable, aTerms: Set<string>, b: Rankable, bTerms: Set<string>): number {
+    return 0.5 * (pageKey(a) === pageKey(b) ? 1 : 0) + 0.5 * jaccard(aTerms, bTerms);
+}
+
+function pageKey(item: Rankable): string {
+    return `${item.version}\u0000${item.url}`;
+}
+
+function termSet(text: string): Set<string> {
+    return new Set((text.toLowerCase().match(/[\p{L}\p{N}_]{3,}/gu) ?? []));
+}
@@ -0,0 +1,186 @@
+/**
+ * Embedding providers and vector-ranking helpers for semantic search.
+ *
+ * Providers turn chunk text into fixed-size vectors. Two are bundled:
+ *
+ * - local hash embedder — deterministic, offline feature-hashing embedder
+ *   (word unigrams + character trigrams). Needs no model or network, so it is
+ *   the default and what the tests use. It captures spelling overlap
+ *   ("loading" ≈ "loader"), not meaning.
+ * - OpenAI-compatible provider — any OpenAI-compatible /embeddings endpoint,
+ *   for real semantic matches ("spinner" ≈ "loading").
+ *
+ * Selection is by environment variable:
+ *   WEBSCRIBE_EMBEDDING_PROVIDER  'local' (default) | 'openai'
+ *   WEBSCRIBE_EMBEDDING_MODEL     default 'text-embedding-3-small'
+ *   WEBSCRIBE_EMBEDDING_BASE_URL  default 'https://api.openai.com/v1'
+ *   OPENAI_API_KEY                required for 'openai'
+ */
+
+export interface EmbeddingProvider {
+    /** Stable id stored alongside each vector, so vectors from different models never mix */
+    readonly id: string;
+    /** Vector length (0 if not known until the first call) */
+    readonly dimensions: number;
+    embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+// ── Local deterministic embedder ───────────────────────────────────────────────
+
+/**
+ * Creates the offline feature-hashing embedder. Identical text always
+ * produces an identical vector, on every platform.
+ */
+export function createLocalHashEmbedder(dimensions: number = 256): EmbeddingProvider {
+    const embedOne = (text: string): Float32Array => {
+        const vector = new Float32Array(dimensions);
+        const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+        const add = (feature: string, weight: number) => {
+            const h = fnv1a(feature);
+            // Use the top bit as a sign so hash collisions tend to cancel out
+            vector[h % dimensions] += (h & 0x80000000) ? -weight : weight;
+        };
+
+        for (const word of words) {
+            add('w:' + word, 1);
+            const padded = `^${word}$`;
+            for (let i = 0; i + 3 <= padded.length; i++) {
+                add('c:' + padded.slice(i, i + 3), 0.5);
+            }
+        }
+
+        return normalize(vector);
+    };
+
+    return {
+        id: `local-hash-${dimensions}`,
+        dimensions,
+        embed: async (texts) => texts.map(embedOne),
+    };
+}
+
+// ── OpenAI-compatible embedder ─────────────────────────────────────────────────
+
+/**
+ * Creates a provider backed by an OpenAI-compatible POST /embeddings endpoint.
+ * `dimensions` is 0 until the first response reveals the model's vector size.
+ */
+export function createOpenAIEmbeddingProvider(
+    model: string,
+    apiKey: string,
+    baseUrl: string = 'https://api.openai.com/v1',
+): EmbeddingProvider {
+    const provider = {
+        id: `openai:${model}`,
+        dimensions: 0,
+        async embed(texts: string[]): Promise<Float32Array[]> {
+            if (texts.length === 0) return [];
+            const res = await fetch(`${baseUrl.replace(/\/$/, '')}/embeddings`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${apiKey}`,
+                },
+                body: JSON.stringify({ model, input: texts }),
+                signal: AbortSignal.timeout(60_000),
+            });
+            if (!res.ok) {
+                throw new Error(`Embedding request failed: HTTP ${res.status} ${await res.text().catch(() => '')}`.trim());
+            }
+            const body = await res.json() as { data: Array<{ index: number; embedding: number[] }> };
+            const vectors = [...body.data]
+                .sort((x, y) => x.index - y.index)
+                .map(d => normalize(Float32Array.from(d.embedding)));
+            provider.dimensions = vectors[0]?.length ?? 0;
+            return vectors;
+        },
+    };
+    return provider;
+}
+
+// ── Provider selection ─────────────────────────────────────────────────────────
+
+let activeProvider: EmbeddingProvider | null = null;
+
+/**
+ * Returns the configured embedding provider (created once per process).
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+    if (activeProvider) return activeProvider;
+
+    const kind = (process.env.WEBSCRIBE_EMBEDDING_PROVIDER ?? 'local').toLowerCase();
+    if (kind === 'openai') {
+        const apiKey = process.env.OPENAI_API_KEY;
+        if (!apiKey) throw new Error('WEBSCRIBE_EMBEDDING_PROVIDER=openai requires OPENAI_API_KEY');
+        activeProvider = createOpenAIEmbeddingProvider(
+            process.env.WEBSCRIBE_EMBEDDING_MODEL ?? 'text-embedding-3-small',
+            apiKey,
+            process.env.WEBSCRIBE_EMBEDDING_BASE_URL,
+        );
+    } else if (kind === 'local') {
+        activeProvider = createLocalHashEmbedder();
+    } else {
+        throw new Error(`Unknown WEBSCRIBE_EMBEDDING_PROVIDER: ${kind} (expected 'local' or 'openai')`);
+    }
+    return activeProvider;
+}
+
+/**
+ * Overrides the active provider. Useful for tests.
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+    activeProvider = provider;
+}
+
+// ── Vector math & rank fusion ──────────────────────────────────────────────────
+
+/**
+ * Dot product of two vectors. Every stored vector is L2-normalised,
+ * so this equals their cosine similarity.
+ */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+    const n = Math.min(a.length, b.length);
+    let dot = 0;
+    for (let i = 0; i < n; i++) dot += a[i] * b[i];
+    return dot;
+}
+
+/**
+ * Reciprocal Rank Fusion: merges several ranked id lists into one.
+ * Each list contributes 1 / (k + rank) for every id it contains, so items
+ * ranked well by several retrievers rise to the top.
+ *
+ * @returns ids with their fused scores, best first.
+ */
+export function reciprocalRankFusion(rankings: number[][], k: number = 60): Array<{ id: number; score: number }> {
+    const scores = new Map<number, number>();
+    for (const ranking of rankings) {
+        ranking.forEach((id, rank) => {
+            scores.set(id, (scores.get(id) ?? 0) + 1 / (k + rank + 1));
+        });
+    }
+    return [...scores.entries()]
+        .map(([id, score]) => ({ id, score }))
+        .sort((a, b) => b.score - a.score);
+}
+
+function normalize(vector: Float32Array): Float32Array {
+    let norm = 0;
+    for (const v of vector) norm += v * v;
+    norm = Math.sqrt(norm);
+    if (norm > 0) {
+        for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+    }
+    return vector;
+}
+
+// FNV-1a 32-bit hash — tiny, fast and stable across platforms
+function fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
@@ -0,0 +1,56 @@
+/**
+ * Export root: the directory MCP clients may read and write files in.
+ *
+ * export_index, import_index, export_llms_txt (output_dir) and
+ * export_markdown_tree take a path chosen by the client. Over stdio that
+ * client is the user's own editor, but an HTTP server — possibly bound to
+ * 0.0.0.0 — serves anyone who reaches its port. Tool paths must therefore be
+ * relative and stay inside the export root once resolved:
+ *
+ *   WEBSCRIBE_EXPORT_ROOT=/srv/webscribe-exports   (or --export-root)
+ *
+ * Without a configured root, stdio sessions use the working directory and
+ * HTTP sessions refuse file paths altogether. The CLI is not affected.
+ */
+
+import path from 'path';
+
+let configuredRoot: string | null = null;
+
+/**
+ * Overrides WEBSCRIBE_EXPORT_ROOT, e.g. from --export-root; null re-reads
+ * the environment. Useful for tests.
+ */
+export function configureExportRoot(root: string | null): void {
+    configuredRoot = root;
+}
+
+/**
+ * The configured export root as an absolute path, or null if none is set.
+ */
+export function getExportRoot(): string | null {
+    const root = configuredRoot ?? process.env.WEBSCRIBE_EXPORT_ROOT;
+    return root ? path.resolve(root) : null;
+}
+
+/**
+ * Resolves a client-supplied path against the export root. Throws an Error
+ * for absolute paths, for paths that leave the root, and — when `remote` —
+ * whenever no root has been configured.
+ */
+export function resolveToolPath(file: string, remote: boolean): string {
+    const configured = getExportRoot();
+    if (remote && !configured) {
+        throw new Error('File paths are disabled over HTTP; start the server with --export-root <dir> (or WEBSCRIBE_EXPORT_ROOT) to allow them');
+    }
+    const root = configured ?? process.cwd();
+    if (path.isAbsolute(file)) {
+        throw new Error(`Absolute paths are not allowed: '${file}'. Use a path relative to the export root (${root})`);
+    }
+    const resolved = path.resolve(root, file);
+    const relative = path.relative(root, resolved);
+    if (relative === '..' || relative.startsWith('..' + path.sep) || path.isAbsolute(relative)) {
+        throw new Error(`Path '${file}' is outside the export root (${root})`);
+    }
+    return resolved;
+}
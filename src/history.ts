@@ -0,0 +1,105 @@
+/**
+ * Page revision history: what changed on a page between crawls.
+ *
+ * Every crawl that changes a page's markdown stores a revision (see
+ * document_revisions in db.ts), so an agent can list when a page changed and
+ * read a unified diff between any two stored revisions — e.g. to spot the
+ * breaking change in a library's migration guide.
+ */
+
+import { listDocumentRevisions, getDocumentRevision } from './db.js';
+import type { RevisionSummary } from './db.js';
+import { diffText } from './diff.js';
+
+export interface RevisionEntry extends RevisionSummary {
+    /** Lines added since the previous stored revision (0 for the oldest) */
+    lines_added: number;
+    /** Lines removed since the previous stored revision (0 for the oldest) */
+    lines_removed: number;
+}
+
+export interface DiffRequest {
+    url: string;
+    version?: string;
+    /** Older revision id; defaults to the revision before `to` */
+    from?: number;
+    /** Newer revision id; defaults to the current revision */
+    to?: number;
+    /** Unchanged lines around each change (default 3) */
+    context_lines?: number;
+}
+
+export interface DocumentDiff {
+    url: string;
+    version: string;
+    from: RevisionSummary;
+    to: RevisionSummary;
+    lines_added: number;
+    lines_removed: number;
+    /** Unified diff of the markdown; '' when the revisions are identical */
+    diff: string;
+}
+
+/**
+ * Lists a page's stored revisions, newest first, each with its change size
+ * relative to the revision before it.
+ */
+export function getDocumentHistory(url: string, version: string = 'latest'): RevisionEntry[] {
+    const revisions = listDocumentRevisions(url, version);
+    return revisions.map((revision, i) => {
+        const previous = revisions[i + 1];
+        if (!previous) return { ...revision, lines_added: 0, lines_removed: 0 };
+        const { added, removed } = diffText(
+            getDocumentRevision(url, version, previous.revision_id)!.markdown,
+            getDocumentRevision(url, version, revision.revision_id)!.markdown,
+        );
+        return { ...revision, lines_added: added, lines_removed: removed };
+    });
+}
+
+/**
+ * Diffs two stored revisions of a page. Returns null when the page has no
+ * stored revisions; throws an Error for unknown revision ids or when there is
+ * only one revision to compare.
+ */
+export function diffDocument(request: DiffRequest): DocumentDiff | null {
+    const version = request.version || 'latest';
+    const revisions = listDocumentRevisions(request.url, version);
+    if (revisions.length === 0) return null;
+
+    const toIndex = request.to === undefined ? 0 : revisions.findIndex(r => r.revision_id === request.to);
+    if (toIndex === -1) throw new Error(`Revision ${request.to} not found for ${request.url} (version: ${version})`);
+
+    let fromIndex: number;
+    if (request.from === undefined) {
+        fromIndex = toIndex + 1;
+        if (fromIndex >= revisions.length) {
+            throw new Error(`No revision of ${request.url} (version: ${version}) is stored before revision ${revisions[toIndex].revision_id}`);
+        }
+    } else {
+        fromIndex = revisions.findIndex(r => r.revision_id === request.from);
+        if (fromIndex === -1) throw new Error(`Revision ${request.from} not found for ${request.url} (version: ${version})`);
+    }
+
+    const from = revisions[fromIndex];
+    const to = revisions[toIndex];
+    const { unified, added, removed } = diffText(
+        getDocumentRevision(request.url, version, from.revision_id)!.markdown,
+        getDocumentRevision(request.url, version, to.revision_id)!.markdown,
+        {
+            from_label: `${request.url} (revision ${from.revision_id}, ${from.captured_at})`,
+            to_label: `${request.url} (revision ${to.revision_id}, ${to.captured_at})`,
+            context_lines: request.context_lines,
+        },
+    );
+
+    return {
+        url: request.url,
+        version,
+        from,
+        to,
+        lines_added: added,
+        lines_removed: removed,
+        diff: unified,
+    };
+}
@@ -0,0 +1,176 @@
+/**
+ * Streamable HTTP transport for the MCP server.
+ *
+ * Serves the same tool set as stdio mode over MCP Streamable HTTP (POST for
+ * JSON-RPC requests, GET for the server → client SSE stream, DELETE to end a
+ * session). Every client session gets its own Server + transport pair, while
+ * the SQLite index and crawler code are shared by the whole process — so one
+ * long-lived WebScribe can serve several editors and agents at once.
+ *
+ * Binding to loopback alone doesn't stop a web page from reaching the server
+ * through DNS rebinding, so requests whose Host or Origin header names
+ * anything other than this server are refused with 403.
+ */
+
+import http from 'node:http';
+import os from 'node:os';
+import { randomUUID } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from './server.js';
+
+export const MCP_HTTP_PATH = '/mcp';
+
+// Active sessions: mcp-session-id header → transport
+const transports = new Map<string, StreamableHTTPServerTransport>();
+
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '[::1]'];
+const WILDCARD_HOSTS = new Set(['0.0.0.0', '::', '[::]']);
+
+// Host header values accepted by new sessions; set once the server listens
+let allowedHosts: string[] = [];
+
+/**
+ * Host header values that address a server bound to `host`:`port`: the bind
+ * address and the loopback names, plus every interface address and the
+ * machine name when bound to all interfaces.
+ */
+export function allowedHostsFor(host: string, port: number): string[] {
+    const names = new Set(LOOPBACK_HOSTS);
+    if (WILDCARD_HOSTS.has(host)) {
+        for (const addresses of Object.values(os.networkInterfaces())) {
+            for (const a of addresses ?? []) names.add(a.family === 'IPv6' ? `[${a.address}]` : a.address);
+        }
+        names.add(os.hostname().toLowerCase());
+    } else {
+        names.add(host.includes(':') && !host.startsWith('[') ? `[${host}]` : host.toLowerCase());
+    }
+    return [...names].map(name => `${name}:${port}`);
+}
+
+/**
+ * Starts the HTTP listener and resolves once it is accepting connections.
+ *
+ * @param port Port to listen on.
+ * @param host Interface to bind. Defaults to loopback so the index is not
+ *             exposed to the network unless explicitly requested.
+ */
+export async function startHttpServer(port: number, host: string = '127.0.0.1'): Promise<http.Server> {
+    const httpServer = http.createServer((req, res) => {
+        handleRequest(req, res).catch((err) => {
+            process.stderr.write(`[http] Request failed: ${err}\n`);
+            if (!res.headersSent) {
+                sendJsonRpcError(res, 500, -32603, 'Internal server error');
+            }
+        });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        httpServer.once('error', reject);
+        httpServer.listen(port, host, () => {
+            httpServer.off('error', reject);
+            resolve();
+        });
+    });
+    // Port 0 picks a free port; the Host header carries the real one
+    allowedHosts = allowedHostsFor(host, (httpServer.address() as AddressInfo).port);
+
+    const shutdown = async () => {
+        for (const transport of transports.values()) {
+            await transport.close().catch(() => { });
+        }
+        httpServer.close();
+        process.exit(0);
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+
+    return httpServer;
+}
+
+/**
+ * Routes a single HTTP request to the matching session transport, creating a
+ * new session when the body is an `initialize` request.
+ */
+async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (pathname !== MCP_HTTP_PATH) {
+        res.writeHead(404).end('Not found');
+        return;
+    }
+
+    const header = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(header) ? header[0] : header;
+    const existing = sessionId ? transports.get(sessionId) : undefined;
+
+    if (req.method === 'POST') {
+        let body: unknown;
+        try {
+            body = JSON.parse(await readBody(req));
+        } catch {
+            sendJsonRpcError(res, 400, -32700, 'Parse error: invalid JSON');
+            return;
+        }
+
+        if (existing) {
+            await existing.handleRequest(req, res, body);
+            return;
+        }
+
+        if (!sessionId && isInitializeRequest(body)) {
+            const transport = new StreamableHTTPServerTransport({
+                sessionIdGenerator: () => randomUUID(),
+                enableDnsRebindingProtection: true,
+                allowedHosts,
+                allowedOrigins: allowedHosts.map(h => `http://${h}`),
+                onsessioninitialized: (id) => {
+                    transports.set(id, transport);
+                    process.stderr.write(`[http] Session opened: ${id}\n`);
+                },
+            });
+            transport.onclose = () => {
+                if (transport.sessionId) {
+                    transports.delete(transport.sessionId);
+                    process.stderr.write(`[http] Session closed: ${transport.sessionId}\n`);
+                }
+            };
+
+            const server = createServer({ remote: true });
+            await server.connect(transport);
+            await transport.handleRequest(req, res, body);
+            return;
+        }
+
+        sendJsonRpcError(res, 400, -32000, 'Bad Request: no valid session ID provided');
+        return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+        if (!existing) {
+            sendJsonRpcError(res, 400, -32000, 'Bad Request: invalid or missing session ID');
+            return;
+        }
+        await existing.handleRequest(req, res);
+        return;
+    }
+
+    res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end('Method not allowed');
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        req.on('error', reject);
+    });
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+        jsonrpc: '2.0',
+        error: { code, message },
+        id: null,
+    }));
+}
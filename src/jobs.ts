@@ -0,0 +1,160 @@
+/**
+ * Background crawl job registry.
+ *
+ * Long crawls (hundreds of pages) easily outlive a client's tool-call timeout,
+ * so start_crawl hands the work to a job that runs in the background of the
+ * server process. Jobs are kept in memory only: they report live progress,
+ * can be cancelled through an AbortController, and keep their final result
+ * around for get_crawl_status until they are pruned from the history.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { runCrawler, crawlComponentDocs } from './crawler.js';
+import type { CrawlProgress, CrawlHooks } from './crawler.js';
+import { getActiveCollection, withCollection } from './db.js';
+
+export type CrawlJobKind = 'site' | 'components';
+export type CrawlJobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface CrawlJobParams {
+    /** 'site' runs the BFS crawler, 'components' runs the component-index crawler */
+    kind: CrawlJobKind;
+    /** Start URL (site) or component index URL (components) */
+    url: string;
+    version: string;
+    max_pages: number;
+    /** Only used by 'site' crawls */
+    url_glob?: string;
+    /** Only used by 'site' crawls */
+    expand_tabs?: boolean;
+}
+
+export interface CrawlJob extends CrawlJobParams {
+    id: string;
+    /** Collection the crawl writes to: the one active when the job started */
+    collection: string;
+    status: CrawlJobStatus;
+    progress: CrawlProgress;
+    crawled_urls: string[];
+    error: string | null;
+    started_at: string;
+    finished_at: string | null;
+}
+
+/** Runs the crawl behind a job and resolves with the crawled URLs */
+export type CrawlRunner = (params: CrawlJobParams, hooks: CrawlHooks) => Promise<string[]>;
+
+// Finished jobs beyond this count are dropped (oldest first)
+export const MAX_FINISHED_JOBS = 50;
+
+const jobs = new Map<string, { job: CrawlJob; controller: AbortController }>();
+
+const playwrightRunner: CrawlRunner = (params, hooks) => params.kind === 'components'
+    ? crawlComponentDocs(params.url, params.version, params.max_pages, hooks)
+    : runCrawler(params.url, params.version, params.max_pages, params.url_glob, params.expand_tabs ?? true, hooks);
+
+let activeRunner: CrawlRunner = playwrightRunner;
+
+/**
+ * Overrides how jobs crawl; null restores the Playwright crawlers. Useful for tests.
+ */
+export function setCrawlRunner(runner: CrawlRunner | null): void {
+    activeRunner = runner ?? playwrightRunner;
+}
+
+/**
+ * Starts a crawl in the background and returns immediately.
+ *
+ * @param params     What to crawl.
+ * @param onProgress Optional listener, called after every page visit while
+ *                   the job is running (never once it has finished).
+ * @returns A snapshot of the newly created job.
+ */
+export function startCrawlJob(
+    params: CrawlJobParams,
+    onProgress?: (job: CrawlJob) => void,
+): CrawlJob {
+    const controller = new AbortController();
+    const job: CrawlJob = {
+        ...params,
+        id: randomUUID(),
+        collection: getActiveCollection(),
+        status: 'running',
+        progress: { done: 0, queued: 0, failed: 0 },
+        crawled_urls: [],
+        error: null,
+        started_at: new Date().toISOString(),
+        finished_at: null,
+    };
+    jobs.set(job.id, { job, controller });
+
+    const hooks: CrawlHooks = {
+        signal: controller.signal,
+        onProgress: (progress: CrawlProgress) => {
+            if (job.status !== 'running') return;
+            job.progress = progress;
+            onProgress?.(snapshot(job));
+        },
+    };
+
+    const run = withCollection(job.collection, () => activeRunner(params, hooks));
+
+    run.then(
+        (urls) => {
+            job.crawled_urls = urls;
+            job.status = controller.signal.aborted ? 'cancelled' : 'completed';
+        },
+        (err: unknown) => {
+            job.error = err instanceof Error ? err.message : String(err);
+            job.status = controller.signal.aborted ? 'cancelled' : 'failed';
+        },
+    ).finally(() => {
+        job.finished_at = new Date().toISOString();
+        process.stderr.write(`[jobs] ${job.id} ${job.status} (${job.crawled_urls.length} pages)\n`);
+        pruneFinishedJobs();
+    });
+
+    return snapshot(job);
+}
+
+/**
+ * Returns a snapshot of a job, or null if the id is unknown (or was pruned).
+ */
+export function getCrawlJob(id: string): CrawlJob | null {
+    const entry = jobs.get(id);
+    return entry ? snapshot(entry.job) : null;
+}
+
+/**
+ * Lists all known jobs, most recently started first.
+ */
+export function listCrawlJobs(): CrawlJob[] {
+    return [...jobs.values()]
+        .map(e => snapshot(e.job))
+        .sort((a, b) => b.started_at.localeCompare(a.started_at));
+}
+
+/**
+ * Requests cancellation of a running job. The crawler stops before visiting
+ * its next page and closes its browser; the job then moves to 'cancelled'.
+ * Returns the job snapshot, or null if the id is unknown.
+ */
+export function cancelCrawlJob(id: string): CrawlJob | null {
+    const entry = jobs.get(id);
+    if (!entry) return null;
+    if (entry.job.status === 'running') entry.controller.abort();
+    return snapshot(entry.job);
+}
+
+function snapshot(job: CrawlJob): CrawlJob {
+    return { ...job, progress: { ...job.progress }, crawled_urls: [...job.crawled_urls] };
+}
+
+function pruneFinishedJobs(): void {
+    const finished = [...jobs.values()]
+        .filter(e => e.job.status !== 'running')
+        .sort((a, b) => a.job.started_at.localeCompare(b.job.started_at));
+    for (const entry of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+        jobs.delete(entry.job.id);
+    }
+}
@@ -0,0 +1,264 @@
+/**
+ * llms.txt generation from an indexed site.
+ *
+ * llms.txt (https://llmstxt.org) is a markdown file at a site's root: an H1
+ * title, a blockquote summary, then H2 sections listing the site's pages as
+ * links with short notes. llms-full.txt is its companion with every page's
+ * markdown inlined. Both are built from the cached pages of one domain and
+ * version, so curated docs can be republished for other tools.
+ *
+ * Pages follow sitemap order when a sitemap is given, otherwise link order:
+ * a breadth-first walk of the markdown links between cached pages, starting
+ * from the page closest to the site root. Sections group pages by the first
+ * URL path segment below the path all pages share. Relative links in
+ * llms-full.txt are made absolute, since the text is read away from the site.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { estimateTokens } from './tokens.js';
+import { pageUrlKey } from './similarity.js';
+
+export interface LlmsPage {
+    url: string;
+    title: string;
+    markdown: string;
+}
+
+export interface LlmsTxtOptions {
+    /** H1 of both files; defaults to '<domain> documentation' */
+    title?: string;
+    /** Blockquote summary; defaults to the first sentence of the first page */
+    summary?: string;
+    /** Page URLs in sitemap order; cached pages it doesn't list follow in link order */
+    sitemap?: string[];
+}
+
+export interface LlmsSection {
+    name: string;
+    /** URL path the section's pages share, e.g. '/docs/guides/' */
+    path: string;
+    pages: number;
+    /** Estimated tokens of the section's pages in llms-full.txt */
+    tokens: number;
+}
+
+export interface LlmsTxt {
+    title: string;
+    summary: string;
+    /** 'sitemap' when the sitemap matched any cached page */
+    order: LlmsOrder;
+    llms_txt: string;
+    llms_full_txt: string;
+    sections: LlmsSection[];
+    tokens: { llms_txt: number; llms_full_txt: number };
+}
+
+export const LLMS_ORDERS = ['sitemap', 'links'] as const;
+export type LlmsOrder = typeof LLMS_ORDERS[number];
+
+const NOTE_MAX_CHARS = 160;
+const TOP_LEVEL_SECTION = 'Overview';
+
+/**
+ * Builds llms.txt and llms-full.txt for the given pages of one domain and version.
+ */
+export function buildLlmsTxt(domain: string, version: string, pages: LlmsPage[], options: LlmsTxtOptions = {}): LlmsTxt {
+    const { ordered, order } = orderPages(pages, options.sitemap);
+    const title = options.title?.trim() || `${domain} documentation${version === 'latest' ? '' : ` (${version})`}`;
+    const summary = options.summary?.trim()
+        || (ordered.length ? pageNote(ordered[0].markdown) : '')
+        || `Documentation for ${domain} (version: ${version}), ${pages.length} pages.`;
+
+    const header = [`# ${title}`, '', `> ${summary.replace(/\s+/g, ' ')}`];
+    const index = [...header];
+    const full = [...header];
+    const sections: LlmsSection[] = [];
+
+    for (const group of groupSections(ordered)) {
+        index.push('', `## ${group.name}`, '');
+        let tokens = 0;
+        for (const page of group.pages) {
+            const note = pageNote(page.markdown);
+            index.push(`- [${linkText(page)}](${page.url})${note ? `: ${note}` : ''}`);
+
+            const block = ['', '---', '', `# ${page.title || linkText(page)}`, '', `Source: ${page.url}`, '', stripTitleHeading(absoluteLinks(cleanMarkdown(page.markdown), page.url), page.title)].join('\n');
+            tokens += estimateTokens(block);
+            full.push(block);
+        }
+        sections.push({ name: group.name, path: group.path, pages: group.pages.length, tokens });
+    }
+
+    const llmsTxt = index.join('\n') + '\n';
+    const llmsFullTxt = full.join('\n') + '\n';
+    return {
+        title,
+        summary,
+        order,
+        llms_txt: llmsTxt,
+        llms_full_txt: llmsFullTxt,
+        sections,
+        tokens: { llms_txt: estimateTokens(llmsTxt), llms_full_txt: estimateTokens(llmsFullTxt) },
+    };
+}
+
+/**
+ * Writes llms.txt and llms-full.txt into `dir` (created if needed) and returns their paths.
+ */
+export function writeLlmsTxt(dir: string, result: LlmsTxt): { llms_txt: string; llms_full_txt: string } {
+    const target = path.resolve(dir);
+    fs.mkdirSync(target, { recursive: true });
+    const files = { llms_txt: path.join(target, 'llms.txt'), llms_full_txt: path.join(target, 'llms-full.txt') };
+    fs.writeFileSync(files.llms_txt, result.llms_txt);
+    fs.writeFileSync(files.llms_full_txt, result.llms_full_txt);
+    return files;
+}
+
+/**
+ * Tidies stored markdown for llms-full.txt: drops images and HTML comments,
+ * trailing whitespace and runs of blank lines.
+ */
+export function cleanMarkdown(markdown: string): string {
+    return markdown
+        .replace(/\r\n/g, '\n')
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+        .replace(/[ \t]+$/gm, '')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+// ── Ordering ───────────────────────────────────────────────────────────────────
+
+function orderPages(pages: LlmsPage[], sitemap: string[] = []): { ordered: LlmsPage[]; order: LlmsOrder } {
+    const byKey = new Map(pages.map(page => [pageUrlKey(page.url), page]));
+    const ordered: LlmsPage[] = [];
+    const seen = new Set<string>();
+
+    for (const url of sitemap) {
+        const key = pageUrlKey(url);
+        const page = byKey.get(key);
+        if (page && !seen.has(key)) {
+            seen.add(key);
+            ordered.push(page);
+        }
+    }
+    const order = ordered.length > 0 ? 'sitemap' : 'links';
+
+    // Breadth-first over links, restarting from the next root-most page until every page is placed
+    while (seen.size < byKey.size) {
+        const start = [...byKey.entries()]
+            .filter(([key]) => !seen.has(key))
+            .sort(([a], [b]) => depth(a) - depth(b) || a.length - b.length || a.localeCompare(b))[0];
+        const queue = [start];
+        seen.add(start[0]);
+        while (queue.length) {
+            const [, page] = queue.shift()!;
+            ordered.push(page);
+            for (const link of markdownLinks(page)) {
+                const key = pageUrlKey(link);
+                const target = byKey.get(key);
+                if (target && !seen.has(key)) {
+                    seen.add(key);
+                    queue.push([key, target]);
+                }
+            }
+        }
+    }
+    return { ordered, order };
+}
+
+function markdownLinks(page: LlmsPage): string[] {
+    const links: string[] = [];
+    for (const match of page.markdown.matchAll(/\]\(\s*<?([^)\s>]+)/g)) {
+        try { links.push(new URL(match[1], page.url).href); } catch { /* not a URL */ }
+    }
+    return links;
+}
+
+function depth(key: string): number {
+    return new URL(key).pathname.split('/').filter(Boolean).length;
+}
+
+// ── Sections ───────────────────────────────────────────────────────────────────
+
+function groupSections(pages: LlmsPage[]): Array<{ name: string; path: string; pages: LlmsPage[] }> {
+    const segments = pages.map(page => new URL(page.url).pathname.split('/').filter(Boolean));
+    let common = segments.length ? segments[0].length : 0;
+    for (const s of segments) {
+        let i = 0;
+        while (i < common && i < s.length && s[i] === segments[0][i]) i++;
+        common = i;
+    }
+    const prefix = segments.length ? segments[0].slice(0, common) : [];
+
+    // '/docs/guides/auth' makes 'guides' a section; '/docs/guides' then opens it
+    const sectionKeys = new Set(segments.filter(s => s.length > common + 1).map(s => s[common]));
+    const groups = new Map<string, { name: string; path: string; pages: LlmsPage[] }>();
+    pages.forEach((page, i) => {
+        const key = sectionKeys.has(segments[i][common]) ? segments[i][common] : '';
+        let group = groups.get(key);
+        if (!group) {
+            group = {
+                name: key ? sectionName(key) : TOP_LEVEL_SECTION,
+                path: `/${[...prefix, key].filter(Boolean).join('/')}/`.replace(/^\/\/$/, '/'),
+                pages: [],
+            };
+            groups.set(key, group);
+        }
+        group.pages.push(page);
+    });
+    return [...groups.values()];
+}
+
+// 'getting-started' → 'Getting started'
+function sectionName(segment: string): string {
+    let text = segment;
+    try { text = decodeURIComponent(segment); } catch { /* keep as is */ }
+    text = text.replace(/[-_]+/g, ' ').trim();
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// ── Page text ──────────────────────────────────────────────────────────────────
+
+function linkText(page: LlmsPage): string {
+    const text = page.title.trim() || new URL(page.url).pathname;
+    return text.replace(/[[\]]/g, '');
+}
+
+// The first sentence of the first prose paragraph, links reduced to their text
+function pageNote(markdown: string): string {
+    let inFence = false;
+    for (const raw of markdown.split('\n')) {
+        const line = raw.trim();
+        if (/^(```|~~~)/.test(line)) {
+            inFence = !inFence;
+            continue;
+        }
+        if (inFence || !line || /^(#|\||[-*+] |\d+\. |>|!\[|<)/.test(line)) continue;
+
+        const text = line
+            .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+            .replace(/(\*\*|__|\*|_)(\S(?:.*?\S)?)\1/g, '$2')
+            .replace(/\s+/g, ' ');
+        const sentence = text.match(/^.*?[.!?](?=\s|$)/)?.[0] ?? text;
+        if (sentence.length <= NOTE_MAX_CHARS) return sentence;
+        return sentence.slice(0, NOTE_MAX_CHARS).replace(/\s+\S*$/, '') + '…';
+    }
+    return '';
+}
+
+// Resolves relative link targets against the page URL
+function absoluteLinks(markdown: string, baseUrl: string): string {
+    return markdown.replace(/\]\(\s*<?([^)\s>]+)/g, (match, href: string) => {
+        if (/^([a-z][a-z0-9+.-]*:|#)/i.test(href)) return match;
+        try { return match.replace(href, new URL(href, baseUrl).href); } catch { return match; }
+    });
+}
+
+// Drops a leading H1 that repeats the page title written above it
+function stripTitleHeading(markdown: string, title: string): string {
+    const match = markdown.match(/^# (.+)\n*/);
+    if (match && match[1].trim().toLowerCase() === title.trim().toLowerCase()) return markdown.slice(match[0].length);
+    return markdown;
+}
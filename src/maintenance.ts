@@ -0,0 +1,169 @@
+/**
+ * Index maintenance: orphaned rows, FTS5 integrity and compaction.
+ *
+ * The schema declares ON DELETE CASCADE, but SQLite only enforces foreign
+ * keys on connections that ask for it. An index written by another tool
+ * (e.g. the sqlite3 shell) or by an older release can therefore hold chunks,
+ * embeddings, code examples or revisions whose page is gone, plus FTS rows
+ * pointing at them. maintainDatabase() repairs that and compacts the file;
+ * scanDatabase() is its read-only counterpart (for --check-db), and
+ * checkDatabaseHealth() the cheap probe run whenever a collection is opened.
+ *
+ * Like migrations.ts this works on a connection handed in by db.ts, which
+ * owns the schema.
+ */
+
+import type Database from 'better-sqlite3';
+import fs from 'fs';
+
+export interface OrphanCounts {
+    /** Chunks whose page is not in documents_v2 */
+    chunks: number;
+    /** Embeddings of chunks that no longer exist */
+    chunk_embeddings: number;
+    /** Code examples of chunks that no longer exist */
+    code_examples: number;
+    /** Revisions of pages that are not in documents_v2 */
+    document_revisions: number;
+}
+
+export interface FtsMaintenance {
+    table: string;
+    /** 'ok', or the error integrity-check reported before the rebuild */
+    integrity_before: string;
+    /** 'ok', or the error integrity-check reported after rebuild and optimize */
+    integrity_after: string;
+}
+
+export interface MaintenanceReport {
+    /** Database file ('' for an in-memory database) */
+    file: string;
+    foreign_keys: boolean;
+    /** Orphaned rows found and deleted */
+    orphans_removed: OrphanCounts;
+    /** Rows PRAGMA foreign_key_check still reports after the cleanup */
+    foreign_key_violations: number;
+    fts: FtsMaintenance[];
+    /** Database size in bytes (including the WAL file) before and after VACUUM */
+    size_before: number;
+    size_after: number;
+    duration_ms: number;
+}
+
+// Each table's orphan condition, in deletion order: deleting chunks fires the
+// triggers that drop their FTS rows, embeddings and code examples
+const ORPHAN_CONDITIONS: Record<keyof OrphanCounts, string> = {
+    chunks: `NOT EXISTS (SELECT 1 FROM documents_v2 d WHERE d.url = chunks.url AND d.version = chunks.version)`,
+    chunk_embeddings: `NOT EXISTS (SELECT 1 FROM chunks c WHERE c.id = chunk_embeddings.chunk_id)`,
+    code_examples: `NOT EXISTS (SELECT 1 FROM chunks c WHERE c.id = code_examples.chunk_id)`,
+    document_revisions: `NOT EXISTS (SELECT 1 FROM documents_v2 d WHERE d.url = document_revisions.url AND d.version = document_revisions.version)`,
+};
+
+// FTS5 tables with the table whose rows they index
+const FTS_TABLES: Array<{ table: string; content: string }> = [
+    { table: 'chunks_fts', content: 'chunks' },
+    { table: 'code_examples_fts', content: 'code_examples' },
+];
+
+/**
+ * Enables foreign keys, deletes orphaned rows, checks, rebuilds and
+ * optimizes the FTS5 tables, then vacuums. `file` is the database's path,
+ * used to report its size.
+ */
+export function maintainDatabase(db: Database.Database, file: string): MaintenanceReport {
+    const started = Date.now();
+    const sizeBefore = databaseSize(db, file);
+    db.pragma('foreign_keys = ON');
+
+    const orphans = countOrphans(db);
+    db.transaction(() => {
+        for (const [table, condition] of Object.entries(ORPHAN_CONDITIONS)) {
+            db.prepare(`DELETE FROM ${table} WHERE ${condition}`).run();
+        }
+    })();
+    const violations = (db.pragma('foreign_key_check') as unknown[]).length;
+
+    const fts = FTS_TABLES.map(({ table }) => {
+        const integrityBefore = ftsIntegrity(db, table);
+        db.prepare(`INSERT INTO ${table}(${table}) VALUES('rebuild')`).run();
+        db.prepare(`INSERT INTO ${table}(${table}) VALUES('optimize')`).run();
+        return { table, integrity_before: integrityBefore, integrity_after: ftsIntegrity(db, table) };
+    });
+
+    db.exec('VACUUM');
+    if (file !== ':memory:') db.pragma('wal_checkpoint(TRUNCATE)');
+
+    return {
+        file: file === ':memory:' ? '' : file,
+        foreign_keys: db.pragma('foreign_keys', { simple: true }) === 1,
+        orphans_removed: orphans,
+        foreign_key_violations: violations,
+        fts,
+        size_before: sizeBefore,
+        size_after: databaseSize(db, file),
+        duration_ms: Date.now() - started,
+    };
+}
+
+/**
+ * Read-only scan for every problem maintainDatabase() would fix: orphaned
+ * rows (one anti-join per table, so this reads the whole index) plus the
+ * checkDatabaseHealth() probes. Returns a description of each problem found.
+ */
+export function scanDatabase(db: Database.Database): string[] {
+    const problems: string[] = [];
+    for (const [table, count] of Object.entries(countOrphans(db))) {
+        if (count > 0) problems.push(`${count} orphaned row(s) in ${table}`);
+    }
+    return [...problems, ...checkDatabaseHealth(db)];
+}
+
+/**
+ * Startup probe: FTS tables indexing a different number of rows than their
+ * content table, which is how a write without the sync triggers shows. Only
+ * row counts, no joins, so opening a large index stays fast.
+ */
+export function checkDatabaseHealth(db: Database.Database): string[] {
+    const problems: string[] = [];
+    for (const { table, content } of FTS_TABLES) {
+        // One docsize row per indexed row; cheaper than counting through the content table
+        const docsize = `${table}_docsize`;
+        const exists = db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`).get(docsize);
+        if (!exists) continue;
+        const indexed = (db.prepare(`SELECT COUNT(*) AS n FROM ${docsize}`).get() as { n: number }).n;
+        const rows = (db.prepare(`SELECT COUNT(*) AS n FROM ${content}`).get() as { n: number }).n;
+        if (indexed !== rows) problems.push(`${table} indexes ${indexed} row(s) but ${content} has ${rows}`);
+    }
+    return problems;
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+function countOrphans(db: Database.Database): OrphanCounts {
+    const count = (table: keyof OrphanCounts) =>
+        (db.prepare(`SELECT COUNT(*) AS n FROM ${table} WHERE ${ORPHAN_CONDITIONS[table]}`).get() as { n: number }).n;
+    return {
+        chunks: count('chunks'),
+        chunk_embeddings: count('chunk_embeddings'),
+        code_examples: count('code_examples'),
+        document_revisions: count('document_revisions'),
+    };
+}
+
+// rank = 1 also compares the index against the content table
+function ftsIntegrity(db: Database.Database, table: string): string {
+    try {
+        db.prepare(`INSERT INTO ${table}(${table}, rank) VALUES('integrity-check', 1)`).run();
+        return 'ok';
+    } catch (err) {
+        return err instanceof Error ? err.message : String(err);
+    }
+}
+
+function databaseSize(db: Database.Database, file: string): number {
+    if (file === ':memory:') {
+        return (db.pragma('page_count', { simple: true }) as number) * (db.pragma('page_size', { simple: true }) as number);
+    }
+    const size = (f: string) => fs.existsSync(f) ? fs.statSync(f).size : 0;
+    return size(file) + size(`${file}-wal`);
+}
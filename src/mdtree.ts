@@ -0,0 +1,189 @@
+/**
+ * Mirrors the cached pages of a site to a folder of markdown files, for code
+ * review and offline reading.
+ *
+ * File paths follow URL paths: `/docs/guides/theming` becomes
+ * `docs/guides/theming.md`, and a trailing slash or `.html` suffix doesn't
+ * change that. The site root is written as `_index.md`, since `index.md` is
+ * the generated list of all pages. Each file starts with YAML front matter
+ * (url, title, version, crawl time, etag). Links between mirrored pages are
+ * rewritten to relative `.md` paths; links to pages that weren't cached keep
+ * pointing at the web.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { DocumentRow } from './db.js';
+import { pageUrlKey } from './similarity.js';
+
+export interface MarkdownFile {
+    /** Path relative to the output directory, '/'-separated */
+    path: string;
+    url: string;
+    title: string;
+    content: string;
+}
+
+export interface MarkdownTree {
+    /** One file per page, in path order, followed by index.md */
+    files: MarkdownFile[];
+    /** Links rewritten to point at mirrored files */
+    links_rewritten: number;
+}
+
+export interface MarkdownTreeResult {
+    directory: string;
+    pages: number;
+    links_rewritten: number;
+    /** Path of the generated index.md */
+    index: string;
+    bytes: number;
+}
+
+const INDEX_FILE = 'index.md';
+const ROOT_PAGE_FILE = '_index.md';
+
+/**
+ * Plans the mirrored files for the given pages of one domain and version.
+ */
+export function buildMarkdownTree(domain: string, version: string, docs: DocumentRow[]): MarkdownTree {
+    // Assign paths first so links can point at pages written later
+    const taken = new Set([INDEX_FILE]);
+    const fileByKey = new Map<string, string>();
+    const planned = [...docs].sort((a, b) => a.url.localeCompare(b.url)).map(doc => {
+        const file = uniquePath(markdownPath(doc.url), taken);
+        fileByKey.set(pageUrlKey(doc.url), file);
+        return { doc, file };
+    });
+
+    let linksRewritten = 0;
+    const files: MarkdownFile[] = planned.map(({ doc, file }) => {
+        const { markdown, rewritten } = rewriteLinks(doc.markdown, doc.url, file, fileByKey);
+        linksRewritten += rewritten;
+        return { path: file, url: doc.url, title: doc.title, content: frontMatter(doc) + markdown.trimEnd() + '\n' };
+    }).sort((a, b) => a.path.localeCompare(b.path));
+
+    files.push({ path: INDEX_FILE, url: '', title: `${domain} (${version})`, content: renderIndex(domain, version, files) });
+    return { files, links_rewritten: linksRewritten };
+}
+
+/**
+ * Writes a planned tree into `dir` (created if needed). Existing files at the
+ * same paths are overwritten; nothing else in the directory is touched.
+ */
+export function writeMarkdownTree(dir: string, tree: MarkdownTree): MarkdownTreeResult {
+    const root = path.resolve(dir);
+    let bytes = 0;
+    for (const file of tree.files) {
+        const target = path.join(root, ...file.path.split('/'));
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.writeFileSync(target, file.content);
+        bytes += Buffer.byteLength(file.content);
+    }
+    return {
+        directory: root,
+        pages: tree.files.length - 1,
+        links_rewritten: tree.links_rewritten,
+        index: path.join(root, INDEX_FILE),
+        bytes,
+    };
+}
+
+// ── Paths ──────────────────────────────────────────────────────────────────────
+
+// '/docs/guides/theming/' → 'docs/guides/theming.md'
+function markdownPath(url: string): string {
+    const segments = new URL(url).pathname.split('/').filter(Boolean).map(safeSegment);
+    if (segments.length === 0) return ROOT_PAGE_FILE;
+    const last = segments.length - 1;
+    segments[last] = segments[last].replace(/\.(html?|php|aspx?|md|mdx)$/i, '') || '_';
+    return `${segments.join('/')}.md`;
+}
+
+function safeSegment(segment: string): string {
+    let text = segment;
+    try { text = decodeURIComponent(segment); } catch { /* keep as is */ }
+    text = text.replace(/[<>:"\\|?*\u0000-\u001f/]/g, '-');
+    return text === '.' || text === '..' || text === '' ? '_' : text;
+}
+
+// Pages differing only by query string or letter case would share a file
+function uniquePath(file: string, taken: Set<string>): string {
+    let candidate = file;
+    for (let n = 2; taken.has(candidate.toLowerCase()); n++) candidate = file.replace(/\.md$/, `-${n}.md`);
+    taken.add(candidate.toLowerCase());
+    return candidate;
+}
+
+// ── Content ────────────────────────────────────────────────────────────────────
+
+// JSON strings are valid YAML double-quoted scalars
+function frontMatter(doc: DocumentRow): string {
+    const crawled = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(doc.timestamp)
+        ? `${doc.timestamp.replace(' ', 'T')}Z`
+        : doc.timestamp;
+    return [
+        '---',
+        `url: ${JSON.stringify(doc.url)}`,
+        `title: ${JSON.stringify(doc.title)}`,
+        `version: ${JSON.stringify(doc.version)}`,
+        `crawled: ${JSON.stringify(crawled)}`,
+        `etag: ${doc.etag === null ? 'null' : JSON.stringify(doc.etag)}`,
+        '---',
+        '',
+        '',
+    ].join('\n');
+}
+
+// Rewrites inline links to mirrored pages, leaving code blocks and inline code alone
+function rewriteLinks(
+    markdown: string,
+    pageUrl: string,
+    file: string,
+    fileByKey: Map<string, string>,
+): { markdown: string; rewritten: number } {
+    let rewritten = 0;
+    let inFence = false;
+    const lines = markdown.split('\n').map(line => {
+        if (/^\s*(```|~~~)/.test(line)) {
+            inFence = !inFence;
+            return line;
+        }
+        if (inFence) return line;
+        // Odd pieces of the split are inline code spans
+        return line.split(/(`[^`]*`)/).map((piece, i) => i % 2 ? piece : piece.replace(
+            /(\]\(\s*)(<[^>]*>|[^)\s]+)/g,
+            (match, open: string, href: string) => {
+                const bare = href.replace(/^<|>$/g, '');
+                let target: URL;
+                try { target = new URL(bare, pageUrl); } catch { return match; }
+                if (!/^https?:$/.test(target.protocol)) return match;
+                const targetFile = fileByKey.get(pageUrlKey(target.href));
+                if (!targetFile) return match;
+                rewritten++;
+                return `${open}${relativeLink(file, targetFile)}${target.hash}`;
+            },
+        )).join('');
+    });
+    return { markdown: lines.join('\n'), rewritten };
+}
+
+function relativeLink(from: string, to: string): string {
+    const relative = path.posix.relative(path.posix.dirname(from), to);
+    return relative.replace(/[ ()]/g, c => encodeURIComponent(c));
+}
+
+function renderIndex(domain: string, version: string, files: MarkdownFile[]): string {
+    const lines = [`# ${domain} (${version})`, '', `${files.length} pages mirrored from the local documentation index.`];
+    let dir: string | null = null;
+    for (const file of files) {
+        const fileDir = path.posix.dirname(file.path);
+        if (fileDir !== dir) {
+            dir = fileDir;
+            lines.push('', `## ${dir === '.' ? '/' : `${dir}/`}`, '');
+        }
+        const text = (file.title.trim() || file.path).replace(/[[\]]/g, '');
+        lines.push(`- [${text}](${relativeLink(INDEX_FILE, file.path)})`);
+    }
+    return lines.join('\n') + '\n';
+}
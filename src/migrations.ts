@@ -0,0 +1,131 @@
+/**
+ * Numbered schema migrations, tracked with SQLite's `PRAGMA user_version`.
+ *
+ * Each migration runs in its own transaction together with the user_version
+ * bump, so a failure leaves the database at the last good version and the
+ * next start retries from there. Before any pending migration marked
+ * destructive (dropping or rewriting tables), an existing database file is
+ * copied next to itself with `VACUUM INTO`.
+ *
+ * The migrations themselves live with the schema in db.ts.
+ */
+
+import type Database from 'better-sqlite3';
+import fs from 'fs';
+
+export interface Migration {
+    /** 1, 2, 3, … — the user_version the database has after this migration */
+    version: number;
+    description: string;
+    /** Drops or rewrites tables; the database file is backed up first */
+    destructive?: boolean;
+    up(db: Database.Database): void;
+}
+
+export interface MigrationStatus {
+    /** Database file ('' for an in-memory database) */
+    file: string;
+    exists: boolean;
+    schema_version: number;
+    latest_version: number;
+    pending: Array<Pick<Migration, 'version' | 'description'> & { destructive: boolean }>;
+    /** True when applying the pending migrations will back up the database first */
+    backup_required: boolean;
+}
+
+export interface MigrationResult {
+    applied: number[];
+    /** Path of the backup taken before a destructive migration, if any */
+    backup: string | null;
+}
+
+/**
+ * Reads the schema version stored in the database header.
+ */
+export function getSchemaVersion(db: Database.Database): number {
+    return db.pragma('user_version', { simple: true }) as number;
+}
+
+/**
+ * Migrations newer than the database's schema version, in order.
+ * Throws if the database was written by a newer release.
+ */
+export function pendingMigrations(db: Database.Database, migrations: Migration[]): Migration[] {
+    validateMigrations(migrations);
+    const current = getSchemaVersion(db);
+    const latest = migrations.length ? migrations[migrations.length - 1].version : 0;
+    if (current > latest) {
+        throw new Error(`Database schema version ${current} is newer than this release supports (${latest}); upgrade webscribe-mcp`);
+    }
+    return migrations.filter(m => m.version > current);
+}
+
+/**
+ * Applies pending migrations. `file` is the database's path, used for the
+ * backup before destructive steps (skipped for new or in-memory databases).
+ */
+export function runMigrations(db: Database.Database, migrations: Migration[], file: string): MigrationResult {
+    const pending = pendingMigrations(db, migrations);
+    if (pending.length === 0) return { applied: [], backup: null };
+
+    const existing = hasTables(db);
+    let backup: string | null = null;
+    if (needsBackup(db, pending, file)) {
+        backup = backupDatabase(db, file, getSchemaVersion(db));
+        process.stderr.write(`[db] Backed up ${file} to ${backup} before migrating\n`);
+    }
+
+    const applied: number[] = [];
+    for (const migration of pending) {
+        if (existing) process.stderr.write(`[db] Migrating to schema v${migration.version}: ${migration.description}\n`);
+        db.transaction(() => {
+            migration.up(db);
+            db.pragma(`user_version = ${migration.version}`);
+        })();
+        applied.push(migration.version);
+    }
+    return { applied, backup };
+}
+
+/**
+ * Reports the schema version and pending migrations without changing anything.
+ */
+export function migrationStatus(db: Database.Database | null, migrations: Migration[], file: string): MigrationStatus {
+    const pending = db ? pendingMigrations(db, migrations) : migrations;
+    return {
+        file: file === ':memory:' ? '' : file,
+        exists: db !== null,
+        schema_version: db ? getSchemaVersion(db) : 0,
+        latest_version: migrations.length ? migrations[migrations.length - 1].version : 0,
+        pending: pending.map(m => ({ version: m.version, description: m.description, destructive: m.destructive ?? false })),
+        backup_required: db !== null && needsBackup(db, pending, file),
+    };
+}
+
+/**
+ * Copies the database to `<file>.v<version>-<timestamp>.bak` and returns the path.
+ */
+export function backupDatabase(db: Database.Database, file: string, version: number): string {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const target = `${file}.v${version}-${stamp}.bak`;
+    if (fs.existsSync(target)) throw new Error(`Backup target already exists: ${target}`);
+    db.prepare(`VACUUM INTO ?`).run(target);
+    return target;
+}
+
+// New and in-memory databases have nothing worth backing up
+function needsBackup(db: Database.Database, pending: Migration[], file: string): boolean {
+    return file !== ':memory:' && pending.some(m => m.destructive) && hasTables(db);
+}
+
+function hasTables(db: Database.Database): boolean {
+    return db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' LIMIT 1`).get() !== undefined;
+}
+
+function validateMigrations(migrations: Migration[]): void {
+    migrations.forEach((m, i) => {
+        if (m.version !== i + 1) {
+            throw new Error(`Migrations must be numbered 1, 2, 3, … in order; found version ${m.version} at position ${i + 1}`);
+        }
+    });
+}
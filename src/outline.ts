@@ -0,0 +1,120 @@
+/**
+ * Document outlines built from stored chunks.
+ *
+ * Every chunk carries its heading breadcrumb and page position, so a page's
+ * heading tree can be rebuilt without re-parsing its markdown. Sizes let an
+ * agent judge what a section costs before fetching it with get_section, and
+ * the site table of contents groups a whole domain's pages by URL path.
+ */
+
+import type { DocumentChunk } from './db.js';
+import { estimateTokens } from './tokens.js';
+
+export interface OutlineNode {
+    /** The heading text ('' for text before the first heading) */
+    heading: string;
+    heading_path: string[];
+    /** 1 for top-level headings */
+    depth: number;
+    /** Chunks holding this heading's own text (empty for a heading with only subsections) */
+    chunk_ids: number[];
+    /** Size of the section including all subsections */
+    chars: number;
+    tokens: number;
+    children: OutlineNode[];
+}
+
+export interface PageOutline {
+    url: string;
+    title: string;
+    chars: number;
+    tokens: number;
+    outline: OutlineNode[];
+}
+
+export interface TocGroup {
+    /** URL path of the group, e.g. '/salt/components/' */
+    path: string;
+    pages: PageOutline[];
+    groups: TocGroup[];
+}
+
+/**
+ * Builds the heading tree of a page from its chunks (in page order).
+ * Headings deeper than `maxDepth` are left out; their sizes still count
+ * towards their ancestors.
+ */
+export function buildOutline(url: string, title: string, chunks: DocumentChunk[], maxDepth: number = Infinity): PageOutline {
+    const root: OutlineNode[] = [];
+    let pageChars = 0;
+    let pageTokens = 0;
+
+    for (const chunk of chunks) {
+        const chars = chunk.content.length;
+        const tokens = estimateTokens(chunk.content);
+        pageChars += chars;
+        pageTokens += tokens;
+
+        // Text before the first heading becomes an unnamed top-level entry
+        const path = chunk.heading_path.length ? chunk.heading_path : [''];
+        let siblings = root;
+        path.forEach((heading, i) => {
+            // Only the most recent sibling can continue; a repeated heading later on is a new section
+            let node = siblings[siblings.length - 1];
+            if (!node || node.heading !== heading) {
+                node = {
+                    heading,
+                    heading_path: chunk.heading_path.slice(0, i + 1),
+                    depth: i + 1,
+                    chunk_ids: [],
+                    chars: 0,
+                    tokens: 0,
+                    children: [],
+                };
+                siblings.push(node);
+            }
+            node.chars += chars;
+            node.tokens += tokens;
+            if (i === path.length - 1) node.chunk_ids.push(chunk.chunk_id);
+            siblings = node.children;
+        });
+    }
+
+    return { url, title, chars: pageChars, tokens: pageTokens, outline: pruneDepth(root, maxDepth) };
+}
+
+/**
+ * Groups page outlines into a tree by URL path, nesting groups by path
+ * segment. Pages and groups come out sorted by path.
+ */
+export function groupByPath(pages: PageOutline[]): TocGroup {
+    const root: TocGroup = { path: '/', pages: [], groups: [] };
+    const sorted = [...pages].sort((a, b) => new URL(a.url).pathname.localeCompare(new URL(b.url).pathname));
+
+    for (const page of sorted) {
+        const pathname = new URL(page.url).pathname;
+        const segments = pathname.split('/').filter(Boolean);
+        // '/docs/guide/intro' lives in '/docs/guide/'; '/docs/guide/' is that group's own index page
+        const dirs = pathname.endsWith('/') ? segments : segments.slice(0, -1);
+
+        let group = root;
+        for (let i = 0; i < dirs.length; i++) {
+            const path = `/${dirs.slice(0, i + 1).join('/')}/`;
+            let child = group.groups.find(g => g.path === path);
+            if (!child) {
+                child = { path, pages: [], groups: [] };
+                group.groups.push(child);
+            }
+            group = child;
+        }
+        group.pages.push(page);
+    }
+    return root;
+}
+
+function pruneDepth(nodes: OutlineNode[], maxDepth: number): OutlineNode[] {
+    return nodes.map(node => ({
+        ...node,
+        children: node.depth >= maxDepth ? [] : pruneDepth(node.children, maxDepth),
+    }));
+}
@@ -0,0 +1,171 @@
+/**
+ * Packs retrieved sections into one token-budgeted markdown block with
+ * numbered citations.
+ *
+ * Each ranked hit offers a few ways to include it, largest first (its parent
+ * section, its own section, the bare chunk). The packer walks the hits in rank
+ * order and takes the largest option that still fits the budget and doesn't
+ * repeat chunks already packed, so the best hits get the most context:
+ *
+ *   **[1]** Button — Salt › Accessibility
+ *
+ *   ## Accessibility
+ *   …
+ *
+ *   ---
+ *
+ *   Sources:
+ *   [1] https://saltdesignsystem.com/salt/components/button#accessibility
+ */
+
+import { estimateTokens } from './tokens.js';
+import { jaccard } from './similarity.js';
+
+export interface PackOption {
+    url: string;
+    title: string;
+    heading_path: string[];
+    /** Chunks the option covers, used to avoid packing the same text twice */
+    chunk_ids: number[];
+    markdown: string;
+}
+
+export interface Citation {
+    /** Citation number as used in the packed markdown, from 1 */
+    n: number;
+    url: string;
+    title: string;
+    heading_path: string[];
+    chunk_ids: number[];
+    /** `url#heading-anchor` */
+    source: string;
+}
+
+export interface PackedContext {
+    markdown: string;
+    citations: Citation[];
+    /** Estimated tokens of `markdown` — never more than the budget */
+    tokens: number;
+    /** Hits left out because they didn't fit or were already covered */
+    omitted: number;
+    /** True when the only packed section had to be cut to fit */
+    truncated: boolean;
+}
+
+const BLOCK_SEPARATOR = '\n\n---\n\n';
+
+/**
+ * Packs hits (each a list of options, largest first) into at most `maxTokens`
+ * estimated tokens.
+ */
+export function packContext(hits: PackOption[][], maxTokens: number): PackedContext {
+    const blocks: string[] = [];
+    const citations: Citation[] = [];
+    const packed = new Set<number>();
+    let used = estimateTokens('Sources:');
+    let omitted = 0;
+    let truncated = false;
+
+    for (const options of hits) {
+        const fresh = options.filter(o => o.chunk_ids.every(id => !packed.has(id)));
+        const n = citations.length + 1;
+        const choice = fresh.find(o => used + cost(o, n) <= maxTokens);
+
+        if (!choice) {
+            // Rather than return nothing, cut the smallest option of the best hit to fit
+            const smallest = fresh[fresh.length - 1];
+            if (citations.length === 0 && smallest) {
+                const cut = truncateToFit(smallest, maxTokens - used - cost({ ...smallest, markdown: '' }, n));
+                if (cut) {
+                    add(cut, n);
+                    truncated = true;
+                    continue;
+                }
+            }
+            omitted++;
+            continue;
+        }
+        add(choice, n);
+    }
+
+    function add(option: PackOption, n: number): void {
+        blocks.push(renderBlock(option, n));
+        const { url, title, heading_path, chunk_ids } = option;
+        citations.push({ n, url, title, heading_path, chunk_ids, source: sourceOf(option) });
+        for (const id of option.chunk_ids) packed.add(id);
+        used += cost(option, n);
+    }
+
+    if (citations.length === 0) return { markdown: '', citations, tokens: 0, omitted, truncated };
+
+    const markdown = [
+        blocks.join(BLOCK_SEPARATOR),
+        ['Sources:', ...citations.map(c => `[${c.n}] ${c.source}`)].join('\n'),
+    ].join(BLOCK_SEPARATOR);
+    return { markdown, citations, tokens: estimateTokens(markdown), omitted, truncated };
+}
+
+/**
+ * GitHub-style heading anchor: lower-case, punctuation dropped, spaces → '-'.
+ */
+export function headingAnchor(heading: string): string {
+    return heading.trim().toLowerCase().replace(/[^\p{L}\p{N}\s_-]/gu, '').replace(/\s/g, '-');
+}
+
+/**
+ * Drops items whose text is a near-duplicate (word-trigram Jaccard similarity
+ * ≥ threshold) of an earlier item, keeping the first — i.e. best-ranked — copy.
+ */
+export function dropNearDuplicates<T>(items: T[], text: (item: T) => string, threshold: number = 0.8): T[] {
+    const kept: Array<{ item: T; shingles: Set<string> }> = [];
+    for (const item of items) {
+        const shingles = wordShingles(text(item));
+        if (!kept.some(k => jaccard(k.shingles, shingles) >= threshold)) kept.push({ item, shingles });
+    }
+    return kept.map(k => k.item);
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+function renderBlock(option: PackOption, n: number): string {
+    // Pages usually repeat their title as the H1, so don't print it twice
+    const label = [option.title, ...option.heading_path]
+        .filter((part, i, parts) => part && part.toLowerCase() !== parts[i - 1]?.toLowerCase())
+        .join(' › ');
+    return `**[${n}]** ${label}\n\n${option.markdown}`;
+}
+
+// Tokens an option adds: its block, a separator and its line under Sources
+function cost(option: PackOption, n: number): number {
+    return estimateTokens(renderBlock(option, n)) + estimateTokens('---') + estimateTokens(`[${n}] ${sourceOf(option)}`);
+}
+
+function sourceOf(option: PackOption): string {
+    const heading = option.heading_path[option.heading_path.length - 1];
+    return heading ? `${option.url}#${headingAnchor(heading)}` : option.url;
+}
+
+/**
+ * Cuts an option's markdown to at most `budget` estimated tokens at a word
+ * boundary, marking the cut. Returns null when not even one word fits.
+ */
+function truncateToFit(option: PackOption, budget: number): PackOption | null {
+    // Estimates add up across whitespace, so count word by word
+    let text = '';
+    let tokens = estimateTokens(' …');
+    for (const word of option.markdown.split(/(\s+)/)) {
+        tokens += estimateTokens(word);
+        if (tokens > budget) break;
+        text += word;
+    }
+    if (!text.trim()) return null;
+    return { ...option, markdown: `${text.trimEnd()} …` };
+}
+
+function wordShingles(text: string): Set<string> {
+    const words = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+    if (words.length < 3) return new Set([words.join(' ')]);
+    const shingles = new Set<string>();
+    for (let i = 0; i + 3 <= words.length; i++) shingles.add(words.slice(i, i + 3).join(' '));
+    return shingles;
+}
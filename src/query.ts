@@ -0,0 +1,267 @@
+/**
+ * Search query parser.
+ *
+ * Translates a small, safe query syntax into an FTS5 MATCH expression:
+ *
+ *   button loading          both terms (implicit AND)
+ *   "exact phrase"          phrase match
+ *   useQuer*                prefix match
+ *   -deprecated             exclude chunks containing the term (or "-a phrase")
+ *   tooltip OR popover      either term; binds tighter than AND, so
+ *                           `react tooltip OR popover` = react AND (tooltip OR popover)
+ *   NEAR(focus trap, 5)     terms within 5 tokens of each other (distance optional)
+ *   focus NEAR/5 trap       infix form of the same
+ *
+ * Every term is emitted as a quoted FTS5 string, so characters FTS5 treats
+ * as syntax (`:`, `^`, `(`, `.`) are matched literally — which is exactly
+ * today's behaviour for any query that uses none of the operators above.
+ * Misused operators (an unterminated quote, a dangling OR, only negated terms)
+ * throw an Error explaining what is wrong instead of reaching SQLite.
+ */
+
+export interface ParsedQuery {
+    /** FTS5 MATCH expression ('' when the query has nothing to search for) */
+    fts: string;
+    /** The positive terms and phrases as plain text, for semantic search */
+    text: string;
+}
+
+interface Phrase {
+    kind: 'phrase';
+    value: string;
+    prefix: boolean;
+    negated: boolean;
+}
+interface Near {
+    kind: 'near';
+    phrases: Phrase[];
+    distance?: number;
+}
+interface Or {
+    kind: 'or';
+    items: Array<Phrase | Near>;
+}
+type Unit = Phrase | Near | Or;
+
+type Token =
+    | Phrase
+    | Near
+    | { kind: 'OR' }
+    | { kind: 'NEAR'; distance?: number };
+
+/**
+ * Parses a user search query. Throws an Error with a readable message when
+ * the query uses the operator syntax incorrectly.
+ */
+export function parseSearchQuery(query: string): ParsedQuery {
+    const tokens = tokenize(query);
+
+    const units: Unit[] = [];
+    const negated: Phrase[] = [];
+    let pendingOp: Token | null = null;
+
+    for (const token of tokens) {
+        if (token.kind === 'OR' || token.kind === 'NEAR') {
+            if (units.length === 0 || pendingOp) {
+                throw queryError(`'${token.kind}' needs a search term on both sides`);
+            }
+            pendingOp = token;
+            continue;
+        }
+
+        if (token.kind === 'phrase' && token.negated) {
+            if (pendingOp) throw queryError(`a '-' excluded term cannot follow '${pendingOp.kind}'`);
+            negated.push(token);
+            continue;
+        }
+
+        if (!pendingOp) {
+            units.push(token);
+            continue;
+        }
+
+        const prev = units.pop()!;
+        if (pendingOp.kind === 'OR') {
+            if (prev.kind === 'or') {
+                prev.items.push(token);
+                units.push(prev);
+            } else {
+                units.push({ kind: 'or', items: [prev, token] });
+            }
+        } else {
+            if (prev.kind === 'or' || token.kind === 'near' && prev.kind === 'near') {
+                throw queryError(`NEAR can only join plain terms or phrases`);
+            }
+            const phrases = [...(prev.kind === 'near' ? prev.phrases : [prev]), ...(token.kind === 'near' ? token.phrases : [token])];
+            const distance = pendingOp.distance ?? (prev.kind === 'near' ? prev.distance : undefined);
+            units.push({ kind: 'near', phrases, distance });
+        }
+        pendingOp = null;
+    }
+
+    if (pendingOp) throw queryError(`'${pendingOp.kind}' needs a search term on both sides`);
+    if (units.length === 0) {
+        if (negated.length > 0) throw queryError('a query cannot consist only of excluded (-) terms');
+        return { fts: '', text: '' };
+    }
+
+    let fts = units.map(renderUnit).join(' ');
+    if (negated.length > 0) {
+        if (units.length > 1) fts = `(${fts})`;
+        fts += negated.map(n => ` NOT ${renderPhrase(n)}`).join('');
+    }
+
+    return { fts, text: units.flatMap(plainText).join(' ') };
+}
+
+// ── Tokenizer ──────────────────────────────────────────────────────────────────
+
+function tokenize(query: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    const atBoundary = (pos: number) => pos >= query.length || /\s/.test(query[pos]);
+
+    while (i < query.length) {
+        if (/\s/.test(query[i])) { i++; continue; }
+
+        // NEAR(a b "c d", 5)
+        if (query.startsWith('NEAR(', i)) {
+            const { close, comma } = scanNearGroup(query, i + 5);
+            if (close === -1) throw queryError(`missing ')' after NEAR(`);
+            const distance = comma === -1 ? null : query.slice(comma + 1, close).match(/^\s*(\S+)\s*$/);
+            const phrases = tokenize(query.slice(i + 5, distance ? comma : close));
+            if (phrases.length < 2 || phrases.some(p => p.kind !== 'phrase' || p.negated)) {
+                throw queryError('NEAR(...) needs at least two plain terms or phrases');
+            }
+            tokens.push({ kind: 'near', phrases: phrases as Phrase[], distance: parseDistance(distance?.[1]) });
+            i = close + 1;
+            continue;
+        }
+
+        // NEAR or NEAR/5 between two terms
+        const nearOp = query.slice(i).match(/^NEAR(?:\/(\S*))?(?=\s|$)/);
+        if (nearOp) {
+            tokens.push({ kind: 'NEAR', distance: parseDistance(nearOp[1]) });
+            i += nearOp[0].length;
+            continue;
+        }
+
+        if (query.startsWith('OR', i) && atBoundary(i + 2)) {
+            tokens.push({ kind: 'OR' });
+            i += 2;
+            continue;
+        }
+
+        let negated = false;
+        if (query[i] === '-') {
+            if (atBoundary(i + 1)) throw queryError(`'-' must be followed by a term to exclude`);
+            negated = true;
+            i++;
+        }
+
+        if (query[i] === '"') {
+            const close = query.indexOf('"', i + 1);
+            if (close === -1) throw queryError('unterminated quote');
+            const value = query.slice(i + 1, close).trim();
+            if (!value) throw queryError('empty phrase ""');
+            i = close + 1;
+            const prefix = query[i] === '*';
+            if (prefix) i++;
+            tokens.push({ kind: 'phrase', value, prefix, negated });
+            continue;
+        }
+
+        let end = i;
+        while (end < query.length && !/\s/.test(query[end]) && query[end] !== '"') end++;
+        let value = query.slice(i, end);
+        i = end;
+
+        const prefix = value.length > 1 && value.endsWith('*');
+        if (prefix) value = value.slice(0, -1);
+        if (value === '*') throw queryError(`'*' must follow the start of a word, e.g. useQuer*`);
+        tokens.push({ kind: 'phrase', value, prefix, negated });
+    }
+
+    return tokens;
+}
+
+/**
+ * Finds the ')' that closes a NEAR( group whose terms start at `from`, and
+ * the last ',' before it, both outside quoted phrases — so `NEAR("fn(x)" y)`
+ * keeps its phrase whole. Either is -1 when there is none.
+ */
+function scanNearGroup(query: string, from: number): { close: number; comma: number } {
+    let comma = -1;
+    for (let i = from; i < query.length; i++) {
+        if (query[i] === '"') {
+            const end = query.indexOf('"', i + 1);
+            if (end === -1) break;
+            i = end;
+        } else if (query[i] === ',') {
+            comma = i;
+        } else if (query[i] === ')') {
+            return { close: i, comma };
+        }
+    }
+    return { close: -1, comma };
+}
+
+function parseDistance(raw: string | undefined): number | undefined {
+    if (raw === undefined || raw === '') return undefined;
+    const n = Number(raw);
+    if (!Number.isInteger(n) || n < 0) throw queryError(`NEAR distance must be a non-negative integer, got '${raw}'`);
+    return n;
+}
+
+// ── Rendering ──────────────────────────────────────────────────────────────────
+
+function renderPhrase(p: Phrase): string {
+    return `"${p.value.replace(/"/g, '""')}"${p.prefix ? '*' : ''}`;
+}
+
+function renderUnit(unit: Unit): string {
+    switch (unit.kind) {
+        case 'phrase':
+            return renderPhrase(unit);
+        case 'near':
+            return `NEAR(${unit.phrases.map(renderPhrase).join(' ')}${unit.distance !== undefined ? `, ${unit.distance}` : ''})`;
+        case 'or':
+            return `(${unit.items.map(renderUnit).join(' OR ')})`;
+    }
+}
+
+function plainText(unit: Unit): string[] {
+    switch (unit.kind) {
+        case 'phrase': return [unit.value];
+        case 'near': return unit.phrases.map(p => p.value);
+        case 'or': return unit.items.flatMap(plainText);
+    }
+}
+
+function queryError(message: string): Error {
+    return new Error(`Invalid search query: ${message}`);
+}
+
+// ── Natural-language questions ─────────────────────────────────────────────────
+
+// Words that carry no search signal in a question
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'could', 'do', 'does', 'for', 'from', 'get',
+    'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'should', 'so',
+    'that', 'the', 'their', 'there', 'this', 'to', 'use', 'using', 'was', 'we', 'what', 'when', 'where',
+    'which', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+/**
+ * Turns a natural-language question into a query that matches any of its
+ * significant words ("How do I show a loading spinner?" →
+ * `show OR loading OR spinner`), so BM25 ranks chunks by how many of them
+ * they contain instead of requiring all of them. Identifiers like
+ * `useQueryClient` or `Array.prototype.flatMap` are kept whole.
+ */
+export function questionToQuery(question: string): string {
+    const words = question.toLowerCase().match(/[\p{L}\p{N}_$](?:[\p{L}\p{N}_$.]*[\p{L}\p{N}_$])?/gu) ?? [];
+    const terms = [...new Set(words.filter(w => w.length > 1 && !STOPWORDS.has(w)))];
+    return terms.join(' OR ');
+}
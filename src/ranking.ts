@@ -0,0 +1,73 @@
+/**
+ * BM25 column weights for lexical search.
+ *
+ * chunks_fts indexes six columns; a match in the page title or the heading
+ * breadcrumb says far more about what a chunk is *about* than a passing
+ * mention in its body, so those columns weigh more. With the defaults a query
+ * for "Tooltip" ranks the Tooltip page above pages that merely mention tooltips.
+ *
+ * Override with WEBSCRIBE_BM25_WEIGHTS, a comma-separated list of
+ * column=weight pairs. Columns left out keep their default:
+ *
+ *   WEBSCRIBE_BM25_WEIGHTS="title=20,heading_path=8,url=0"
+ */
+
+/** chunks_fts columns, in table order */
+export const FTS_COLUMNS = ['url', 'version', 'title', 'heading_path', 'content', 'identifiers'] as const;
+export type FtsColumn = typeof FTS_COLUMNS[number];
+
+export type Bm25Weights = Record<FtsColumn, number>;
+
+export const DEFAULT_BM25_WEIGHTS: Readonly<Bm25Weights> = {
+    url: 2,
+    version: 0,   // matching the version label says nothing about relevance
+    title: 10,
+    heading_path: 5,
+    content: 1,
+    identifiers: 1,  // split camelCase / snake_case parts, see tokenizer.ts
+};
+
+/**
+ * Parses a "column=weight,…" spec on top of the defaults. Throws an Error
+ * naming the offending entry for unknown columns or non-numeric weights.
+ */
+export function parseBm25Weights(spec: string): Bm25Weights {
+    const weights: Bm25Weights = { ...DEFAULT_BM25_WEIGHTS };
+    for (const entry of spec.split(',').map(e => e.trim()).filter(Boolean)) {
+        const [column, raw] = entry.split('=').map(s => s.trim());
+        if (!(FTS_COLUMNS as readonly string[]).includes(column)) {
+            throw new Error(`Unknown BM25 weight column '${column}' (expected one of: ${FTS_COLUMNS.join(', ')})`);
+        }
+        const weight = Number(raw);
+        if (raw === undefined || raw === '' || !Number.isFinite(weight) || weight < 0) {
+            throw new Error(`Invalid BM25 weight '${entry}': expected ${column}=<non-negative number>`);
+        }
+        weights[column as FtsColumn] = weight;
+    }
+    return weights;
+}
+
+let activeWeights: Bm25Weights | null = null;
+
+/**
+ * Returns the configured column weights (read from the environment once per process).
+ */
+export function getBm25Weights(): Bm25Weights {
+    activeWeights ??= parseBm25Weights(process.env.WEBSCRIBE_BM25_WEIGHTS ?? '');
+    return activeWeights;
+}
+
+/**
+ * Overrides the column weights; null re-reads the environment. Useful for tests.
+ */
+export function setBm25Weights(weights: Partial<Bm25Weights> | null): void {
+    activeWeights = weights ? { ...DEFAULT_BM25_WEIGHTS, ...weights } : null;
+}
+
+/**
+ * The bm25() call for a ranked query over `table`, with the weights inlined
+ * as numeric literals in column order.
+ */
+export function bm25Expression(table: string, weights: Bm25Weights = getBm25Weights()): string {
+    return `bm25(${table}, ${FTS_COLUMNS.map(c => weights[c]).join(', ')})`;
+}
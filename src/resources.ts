@@ -0,0 +1,53 @@
+/**
+ * MCP resource URIs for cached documents.
+ *
+ * Every page in documents_v2 is exposed as a resource so clients can attach
+ * docs directly as context instead of going through get_document:
+ *
+ *   https://mui.com/material-ui/react-button/  (version "v5")
+ *     → webscribe://v5/mui.com/material-ui/react-button/
+ *
+ * The path segment is the page's pathname (without the leading slash) plus
+ * its query string, exactly as stored, so the mapping is reversible.
+ */
+
+export const RESOURCE_SCHEME = 'webscribe:';
+export const RESOURCE_URI_TEMPLATE = 'webscribe://{version}/{domain}/{path}';
+export const RESOURCE_MIME_TYPE = 'text/markdown';
+
+export interface ResourceLocation {
+    version: string;
+    /** Host of the page, with the port when it isn't the scheme's default */
+    domain: string;
+    /** Pathname without the leading slash, plus query string */
+    path: string;
+}
+
+/**
+ * Builds the resource URI for a cached document URL+version.
+ */
+export function toResourceUri(url: string, version: string): string {
+    const u = new URL(url);
+    return `webscribe://${encodeURIComponent(version)}/${u.host}/${u.pathname.slice(1)}${u.search}`;
+}
+
+/**
+ * Splits a webscribe:// URI into its version, domain and path parts.
+ * Returns null for URIs that don't use the webscribe scheme or lack a domain.
+ */
+export function parseResourceUri(uri: string): ResourceLocation | null {
+    const prefix = RESOURCE_SCHEME + '//';
+    if (!uri.startsWith(prefix)) return null;
+
+    const rest = uri.slice(prefix.length);
+    const versionEnd = rest.indexOf('/');
+    if (versionEnd <= 0) return null;
+    const domainEnd = rest.indexOf('/', versionEnd + 1);
+
+    const version = decodeURIComponent(rest.slice(0, versionEnd));
+    const domain = rest.slice(versionEnd + 1, domainEnd === -1 ? undefined : domainEnd);
+    const path = domainEnd === -1 ? '' : rest.slice(domainEnd + 1);
+    if (!domain) return null;
+
+    return { version, domain, path };
+}
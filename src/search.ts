@@ -0,0 +1,231 @@
+/**
+ * Search modes over the chunk index.
+ *
+ * - lexical  — FTS5 BM25 (searchDocuments in db.ts), exact-term matching
+ * - semantic — cosine similarity between the query and chunk embeddings
+ * - hybrid   — both rankings merged with Reciprocal Rank Fusion, so a chunk
+ *              found by either retriever can surface, and chunks found by
+ *              both rank highest
+ *
+ * Chunk vectors are computed at crawl and import time. Chunks indexed before
+ * embeddings existed (or under a different provider) are back-filled here a
+ * bounded batch per query, so a query never embeds the whole corpus; until
+ * then they are left out of the semantic ranking and counted in `unembedded`.
+ */
+
+import {
+    searchDocuments,
+    countSearchMatches,
+    clampSearchLimit,
+    getChunksMissingEmbedding,
+    countChunksMissingEmbedding,
+    saveChunkEmbeddings,
+    getChunkEmbeddings,
+    getChunksByIds,
+    getMatchInfo,
+    clampSnippetTokens,
+} from './db.js';
+import type { SearchFilters, SearchResult, SnippetOptions, MatchInfo } from './db.js';
+import { getEmbeddingProvider, cosineSimilarity, reciprocalRankFusion } from './embeddings.js';
+import { parseSearchQuery } from './query.js';
+import { wantsDiversity, capPerDocument, mmrRerank } from './diversify.js';
+import type { DiversityOptions } from './diversify.js';
+
+export const SEARCH_MODES = ['lexical', 'semantic', 'hybrid'] as const;
+export type SearchMode = typeof SEARCH_MODES[number];
+
+export type SearchHit = SearchResult & MatchInfo & {
+    /** With max_per_document: further hits from this page that were folded into this one */
+    folded_hits?: number;
+};
+
+export interface SearchPage {
+    total: number;
+    offset: number;
+    limit: number;
+    results: SearchHit[];
+    /** Semantic/hybrid: filtered chunks left unranked because they have no embedding yet */
+    unembedded?: number;
+}
+
+const HYBRID_CANDIDATES = 100;
+// Diversification re-ranks a pool this many times deeper than the requested page
+const DIVERSITY_POOL_FACTOR = 5;
+const MAX_DIVERSITY_POOL = 500;
+const EMBED_BATCH_SIZE = 64;
+// Back-filled per semantic/hybrid query, so a query's embedding cost stays bounded
+const QUERY_EMBED_LIMIT = EMBED_BATCH_SIZE;
+// Keeps remote embedding requests within typical model input limits
+const MAX_EMBED_CHARS = 4000;
+
+/**
+ * Embeds chunks that have no vector yet for the active provider, optionally
+ * restricted to one URL+version and to at most `max` chunks. Returns the
+ * number embedded.
+ */
+export async function embedMissingChunks(url?: string, version?: string, max = Infinity): Promise<number> {
+    const provider = getEmbeddingProvider();
+    let total = 0;
+    while (total < max) {
+        const batch = getChunksMissingEmbedding(provider.id, Math.min(EMBED_BATCH_SIZE, max - total), url, version);
+        if (batch.length === 0) return total;
+
+        const vectors = await provider.embed(batch.map(c => embeddingText(c.heading_path, c.content)));
+        saveChunkEmbeddings(provider.id, batch.map((c, i) => ({ chunk_id: c.id, vector: vectors[i] })));
+        total += batch.length;
+    }
+    return total;
+}
+
+interface SemanticRanking {
+    ranked: Array<{ id: number; score: number }>;
+    /** Filtered chunks still without an embedding, which were not ranked */
+    unembedded: number;
+}
+
+/**
+ * Ranks every embedded filtered chunk with a positive cosine similarity to
+ * the query embedding, best first. `score` is the similarity in (0, 1].
+ * Back-fills at most QUERY_EMBED_LIMIT missing embeddings first.
+ */
+async function rankSemantic(query: string, filters: SearchFilters): Promise<SemanticRanking> {
+    // Embed only the positive terms: operators and -excluded words would
+    // otherwise pull the query vector towards what the user asked to avoid
+    const { text } = parseSearchQuery(query);
+    if (!text.trim()) return { ranked: [], unembedded: 0 };
+    await embedMissingChunks(undefined, undefined, QUERY_EMBED_LIMIT);
+
+    const provider = getEmbeddingProvider();
+    const [queryVector] = await provider.embed([text]);
+
+    const ranked = getChunkEmbeddings(provider.id, filters)
+        .map(e => ({ id: e.chunk_id, score: cosineSimilarity(queryVector, e.vector) }))
+        .filter(r => r.score > 0)
+        .sort((a, b) => b.score - a.score);
+    return { ranked, unembedded: countChunksMissingEmbedding(provider.id, filters) };
+}
+
+/**
+ * Searches the index with the requested mode and returns one page of results.
+ *
+ * `total` is the exact number of matching chunks in lexical mode. In semantic
+ * mode it counts chunks with any similarity to the query, and in hybrid mode
+ * the size of the fused candidate pool. Hybrid `score` is the RRF score, which
+ * is only meaningful relative to other results.
+ *
+ * With diversity options the ranking of a deeper candidate pool is re-ordered
+ * (MMR) and/or capped per page after ranking, and `total` counts the results
+ * left in that pool.
+ *
+ * Semantic and hybrid pages report `unembedded` when chunks matching the
+ * filters were skipped for lack of an embedding.
+ *
+ * Every hit carries a highlighted snippet plus the matched terms and their
+ * offsets in `content`; see withMatchInfo.
+ */
+export async function searchIndex(
+    query: string,
+    filters: SearchFilters = {},
+    mode: SearchMode = 'lexical',
+    snippet: SnippetOptions = {},
+    diversity: DiversityOptions = {},
+): Promise<SearchPage> {
+    const limit = clampSearchLimit(filters.limit);
+    const offset = Math.max(Math.floor(filters.offset ?? 0), 0);
+    const page = (total: number, results: SearchResult[], unembedded = 0): SearchPage => ({
+        total,
+        offset,
+        limit,
+        results: withMatchInfo(query, results, snippet),
+        ...(unembedded > 0 ? { unembedded } : {}),
+    });
+
+    if (wantsDiversity(diversity)) {
+        const pool = Math.min(Math.max(HYBRID_CANDIDATES, (offset + limit) * DIVERSITY_POOL_FACTOR), MAX_DIVERSITY_POOL);
+        const candidates = await rankCandidates(query, filters, mode, pool);
+        let ranked = candidates.results;
+        if (diversity.strategy === 'mmr') ranked = mmrRerank(ranked, diversity.mmr_lambda);
+        if (diversity.max_per_document) ranked = capPerDocument(ranked, diversity.max_per_document);
+        return page(ranked.length, ranked.slice(offset, offset + limit), candidates.unembedded);
+    }
+
+    if (mode === 'lexical') {
+        return page(countSearchMatches(query, filters), searchDocuments(query, { ...filters, limit, offset }));
+    }
+
+    if (mode === 'semantic') {
+        const { ranked, unembedded } = await rankSemantic(query, filters);
+        return page(ranked.length, hydrate(ranked.slice(offset, offset + limit)), unembedded);
+    }
+
+    // Each retriever contributes a candidate pool deeper than the requested page
+    const { ranked: fused, unembedded } = await rankHybrid(query, filters, Math.max(HYBRID_CANDIDATES, offset + limit));
+    return page(fused.length, hydrate(fused.slice(offset, offset + limit)), unembedded);
+}
+
+/**
+ * Merges the top `pool` lexical and semantic results with Reciprocal Rank Fusion.
+ */
+async function rankHybrid(query: string, filters: SearchFilters, pool: number): Promise<SemanticRanking> {
+    const lexical = searchDocuments(query, { ...filters, limit: pool, offset: 0 });
+    const semantic = await rankSemantic(query, filters);
+    return {
+        ranked: reciprocalRankFusion([
+            lexical.map(r => r.chunk_id),
+            semantic.ranked.slice(0, pool).map(r => r.id),
+        ]),
+        unembedded: semantic.unembedded,
+    };
+}
+
+/**
+ * Returns the top `pool` results for a mode with full rows, best first.
+ */
+async function rankCandidates(
+    query: string,
+    filters: SearchFilters,
+    mode: SearchMode,
+    pool: number,
+): Promise<{ results: SearchResult[]; unembedded: number }> {
+    if (mode === 'lexical') return { results: searchDocuments(query, { ...filters, limit: pool, offset: 0 }), unembedded: 0 };
+    const { ranked, unembedded } = mode === 'semantic' ? await rankSemantic(query, filters) : await rankHybrid(query, filters, pool);
+    return { results: hydrate(ranked.slice(0, pool)), unembedded };
+}
+
+/**
+ * Adds snippet, matched terms and match offsets to each result. Chunks with
+ * no lexical match (semantic-only hits) get the opening words of the chunk
+ * as their snippet and empty match lists.
+ */
+function withMatchInfo(query: string, results: SearchResult[], options: SnippetOptions): SearchHit[] {
+    const info = getMatchInfo(query, results.map(r => r.chunk_id), options);
+    return results.map(r => ({
+        ...r,
+        ...(info.get(r.chunk_id) ?? {
+            snippet: leadingWords(r.content, clampSnippetTokens(options.tokens), options.ellipsis ?? '…'),
+            matched_terms: [],
+            match_offsets: [],
+        }),
+    }));
+}
+
+function leadingWords(content: string, count: number, ellipsis: string): string {
+    const words = content.split(/\s+/).filter(Boolean);
+    return words.length > count ? words.slice(0, count).join(' ') + ellipsis : words.join(' ');
+}
+
+/**
+ * Loads full chunk rows for ranked ids, preserving the ranking order.
+ */
+function hydrate(ranked: Array<{ id: number; score: number }>): SearchResult[] {
+    const byId = new Map(getChunksByIds(ranked.map(r => r.id)).map(r => [r.chunk_id, r]));
+    return ranked.flatMap(({ id, score }) => {
+        const row = byId.get(id);
+        return row ? [{ ...row, score }] : [];
+    });
+}
+
+function embeddingText(headingPath: string[], content: string): string {
+    const text = headingPath.length ? `${headingPath.join(' > ')}\n\n${content}` : content;
+    return text.slice(0, MAX_EMBED_CHARS);
+}
@@ -0,0 +1,121 @@
+/**
+ * Section-level retrieval over stored chunks.
+ *
+ * A section is the chunk for one heading plus the chunks of all its
+ * subsections, which the chunker stores consecutively (by ordinal). Agents
+ * can widen the view a little at a time with `before`/`after` neighbour
+ * chunks instead of pulling the whole page with get_document.
+ */
+
+import { getDocument, getDocumentChunks, getChunksByIds } from './db.js';
+import type { DocumentChunk } from './db.js';
+
+export const MAX_NEIGHBOUR_CHUNKS = 20;
+
+export interface SectionRequest {
+    /** Chunk id from a search result; takes precedence over url + heading_path */
+    chunk_id?: number;
+    url?: string;
+    version?: string;
+    /** Heading breadcrumb of the section, e.g. ["Button", "Accessibility"] (case-insensitive) */
+    heading_path?: string[];
+    /** Number of chunks to include before the section (0–20) */
+    before?: number;
+    /** Number of chunks to include after the section (0–20) */
+    after?: number;
+}
+
+export interface Section {
+    url: string;
+    version: string;
+    title: string;
+    heading_path: string[];
+    /** The section's markdown, headings included */
+    markdown: string;
+    /** The chunks making up the section, in page order */
+    chunks: DocumentChunk[];
+    /** Up to `before` chunks immediately preceding the section */
+    before: DocumentChunk[];
+    /** Up to `after` chunks immediately following the section */
+    after: DocumentChunk[];
+    /** Total chunks on the page, so callers know how far they can widen */
+    page_chunk_count: number;
+}
+
+/**
+ * Finds a section by chunk id or by URL + heading path. Returns null when the
+ * page or heading isn't indexed; throws an Error for invalid arguments.
+ */
+export function getSection(request: SectionRequest): Section | null {
+    const before = clampNeighbours(request.before);
+    const after = clampNeighbours(request.after);
+
+    let url: string;
+    let version: string;
+    let headingPath: string[];
+    let chunks: DocumentChunk[];
+    let start: number;
+
+    if (request.chunk_id !== undefined) {
+        const [hit] = getChunksByIds([request.chunk_id]);
+        if (!hit) return null;
+        ({ url, version } = hit);
+        chunks = getDocumentChunks(url, version);
+        start = chunks.findIndex(c => c.chunk_id === request.chunk_id);
+        if (start === -1) return null;
+        headingPath = chunks[start].heading_path;
+    } else {
+        if (!request.url) throw new Error("chunk_id or url is required");
+        if (!request.heading_path?.length) throw new Error("heading_path is required when selecting a section by url");
+        url = request.url;
+        version = request.version || 'latest';
+        chunks = getDocumentChunks(url, version);
+        // A heading with no text of its own has no chunk, so match its first subsection
+        start = chunks.findIndex(c => isWithin(c.heading_path, request.heading_path!));
+        if (start === -1) return null;
+        headingPath = chunks[start].heading_path.slice(0, request.heading_path.length);
+    }
+
+    // A preamble chunk (no heading) has no subsections
+    let end = start + 1;
+    if (headingPath.length > 0) {
+        while (end < chunks.length && isWithin(chunks[end].heading_path, headingPath)) end++;
+    }
+
+    const section = chunks.slice(start, end);
+    return {
+        url,
+        version,
+        title: getDocument(url, version)?.title ?? url,
+        heading_path: headingPath,
+        markdown: renderChunks(section),
+        chunks: section,
+        before: chunks.slice(Math.max(start - before, 0), start),
+        after: chunks.slice(end, end + after),
+        page_chunk_count: chunks.length,
+    };
+}
+
+/**
+ * Renders chunks back to markdown, restoring each chunk's own heading line.
+ * Heading depth follows the breadcrumb length, which can differ from the
+ * original level when the page skipped levels.
+ */
+export function renderChunks(chunks: DocumentChunk[]): string {
+    return chunks
+        .map(c => c.heading_path.length
+            ? `${'#'.repeat(Math.min(c.heading_path.length, 6))} ${c.heading_path[c.heading_path.length - 1]}\n\n${c.content}`
+            : c.content)
+        .join('\n\n');
+}
+
+/** True when `path` equals `prefix` or is nested under it (case-insensitive). */
+function isWithin(path: string[], prefix: string[]): boolean {
+    return prefix.length <= path.length &&
+        prefix.every((heading, i) => heading.trim().toLowerCase() === path[i].trim().toLowerCase());
+}
+
+function clampNeighbours(n: number | undefined): number {
+    if (!n || !Number.isFinite(n)) return 0;
+    return Math.min(Math.max(Math.floor(n), 0), MAX_NEIGHBOUR_CHUNKS);
+}
@@ -0,0 +1,1613 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+    CallToolRequestSchema,
+    ListToolsRequestSchema,
+    ListResourcesRequestSchema,
+    ListResourceTemplatesRequestSchema,
+    ReadResourceRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import type {
+    CallToolRequest,
+    ListResourcesRequest,
+    ReadResourceRequest,
+    ServerNotification,
+    ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+    runCrawler,
+    crawlComponentDocs,
+    extractSinglePage,
+    searchLocalDatasets,
+    refreshStale,
+    DEFAULT_REFRESH_LIMIT,
+    MAX_REFRESH_LIMIT,
+} from "./crawler.js";
+import type { CrawlProgress } from "./crawler.js";
+import {
+    getDocument,
+    getDocumentCount,
+    getChunkCount,
+    listDocuments,
+    listDocumentUrls,
+    listDomainDocuments,
+    getDocumentChunks,
+    onDocumentChange,
+    listSources,
+    deleteDocument,
+    purgeDomain,
+    purgeVersion,
+    maintainIndex,
+    getTombstone,
+    listCollections,
+    withCollection,
+    getActiveCollection,
+    DEFAULT_COLLECTION,
+    searchCodeExamples,
+    countCodeExampleMatches,
+    clampSearchLimit,
+    DEFAULT_SEARCH_LIMIT,
+    MAX_SEARCH_LIMIT,
+} from "./db.js";
+import { startCrawlJob, getCrawlJob, listCrawlJobs, cancelCrawlJob } from "./jobs.js";
+import { resolveToolPath } from "./exportroot.js";
+import type { CrawlJob } from "./jobs.js";
+import { SEARCH_MODES } from "./search.js";
+import { DIVERSIFY_STRATEGIES, DEFAULT_MMR_LAMBDA } from "./diversify.js";
+import type { DiversifyStrategy } from "./diversify.js";
+import { getSection, MAX_NEIGHBOUR_CHUNKS } from "./sections.js";
+import { buildOutline, groupByPath } from "./outline.js";
+import { getDocumentHistory, diffDocument } from "./history.js";
+import { DEFAULT_CONTEXT_LINES } from "./diff.js";
+import { compareVersionPages, renderComparison } from "./versions.js";
+import { exportIndex, importIndex } from "./bundle.js";
+import { buildLlmsTxt, writeLlmsTxt, LLMS_ORDERS } from "./llmstxt.js";
+import type { LlmsOrder } from "./llmstxt.js";
+import { discoverSitemapUrls } from "./sitemap.js";
+import { buildMarkdownTree, writeMarkdownTree } from "./mdtree.js";
+import { parseDuration } from "./staleness.js";
+import { buildContext, DEFAULT_CONTEXT_TOKENS, MIN_CONTEXT_TOKENS, MAX_CONTEXT_TOKENS } from "./context.js";
+import type { SearchMode } from "./search.js";
+import {
+    toResourceUri,
+    parseResourceUri,
+    RESOURCE_URI_TEMPLATE,
+    RESOURCE_MIME_TYPE,
+} from "./resources.js";
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// ── Server factory ─────────────────────────────────────────────────────────────
+
+/**
+ * Builds an MCP server with every WebScribe tool registered.
+ *
+ * A Server can only be connected to one transport at a time, so stdio mode
+ * creates a single instance while HTTP mode creates one per client session.
+ * All instances share the process-wide SQLite connections from db.ts.
+ * Resources come from the collection active when the server is created, so
+ * only writes to that collection change the resource list.
+ */
+export function createServer(options: ServerOptions = {}): Server {
+    const server = new Server(
+        { name: "universal-docs-mcp", version: "2.0.0" },
+        {
+            capabilities: { tools: {}, resources: { listChanged: true } },
+            // A crawl writes many pages in a row; coalesce same-tick notifications
+            debouncedNotificationMethods: ["notifications/resources/list_changed"],
+        }
+    );
+    server.setRequestHandler(ListToolsRequestSchema, listTools);
+    server.setRequestHandler(CallToolRequestSchema, (request, extra) => callToolInCollection(server, request, extra));
+    server.setRequestHandler(ListResourcesRequestSchema, listResources);
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, listResourceTemplates);
+    server.setRequestHandler(ReadResourceRequestSchema, readResource);
+
+    const collection = getActiveCollection();
+    const unsubscribe = onDocumentChange((_url, _version, changed) => {
+        if (changed !== collection) return;
+        server.sendResourceListChanged().catch(() => { /* not connected yet / already closed */ });
+    });
+    server.onclose = unsubscribe;
+    if (options.remote) remoteServers.add(server);
+    return server;
+}
+
+export interface ServerOptions {
+    /** Serving HTTP clients: tools only accept file paths inside a configured export root */
+    remote?: boolean;
+}
+
+const remoteServers = new WeakSet<Server>();
+
+// ── Resources ──────────────────────────────────────────────────────────────────
+
+const RESOURCES_PAGE_SIZE = 500;
+
+async function listResources(request: ListResourcesRequest) {
+    const offset = Number(request.params?.cursor ?? 0) || 0;
+    const docs = listDocuments(RESOURCES_PAGE_SIZE + 1, offset);
+    const page = docs.slice(0, RESOURCES_PAGE_SIZE);
+    return {
+        resources: page.map(doc => ({
+            uri: toResourceUri(doc.url, doc.version),
+            name: doc.title || doc.url,
+            description: `${doc.url} (version: ${doc.version}, crawled: ${doc.timestamp})`,
+            mimeType: RESOURCE_MIME_TYPE,
+        })),
+        nextCursor: docs.length > RESOURCES_PAGE_SIZE ? String(offset + RESOURCES_PAGE_SIZE) : undefined,
+    };
+}
+
+async function listResourceTemplates() {
+    return {
+        resourceTemplates: [{
+            uriTemplate: RESOURCE_URI_TEMPLATE,
+            name: "Cached documentation page",
+            description: "Markdown of a page in the local documentation index, addressed by version, domain and URL path.",
+            mimeType: RESOURCE_MIME_TYPE,
+        }],
+    };
+}
+
+async function readResource(request: ReadResourceRequest) {
+    const { uri } = request.params;
+    const location = parseResourceUri(uri);
+    if (!location) throw new Error(`Not a webscribe:// resource URI: ${uri}`);
+
+    // Pages are stored by hostname; the URI's domain keeps any port
+    const hostname = location.domain.replace(/:\d+$/, '');
+    const url = listDocumentUrls(hostname, location.version)
+        .find(u => toResourceUri(u, location.version) === uri);
+    const doc = url ? getDocument(url, location.version) : null;
+    if (!doc) throw new Error(`No cached document found for resource: ${uri}`);
+
+    return {
+        contents: [{ uri, mimeType: RESOURCE_MIME_TYPE, text: doc.markdown }],
+    };
+}
+
+// ── Progress notifications ─────────────────────────────────────────────────────
+
+function formatProgress(p: CrawlProgress): string {
+    return `${p.done} pages done, ${p.queued} queued, ${p.failed} failed`;
+}
+
+/**
+ * Returns an onProgress hook that forwards crawl progress to the client as
+ * `notifications/progress`, or undefined if the client sent no progressToken.
+ * The notification is tied to the in-flight tool call, which keeps clients
+ * that reset their timeout on progress from giving up on long crawls.
+ */
+function progressReporter(
+    request: CallToolRequest,
+    extra: ToolExtra,
+    maxPages: number,
+): ((p: CrawlProgress) => void) | undefined {
+    const progressToken = request.params._meta?.progressToken;
+    if (progressToken === undefined) return undefined;
+    return (p) => {
+        extra.sendNotification({
+            method: "notifications/progress",
+            params: { progressToken, progress: p.done, total: maxPages, message: formatProgress(p) },
+        }).catch(() => { });
+    };
+}
+
+/**
+ * Like progressReporter, for a background job that outlives the start_crawl
+ * call: progress goes out as plain server notifications on the call's
+ * progressToken, and stops once the client has disconnected.
+ */
+function jobProgressReporter(
+    server: Server,
+    request: CallToolRequest,
+    maxPages: number,
+): ((job: CrawlJob) => void) | undefined {
+    const progressToken = request.params._meta?.progressToken;
+    if (progressToken === undefined) return undefined;
+    return (job) => {
+        if (!server.transport) return;
+        server.notification({
+            method: "notifications/progress",
+            params: { progressToken, progress: job.progress.done, total: maxPages, message: formatProgress(job.progress) },
+        }).catch(() => { });
+    };
+}
+
+// ── Tool definitions ───────────────────────────────────────────────────────────
+
+// Code examples are long, so a page holds fewer of them than search results
+const DEFAULT_CODE_EXAMPLE_LIMIT = 10;
+// Heading depth of a site-wide table of contents (page title + top sections)
+const SITE_TOC_DEPTH = 2;
+
+// Tools that don't read or write the index take no `collection` argument
+const COLLECTION_FREE_TOOLS = new Set(["get_crawl_status", "list_crawl_jobs", "cancel_crawl", "list_collections"]);
+
+const COLLECTION_PARAM = {
+    type: "string",
+    description: `Named index to use (see list_collections). Defaults to the server's collection ('${DEFAULT_COLLECTION}' unless configured).`,
+};
+
+async function listTools() {
+    return {
+        tools: [
+            {
+                name: "read_and_extract_page",
+                description: [
+                    "Visits a single page, strips nav/footer, converts to Markdown, caches it, and returns the Markdown.",
+                    "Automatically detects the site framework (Docusaurus, VitePress, MkDocs, ReadTheDocs, etc.)",
+                    "and uses the optimal CSS selectors. Code blocks are returned with explicit language tags.",
+                ].join(" "),
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        url: { type: "string" },
+                        version: {
+                            type: "string",
+                            description: "The targeted version of the documentation (e.g., 'latest', 'v1', 'v2'). Defaults to 'latest'.",
+                        },
+                    },
+                    required: ["url"],
+                },
+            },
+            {
+                name: "crawl_documentation_site",
+                description: [
+                    "Starts a queue at the given URL, extracts all links matching the base domain,",
+                    "visits up to max_pages, converts each to Markdown, and saves them to a local dataset.",
+                    "Tries sitemap.xml discovery first for more comprehensive URL seeding.",
+                    "Respects robots.txt rules and enforces crawl-delay between requests.",
+                    "Automatically expands sub-tabs (/usage, /examples, /accessibility, /api) for every",
+                    "component page discovered — works with any SPA or static docs site.",
+                    "Skips pages that haven't changed since the last crawl (ETag/Last-Modified).",
+                    "Use url_glob to restrict crawling to a specific path (e.g. '**/components/**').",
+                    "Returns a summary of URLs successfully crawled.",
+                ].join(" "),
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        start_url: { type: "string" },
+                        max_pages: { type: "number", default: 10 },
+                        version: {
+                            type: "string",
+                            description: "The targeted version of the documentation (e.g., 'latest', 'v1', 'v2'). Defaults to 'latest'.",
+                        },
+                        url_glob: {
+                            type: "string",
+                            description: "Optional path filter. Example: '**/components/**' only crawls pages under /components/.",
+                        },
+                        expand_tabs: {
+                            type: "boolean",
+                            description: "When true (default), enqueues /usage, /examples, /accessibility, /api, /props, /code sub-tab variants.",
+                            default: true,
+                        },
+                    },
+                    required: ["start_url"],
+                },
+            },
+            {
+                name: "crawl_component_docs",
+                description: [
+                    "Smart crawler for component index pages (e.g. /components/ on any design system).",
+                    "Opens the index page, discovers all component links one level deep,",
+                    "then crawls every component + its sub-tab pages concurrently (3 pages at once).",
+                    "Works generically for Salt DS, MUI, Ant Design, Chakra, and any similar docs site.",
+                    "Returns a list of all successfully crawled URLs.",
+                ].join(" "),
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        index_url: {
+                            type: "string",
+                            description: "URL of the component listing page, e.g. https://saltdesignsystem.com/salt/components/",
+                        },
+                        max_pages: { type: "number", default: 200 },
+                        version: {
+                            type: "string",
+                            description: "The targeted version of the documentation (e.g., 'latest', 'v1', 'v2'). Defaults to 'latest'.",
+                        },
+                    },
+                    required: ["index_url"],
+                },
+            },
+            {
+                name: "search_crawled_docs",
+                description: [
+                    "Searches the local SQLite dataset using FTS5 full-text search (BM25 ranking).",
+                    "Returns a structured JSON array of matching chunks — each with chunk_id, url, title, heading_path,",
+                    "a highlighted snippet, the matched terms, and relevance score. heading_path gives the full breadcrumb context",
+                    "(e.g. [\"Authentication\", \"OAuth2 Flow\"]) so agents know exactly where the content sits.",
+                    "Filter by version, domain, url_prefix or heading_contains (all applied in SQL), and page",
+                    "through results with limit/offset — the response includes the total match count.",
+                    "Full chunk content is omitted unless full_content is true, so many results fit in little context.",
+                    "Set mode to 'semantic' (embedding similarity) or 'hybrid' (BM25 + embeddings merged with",
+                    "reciprocal rank fusion) to also find chunks that describe the concept in different words;",
+                    "chunks not embedded yet are left out and counted in unembedded.",
+                    "Use max_per_document and/or diversify 'mmr' to stop one long page filling every result.",
+                ].join(" "),
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        query: {
+                            type: "string",
+                            description: "Search terms (all must match). Supports \"exact phrase\", prefix* , -excluded, a OR b, NEAR(a b, 5) and a NEAR/5 b.",
+                        },
+                        version: {
+                            type: "string",
+                            description: "Explicitly filter search results to a specific documentation version (e.g., 'v17').",
+                        },
+                        domain: {
+                            type: "string",
+                            description: "Only return chunks from this hostname (e.g., 'mui.com').",
+                        },
+                        url_prefix: {
+                            type: "string",
+                            description: "Only return chunks from pages whose URL starts with this prefix (e.g., 'https://mui.com/material-ui/').",
+                        },
+                        heading_contains: {
+                            type: "string",
+                            description: "Only return chunks whose heading breadcrumb contains this text (case-insensitive).",
+                        },
+                        limit: {
+                            type: "number",
+                            description: `Maximum results to return (default ${DEFAULT_SEARCH_LIMIT}, max ${MAX_SEARCH_LIMIT}).`,
+                            default: DEFAULT_SEARCH_LIMIT,
+                        },
+                        offset: {
+                            type: "number",
+                            description: "Number of ranked results to skip, for paging. Defaults to 0.",
+                            default: 0,
+                        },
+                        full_content: {
+                            type: "boolean",
+                            description: "Include each chunk's full content and match_offsets into it. Defaults to false (snippet only).",
+                            default: false,
+                        },
+                        snippet_tokens: {
+                            type: "number",
+                            description: "Approximate snippet length in tokens (1–64). Defaults to 24.",
+                            default: 24,
+                        },
+                        highlight_start: {
+                            type: "string",
+                            description: "Marker inserted before each matched term in the snippet. Defaults to '**'.",
+                        },
+                        highlight_end: {
+                            type: "string",
+                            description: "Marker inserted after each matched term in the snippet. Defaults to '**'.",
+                        },
+                        mode: {
+                            type: "string",
+                            enum: [...SEARCH_MODES],
+                            description: "'lexical' (default, BM25), 'semantic' (embeddings) or 'hybrid' (both, fused).",
+                            default: "lexical",
+                        },
+                        max_per_document: {
+                            type: "number",
+                            description: "Return at most this many chunks per page. The best chunk of each page reports the rest as folded_hits.",
+                        },
+                        diversify: {
+                            type: "string",
+                            enum: [...DIVERSIFY_STRATEGIES],
+                            description: "'mmr' re-ranks results so near-duplicate and same-page chunks don't crowd the top. Defaults to 'none'.",
+                            default: "none",
+                        },
+                        mmr_lambda: {
+                            type: "number",
+                            description: `With diversify 'mmr': 1 favours relevance only, 0 diversity only. Defaults to ${DEFAULT_MMR_LAMBDA}.`,
+                            default: DEFAULT_MMR_LAMBDA,
+                        },
+                    },
+                    required: ["query"],
+                },
+            },
+            {
+                name: "search_code_examples",
+                description: [
+                    "Searches only the fenced code blocks extracted from indexed pages — use it for",
+                    "'show me an example of X' questions. Each result is a complete, runnable snippet with its",
+                    "language, the heading breadcrumb it appears under, the sentence that introduces it and the",
+                    "source URL. Same query syntax as search_crawled_docs.",
+                ].join(" "),
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        query: {
+                            type: "string",
+                            description: "What the example should show, e.g. 'useQuery pagination' or 'tooltip placement'.",
+                        },
+                        language: {
+                            type: "string",
+                            description: "Only return blocks in this language, e.g. 'tsx', 'python' or 'bash' ('ts', 'js', 'py' and 'sh' aliases are accepted).",
+                        },
+                        version: {
+                            type: "string",
+                            description: "Only search this documentation version.",
+                        },
+                        domain: {
+                            type: "string",
+                            description: "Only return examples from this hostname.",
+                        },
+                        url_prefix: {
+                            type: "string",
+                            description: "Only return examples from pages whose URL starts with this prefix.",
+                        },
+                        limit: {
+                            type: "number",
+                            description: `Maximum results to return (default ${DEFAULT_CODE_EXAMPLE_LIMIT}, max ${MAX_SEARCH_LIMIT}).`,
+                            default: DEFAULT_CODE_EXAMPLE_LIMIT,
+                        },
+                        offset: {
+                            type: "number",
+                            description: "Number of ranked results to skip, for paging. Defaults to 0.",
+                            default: 0,
+                        },
+                    },
+                    required: ["query"],
+                },
+            },
+            {
+                name: "build_context",
+                description: [
+                    "Answers-first retrieval: searches the index for a natural-language question and returns one",
+                    "markdown block of the most relevant sections that fits within max_tokens, with numbered",
+                    "citations ([1] url#heading). Near-duplicate chunks are dropped and the best hits are expanded",
+                    "to their parent sections while the budget allows. Prefer this over search_crawled_docs +",
+                    "get_document when you need context to answer a question.",
+                ].join(" "),
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        question: {
+                            type: "string",
+                            description: "The question to gather documentation for.",
+                        },
+                        max_tokens: {
+                            type: "number",
+                            description: `Token budget for the packed markdown (${MIN_CONTEXT_TOKENS}–${MAX_CONTEXT_TOKENS}, estimated). Defaults to ${DEFAULT_CONTEXT_TOKENS}.`,
+                            default: DEFAULT_CONTEXT_TOKENS,
+                        },
+                        version: {
+                            type: "string",
+                            description: "Only use this documentation version.",
+                        },
+                        domain: {
+                            type: "string",
+                            description: "Only use pages from this hostname.",
+                        },
+                        url_prefix: {
+                            type: "string",
+                            description: "Only use pages whose URL starts with this prefix.",
+                        },
+                        mode: {
+                            type: "string",
+                            enum: [...SEARCH_MODES],
+                            description: "Search mode. Defaults to 'hybrid', which suits natural-language questions best.",
+                            default: "hybrid",
+                        },
+                    },
+                    required: ["question"],
+                },
+            },
+            {
+                name: "get_document",
+                description: [
+                    "Retrieves the full cached Markdown for a specific URL and version.",
+                    "Use this after search_crawled_docs to fetch the complete page content",
+                    "when a matched chunk alone is insufficient context.",
+                ].join(" "),
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        url: { type: "string" },
+                        version: {
+                            type: "string",
+                            description: "Documentation version. Defaults to 'latest'.",
+                        },
+                    },
+                    required: ["url"],
+                },
+            },
+            {
+                name: "get_section",
+                description: [
+                    "Returns one section of a cached page — the chunk for a heading plus all its subsections —",
+                    "selected by chunk_id (from search results) or by url + heading_path. Use before/after to add",
+                    "a few neighbouring chunks at a time instead of fetching the whole page with get_document.",
+                ].join(" "),
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        chunk_id: {
+                            type: "number",
+                            description: "chunk_id of a search result. Takes precedence over url + heading_path.",
+                        },
+                        url: { type: "string" },
+                        version: {
+                            type: "string",
+                            description: "Documentation version. Defaults to 'latest'.",
+                        },
+                        heading_path: {
+                            type: "array",
+                            items: { type: "string" },
+                            description: "Heading breadcrumb of the section, e.g. [\"Button\", \"Accessibility\"] (case-insensitive).",
+                        },
+                        before: {
+                            type: "number",
+                            description: `Neighbouring chunks to include before the section (0–${MAX_NEIGHBOUR_CHUNKS}). Defaults to 0.`,
+                            default: 0,
+                        },
+                        after: {
+                            type: "number",
+                            description: `Neighbouring chunks to include after the section (0–${MAX_NEIGHBOUR_CHUNKS}). Defaults to 0.`,
+                            default: 0,
+                        },
+                    },
+                },
+            },
+            {
+                name: "get_document_outline",
+                description: [
+                    "Returns the heading tree of a cached page — each section with its chunk ids and its size in",
+                    "characters and estimated tokens (subsections included) — so an agent can see what a page covers",
+                    "and pick sections to fetch with get_section. Pass domain instead of url for a site-wide table of",
+                    "contents: every cached page of the domain with its outline, grouped by URL path.",
+                ].join(" "),
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        url: {
+                            type: "string",
+                            description: "Outline a single page.",
+                        },
+                        domain: {
+                            type: "string",
+                            description: "Outline every cached page of this hostname instead (e.g. 'mui.com').",
+                        },
+                        version: {
+                            type: "string",
+                            description: "Documentation version. Defaults to 'latest'.",
+                        },
+                        url_prefix: {
+                            type: "string",
+                            description: "With domain: only include pages whose URL starts with this prefix.",
+                        },
+                        max_depth: {
+                            type: "number",
+                            description: `Deepest heading level to include. Defaults to all levels for a page and ${SITE_TOC_DEPTH} for a domain.`,
+                        },
+                    },
+                },
+            },
+            {
+                name: "get_document_history",
+                description: [
+                    "Lists the stored revisions of a cached page, newest first: when each was crawled, its content",
+                    "hash and size, and how many lines changed since the revision before. A revision is stored each",
+                    "time a re-crawl changes the page. Pass revision ids to diff_document to see what changed.",
+                ].join(" "),
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        url: { type: "string" },
+                        version: {
+                            type: "string",
+                            description: "Documentation version. Defaults to 'latest'.",
+                        },
+                    },
+                    required: ["url"],
+                },
+            },
+            {
+                name: "diff_document",
+                description: [
+                    "Returns a unified diff of a cached page's markdown between two stored revisions. Without",
+                    "revision ids it shows what the most recent re-crawl changed — e.g. a breaking change in an API page.",
+                ].join(" "),
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        url: { type: "string" },
+                        version: {
+                            type: "string",
+                            description: "Documentation version. Defaults to 'latest'.",
+                        },
+                        from: {
+                            type: "number",
+                            description: "Older revision_id (from get_document_history). Defaults to the revision before 'to'.",
+                        },
+                        to: {
+                            type: "number",
+                            description: "Newer revision_id. Defaults to the current revision.",
+                        },
+                        context_lines: {
+                            type: "number",
+                            description: `Unchanged lines shown around each change. Defaults to ${DEFAULT_CONTEXT_LINES}.`,
+                            default: DEFAULT_CONTEXT_LINES,
+                        },
+                    },
+                    required: ["url"],
+                },
+            },
+            {
+                name: "compare_versions",
+                description: [
+                    "Compares two crawled versions of a documentation site (e.g. 'v4' and 'v5'). Pages are matched by",
+                    "URL path ignoring version segments like /v4/; the report lists pages added, removed and changed,",
+                    "with section-level diffs of changed pages — a starting point for migration notes. Returns a",
+                    "markdown report followed by a JSON summary.",
+                ].join(" "),
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        domain: {
+                            type: "string",
+                            description: "Hostname crawled under both versions, e.g. 'mui.com'.",
+                        },
+                        from_version: {
+                            type: "string",
+                            description: "The older version label, e.g. 'v4'.",
+                        },
+                        to_version: {
+                            type: "string",
+                            description: "The newer version label, e.g. 'v5'.",
+                        },
+                        path_prefix: {
+                            type: "string",
+                            description: "Only compare pages whose path (version segments removed) starts with this, e.g. '/components/'.",
+                        },
+                        include_diffs: {
+                            type: "boolean",
+                            description: "Include unified diffs of changed sections. Defaults to true.",
+                            default: true,
+                        },
+                        context_lines: {
+                            type: "number",
+                            description: `Unchanged lines shown around each change. Defaults to ${DEFAULT_CONTEXT_LINES}.`,
+                            default: DEFAULT_CONTEXT_LINES,
+                        },
+                    },
+                    required: ["domain", "from_version", "to_version"],
+                },
+            },
+            {
+                name: "export_llms_txt",
+                description: [
+                    "Builds an llms.txt (title, summary, link sections grouped by URL path — see llmstxt.org) and an",
+                    "llms-full.txt (every page's cleaned markdown) from the cached pages of one domain and version, with",
+                    "estimated token counts per section. Writes both files when output_dir is given; otherwise returns",
+                    "llms.txt inline. Either way a JSON summary follows.",
+                ].join(" "),
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        domain: {
+                            type: "string",
+                            description: "Hostname of the crawled site, e.g. 'mui.com'.",
+                        },
+                        version: {
+                            type: "string",
+                            description: "Documentation version. Defaults to 'latest'.",
+                        },
+                        url_prefix: {
+                            type: "string",
+                            description: "Only include pages whose URL starts with this, e.g. 'https://mui.com/material-ui/'.",
+                        },
+                        title: {
+                            type: "string",
+                            description: "H1 title. Defaults to '<domain> documentation'.",
+                        },
+                        summary: {
+                            type: "string",
+                            description: "Blockquote summary. Defaults to the first sentence of the first page.",
+                        },
+                        order: {
+                            type: "string",
+                            enum: [...LLMS_ORDERS],
+                            description: [
+                                "Page order: 'sitemap' fetches the site's live sitemap.xml (falling back to link order",
+                                "when there is none); 'links' follows the links between cached pages from the site root.",
+                            ].join(" "),
+                            default: "sitemap",
+                        },
+                        output_dir: {
+                            type: "string",
+                            description: "Directory to write llms.txt and llms-full.txt into (created if needed), relative to the server's export root.",
+                        },
+                    },
+                    required: ["domain"],
+                },
+            },
+            {
+                name: "export_markdown_tree",
+                description: [
+                    "Writes every cached page of a domain and version to a directory as markdown files whose paths mirror",
+                    "the URL paths (e.g. /docs/guides/theming → docs/guides/theming.md), each with YAML front matter (url,",
+                    "title, version, crawl time, etag), plus an index.md linking them all. Links between cached pages become",
+                    "relative .md links. Existing files at the same paths are overwritten.",
+                ].join(" "),
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        domain: {
+                            type: "string",
+                            description: "Hostname of the crawled site, e.g. 'mui.com'.",
+                        },
+                        version: {
+                            type: "string",
+                            description: "Documentation version. Defaults to 'latest'.",
+                        },
+                        output_dir: {
+                            type: "string",
+                            description: "Directory to write into (created if needed), relative to the server's export root (by default its working directory).",
+                        },
+                        url_prefix: {
+                            type: "string",
+                            description: "Only include pages whose URL starts with this, e.g. 'https://mui.com/material-ui/'.",
+                        },
+                    },
+                    required: ["domain", "output_dir"],
+                },
+            },
+            {
+                name: "start_crawl",
+                description: [
+                    "Starts a crawl as a background job and returns its job_id immediately, so large crawls",
+                    "don't hit client-side tool-call timeouts. kind 'site' behaves like crawl_documentation_site,",
+                    "kind 'components' like crawl_component_docs (url is then the component index page).",
+                    "If the request carries a progressToken, progress (pages done, queued, failed) is streamed",
+                    "as MCP progress notifications until the job ends. Poll with get_crawl_status; stop with cancel_crawl.",
+                ].join(" "),
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        url: { type: "string", description: "Start URL (site) or component index URL (components)." },
+                        kind: { type: "string", enum: ["site", "components"], default: "site" },
+                        max_pages: { type: "number", description: "Defaults to 10 for 'site' and 200 for 'components'." },
+                        version: {
+                            type: "string",
+                            description: "The targeted version of the documentation (e.g., 'latest', 'v1', 'v2'). Defaults to 'latest'.",
+                        },
+                        url_glob: {
+                            type: "string",
+                            description: "Optional path filter for 'site' crawls. Example: '**/components/**'.",
+                        },
+                        expand_tabs: {
+                            type: "boolean",
+                            description: "For 'site' crawls: enqueue /usage, /examples, /api, … sub-tab variants. Defaults to true.",
+                            default: true,
+                        },
+                    },
+                    required: ["url"],
+                },
+            },
+            {
+                name: "get_crawl_status",
+                description: "Returns the status, progress (pages done, queued, failed) and, once finished, the crawled URLs of a background crawl job.",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        job_id: { type: "string" },
+                    },
+                    required: ["job_id"],
+                },
+            },
+            {
+                name: "list_crawl_jobs",
+                description: "Lists running and recently finished background crawl jobs with their status and progress.",
+                inputSchema: {
+                    type: "object",
+                    properties: {},
+                },
+            },
+            {
+                name: "cancel_crawl",
+                description: [
+                    "Cancels a running background crawl job. The crawler stops before its next page,",
+                    "closes its browser and keeps every page stored so far.",
+                ].join(" "),
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        job_id: { type: "string" },
+                    },
+                    required: ["job_id"],
+                },
+            },
+            {
+                name: "refresh_stale",
+                description: [
+                    "Re-syncs cached pages older than their domain's TTL (WEBSCRIBE_STALE_TTL, default 7d), oldest first.",
+                    "Each page is checked against the live site by ETag / Last-Modified and only changed pages are",
+                    "re-extracted. Reports refreshed, unchanged, gone (404/410) and failed pages; unchanged pages start",
+                    "a new TTL. With tombstone=true gone pages are removed from the index and remembered as gone.",
+                ].join(" "),
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        domain: { type: "string", description: "Only refresh this domain, e.g. 'mui.com'." },
+                        version: { type: "string", description: "Only refresh this version label." },
+                        ttl: {
+                            type: "string",
+                            description: "Treat pages older than this as stale, for every domain, e.g. '12h' or '30d'. Defaults to the configured policy.",
+                        },
+                        limit: {
+                            type: "number",
+                            description: `Most pages to check in this call (default ${DEFAULT_REFRESH_LIMIT}, max ${MAX_REFRESH_LIMIT}); call again for the rest.`,
+                        },
+                        tombstone: {
+                            type: "boolean",
+                            description: "Remove gone pages (and their chunks) from the index, leaving a tombstone. Defaults to false.",
+                            default: false,
+                        },
+                    },
+                },
+            },
+            {
+                name: "get_index_stats",
+                description: "Returns the total number of pages and chunks in the local documentation index.",
+                inputSchema: {
+                    type: "object",
+                    properties: {},
+                },
+            },
+            {
+                name: "list_sources",
+                description: [
+                    "Lists every indexed documentation source grouped by domain and version,",
+                    "with page count, chunk count and the time of the most recent crawl.",
+                ].join(" "),
+                inputSchema: {
+                    type: "object",
+                    properties: {},
+                },
+            },
+            {
+                name: "list_collections",
+                description: [
+                    "Lists the named indexes (collections) — each a separate SQLite file — with their page and",
+                    "chunk counts, size and last crawl time. Pass a collection name to any other tool to use it;",
+                    "a collection is created the first time something is crawled into it.",
+                ].join(" "),
+                inputSchema: {
+                    type: "object",
+                    properties: {},
+                },
+            },
+            {
+                name: "delete_document",
+                description: "Removes a single cached page (and its search chunks) from the index.",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        url: { type: "string" },
+                        version: {
+                            type: "string",
+                            description: "Documentation version. Defaults to 'latest'.",
+                        },
+                    },
+                    required: ["url"],
+                },
+            },
+            {
+                name: "purge_domain",
+                description: [
+                    "Removes every cached page (and its search chunks) for a domain, e.g. 'mui.com'.",
+                    "Optionally restrict the purge to a single version.",
+                ].join(" "),
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        domain: { type: "string" },
+                        version: {
+                            type: "string",
+                            description: "Only purge this version of the domain. Omit to purge all versions.",
+                        },
+                    },
+                    required: ["domain"],
+                },
+            },
+            {
+                name: "purge_version",
+                description: "Removes every cached page (and its search chunks) stored under a version label, across all domains.",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        version: { type: "string" },
+                    },
+                    required: ["version"],
+                },
+            },
+            {
+                name: "maintain_index",
+                description: [
+                    "Checks and repairs the index: enables foreign keys, deletes orphaned chunks, embeddings, code examples",
+                    "and revisions, runs FTS5 integrity-check, rebuild and optimize, then VACUUMs and reports the database",
+                    "size before and after. Can take a while on large indexes; searches wait until it finishes.",
+                ].join(" "),
+                inputSchema: {
+                    type: "object",
+                    properties: {},
+                },
+            },
+            {
+                name: "export_index",
+                description: [
+                    "Writes cached pages — markdown, chunks, crawl time and cache headers — to a portable JSONL bundle",
+                    "that teammates can load with import_index instead of re-crawling. Optionally only one domain and/or version.",
+                ].join(" "),
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        path: {
+                            type: "string",
+                            description: "Bundle file to write, e.g. 'design-system.webscribe.jsonl', relative to the server's export root (by default its working directory).",
+                        },
+                        domain: { type: "string", description: "Only export this domain, e.g. 'mui.com'." },
+                        version: { type: "string", description: "Only export this version label." },
+                    },
+                    required: ["path"],
+                },
+            },
+            {
+                name: "import_index",
+                description: [
+                    "Merges a bundle written by export_index into the index. Pages are matched by (url, version) and",
+                    "whichever copy was crawled later is kept; imported chunks are re-indexed for search.",
+                    "A malformed or truncated bundle is rejected before anything is written.",
+                ].join(" "),
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        path: { type: "string", description: "Bundle file to read, relative to the server's export root." },
+                    },
+                    required: ["path"],
+                },
+            },
+        ].map(tool => COLLECTION_FREE_TOOLS.has(tool.name) ? tool : {
+            ...tool,
+            inputSchema: { ...tool.inputSchema, properties: { ...tool.inputSchema.properties, collection: COLLECTION_PARAM } },
+        }),
+    };
+}
+
+// ── Tool execution ─────────────────────────────────────────────────────────────
+
+/**
+ * Runs a tool call against the collection it names, or the server's default.
+ * Background work it starts (crawl jobs) stays in that collection.
+ */
+async function callToolInCollection(server: Server, request: CallToolRequest, extra: ToolExtra) {
+    const collection = request.params.arguments?.collection;
+    try {
+        if (collection !== undefined && typeof collection !== "string") throw new Error("collection must be a string");
+        return await withCollection(collection, () => callTool(server, request, extra));
+    } catch (err: unknown) {
+        return toolError(err);
+    }
+}
+
+async function callTool(server: Server, request: CallToolRequest, extra: ToolExtra) {
+    try {
+        const args = request.params.arguments ?? {};
+
+        // ── read_and_extract_page ────────────────────────────────────────────────
+        if (request.params.name === "read_and_extract_page") {
+            const url = args.url as string;
+            const version = (args.version as string) || "latest";
+            if (!url) throw new Error("url is required");
+
+            const markdown = await extractSinglePage(url, version);
+            return { content: [{ type: "text", text: markdown }] };
+        }
+
+        // ── crawl_documentation_site ─────────────────────────────────────────────
+        if (request.params.name === "crawl_documentation_site") {
+            const startUrl = args.start_url as string;
+            const maxPages = (args.max_pages as number) || 10;
+            const version = (args.version as string) || "latest";
+            const urlGlob = args.url_glob as string | undefined;
+            const expandTabs = args.expand_tabs !== false;
+            if (!startUrl) throw new Error("start_url is required");
+
+            const crawledUrls = await runCrawler(startUrl, version, maxPages, urlGlob, expandTabs, {
+                signal: extra.signal,
+                onProgress: progressReporter(request, extra, maxPages),
+            });
+            return {
+                content: [{
+                    type: "text",
+                    text: JSON.stringify({
+                        crawled_count: crawledUrls.length,
+                        urls: crawledUrls,
+                    }, null, 2),
+                }],
+            };
+        }
+
+        // ── crawl_component_docs ─────────────────────────────────────────────────
+        if (request.params.name === "crawl_component_docs") {
+            const indexUrl = args.index_url as string;
+            const maxPages = (args.max_pages as number) || 200;
+            const version = (args.version as string) || "latest";
+            if (!indexUrl) throw new Error("index_url is required");
+
+            const crawledUrls = await crawlComponentDocs(indexUrl, version, maxPages, {
+                signal: extra.signal,
+                onProgress: progressReporter(request, extra, maxPages),
+            });
+            return {
+                content: [{
+                    type: "text",
+                    text: JSON.stringify({
+                        crawled_count: crawledUrls.length,
+                        urls: crawledUrls,
+                    }, null, 2),
+                }],
+            };
+        }
+
+        // ── search_crawled_docs ──────────────────────────────────────────────────
+        if (request.params.name === "search_crawled_docs") {
+            const query = args.query as string;
+            const mode = (args.mode as SearchMode | undefined) ?? "lexical";
+            const diversify = (args.diversify as DiversifyStrategy | undefined) ?? "none";
+            if (!query) throw new Error("query is required");
+            if (!SEARCH_MODES.includes(mode)) {
+                throw new Error(`mode must be one of: ${SEARCH_MODES.join(", ")}`);
+            }
+            if (!DIVERSIFY_STRATEGIES.includes(diversify)) {
+                throw new Error(`diversify must be one of: ${DIVERSIFY_STRATEGIES.join(", ")}`);
+            }
+
+            const page = await searchLocalDatasets(query, {
+                version: args.version as string | undefined,
+                domain: args.domain as string | undefined,
+                url_prefix: args.url_prefix as string | undefined,
+                heading_contains: args.heading_contains as string | undefined,
+                limit: args.limit as number | undefined,
+                offset: args.offset as number | undefined,
+            }, mode, {
+                tokens: args.snippet_tokens as number | undefined,
+                start_marker: args.highlight_start as string | undefined,
+                end_marker: args.highlight_end as string | undefined,
+            }, {
+                max_per_document: args.max_per_document as number | undefined,
+                strategy: diversify,
+                mmr_lambda: args.mmr_lambda as number | undefined,
+            });
+
+            // Offsets point into content, so they're only useful alongside it
+            const fullContent = args.full_content === true;
+            const results = fullContent
+                ? page.results
+                : page.results.map(({ content, match_offsets, ...hit }) => hit);
+
+            return {
+                content: [{
+                    type: "text",
+                    text: JSON.stringify({ ...page, results }, null, 2),
+                }],
+            };
+        }
+
+        // ── search_code_examples ─────────────────────────────────────────────────
+        if (request.params.name === "search_code_examples") {
+            const query = args.query as string;
+            if (!query) throw new Error("query is required");
+
+            const filters = {
+                language: args.language as string | undefined,
+                version: args.version as string | undefined,
+                domain: args.domain as string | undefined,
+                url_prefix: args.url_prefix as string | undefined,
+            };
+            const limit = clampSearchLimit((args.limit as number | undefined) ?? DEFAULT_CODE_EXAMPLE_LIMIT);
+            const offset = Math.max(Math.floor((args.offset as number | undefined) ?? 0), 0);
+            const results = searchCodeExamples(query, { ...filters, limit, offset });
+
+            return {
+                content: [{
+                    type: "text",
+                    text: JSON.stringify({
+                        total: countCodeExampleMatches(query, filters),
+                        offset,
+                        limit,
+                        results,
+                    }, null, 2),
+                }],
+            };
+        }
+
+        // ── build_context ────────────────────────────────────────────────────────
+        if (request.params.name === "build_context") {
+            const question = args.question as string;
+            const mode = (args.mode as SearchMode | undefined) ?? "hybrid";
+            if (!question) throw new Error("question is required");
+            if (!SEARCH_MODES.includes(mode)) {
+                throw new Error(`mode must be one of: ${SEARCH_MODES.join(", ")}`);
+            }
+
+            const pack = await buildContext(question, {
+                max_tokens: args.max_tokens as number | undefined,
+                mode,
+                filters: {
+                    version: args.version as string | undefined,
+                    domain: args.domain as string | undefined,
+                    url_prefix: args.url_prefix as string | undefined,
+                },
+            });
+            if (pack.citations.length === 0) {
+                return { content: [{ type: "text", text: `No indexed documentation matches: ${question}` }] };
+            }
+
+            // The packed markdown goes first as-is, so the agent can use it without parsing JSON
+            const { markdown, ...meta } = pack;
+            return {
+                content: [
+                    { type: "text", text: markdown },
+                    { type: "text", text: JSON.stringify(meta, null, 2) },
+                ],
+            };
+        }
+
+        // ── get_document ─────────────────────────────────────────────────────────
+        if (request.params.name === "get_document") {
+            const url = args.url as string;
+            const version = (args.version as string) || "latest";
+            if (!url) throw new Error("url is required");
+
+            const doc = getDocument(url, version);
+            if (!doc) {
+                const tombstone = getTombstone(url, version);
+                const gone = tombstone ? `; it was removed from its site (HTTP ${tombstone.status}, found ${tombstone.gone_at})` : "";
+                return {
+                    content: [{ type: "text", text: `No cached document found for: ${url} (version: ${version})${gone}` }],
+                };
+            }
+            return {
+                content: [{
+                    type: "text",
+                    text: JSON.stringify({
+                        url: doc.url,
+                        version: doc.version,
+                        title: doc.title,
+                        timestamp: doc.timestamp,
+                        markdown: doc.markdown,
+                    }, null, 2),
+                }],
+            };
+        }
+
+        // ── get_section ──────────────────────────────────────────────────────────
+        if (request.params.name === "get_section") {
+            const section = getSection({
+                chunk_id: args.chunk_id as number | undefined,
+                url: args.url as string | undefined,
+                version: args.version as string | undefined,
+                heading_path: args.heading_path as string[] | undefined,
+                before: args.before as number | undefined,
+                after: args.after as number | undefined,
+            });
+            if (!section) {
+                const target = args.chunk_id !== undefined
+                    ? `chunk ${args.chunk_id}`
+                    : `${args.url} › ${(args.heading_path as string[]).join(" › ")} (version: ${(args.version as string) || "latest"})`;
+                return { content: [{ type: "text", text: `No cached section found for: ${target}` }] };
+            }
+            return { content: [{ type: "text", text: JSON.stringify(section, null, 2) }] };
+        }
+
+        // ── get_document_outline ─────────────────────────────────────────────────
+        if (request.params.name === "get_document_outline") {
+            const url = args.url as string | undefined;
+            const domain = args.domain as string | undefined;
+            const version = (args.version as string) || "latest";
+            const maxDepth = args.max_depth as number | undefined;
+            if (!url && !domain) throw new Error("url or domain is required");
+
+            if (url) {
+                const doc = getDocument(url, version);
+                if (!doc) {
+                    return {
+                        content: [{ type: "text", text: `No cached document found for: ${url} (version: ${version})` }],
+                    };
+                }
+                const page = buildOutline(url, doc.title, getDocumentChunks(url, version), maxDepth);
+                return {
+                    content: [{
+                        type: "text",
+                        text: JSON.stringify({
+                            url,
+                            version,
+                            title: page.title,
+                            chars: page.chars,
+                            tokens: page.tokens,
+                            outline: page.outline,
+                        }, null, 2),
+                    }],
+                };
+            }
+
+            const urlPrefix = args.url_prefix as string | undefined;
+            const pages = listDomainDocuments(domain!, version)
+                .filter(d => !urlPrefix || d.url.startsWith(urlPrefix))
+                .map(d => buildOutline(d.url, d.title, getDocumentChunks(d.url, version), maxDepth ?? SITE_TOC_DEPTH));
+            if (pages.length === 0) {
+                return {
+                    content: [{ type: "text", text: `No cached pages found for: ${domain} (version: ${version})` }],
+                };
+            }
+            return {
+                content: [{
+                    type: "text",
+                    text: JSON.stringify({
+                        domain,
+                        version,
+                        page_count: pages.length,
+                        chars: pages.reduce((n, p) => n + p.chars, 0),
+                        tokens: pages.reduce((n, p) => n + p.tokens, 0),
+                        toc: groupByPath(pages),
+                    }, null, 2),
+                }],
+            };
+        }
+
+        // ── get_document_history ─────────────────────────────────────────────────
+        if (request.params.name === "get_document_history") {
+            const url = args.url as string;
+            const version = (args.version as string) || "latest";
+            if (!url) throw new Error("url is required");
+
+            const revisions = getDocumentHistory(url, version);
+            if (revisions.length === 0) {
+                return {
+                    content: [{ type: "text", text: `No revisions stored for: ${url} (version: ${version})` }],
+                };
+            }
+            return { content: [{ type: "text", text: JSON.stringify({ url, version, revisions }, null, 2) }] };
+        }
+
+        // ── diff_document ────────────────────────────────────────────────────────
+        if (request.params.name === "diff_document") {
+            const url = args.url as string;
+            const version = (args.version as string) || "latest";
+            if (!url) throw new Error("url is required");
+
+            const diff = diffDocument({
+                url,
+                version,
+                from: args.from as number | undefined,
+                to: args.to as number | undefined,
+                context_lines: args.context_lines as number | undefined,
+            });
+            if (!diff) {
+                return {
+                    content: [{ type: "text", text: `No revisions stored for: ${url} (version: ${version})` }],
+                };
+            }
+            const { diff: unified, ...summary } = diff;
+            return {
+                content: [
+                    { type: "text", text: unified || "The revisions are identical." },
+                    { type: "text", text: JSON.stringify(summary, null, 2) },
+                ],
+            };
+        }
+
+        // ── compare_versions ─────────────────────────────────────────────────────
+        if (request.params.name === "compare_versions") {
+            const domain = args.domain as string;
+            const fromVersion = args.from_version as string;
+            const toVersion = args.to_version as string;
+            if (!domain) throw new Error("domain is required");
+            if (!fromVersion || !toVersion) throw new Error("from_version and to_version are required");
+
+            const loadPages = (version: string) => listDomainDocuments(domain, version).map(doc => ({
+                url: doc.url,
+                title: doc.title,
+                chunks: getDocumentChunks(doc.url, version),
+            }));
+            const fromPages = loadPages(fromVersion);
+            const toPages = loadPages(toVersion);
+            const missing = [fromVersion, toVersion].filter((_, i) => [fromPages, toPages][i].length === 0);
+            if (missing.length > 0) {
+                return {
+                    content: [{ type: "text", text: `No cached pages found for ${domain} (version: ${missing.join(", ")})` }],
+                };
+            }
+
+            const comparison = compareVersionPages(domain, fromVersion, toVersion, fromPages, toPages, {
+                path_prefix: args.path_prefix as string | undefined,
+                include_diffs: args.include_diffs as boolean | undefined,
+                context_lines: args.context_lines as number | undefined,
+            });
+            // The diffs are in the markdown report; keep the JSON to the structure
+            const changed = comparison.changed.map(page => ({
+                ...page,
+                sections_changed: page.sections_changed.map(({ heading_path, lines_added, lines_removed }) =>
+                    ({ heading_path, lines_added, lines_removed })),
+            }));
+            return {
+                content: [
+                    { type: "text", text: renderComparison(comparison) },
+                    { type: "text", text: JSON.stringify({ ...comparison, changed }, null, 2) },
+                ],
+            };
+        }
+
+        // ── export_llms_txt ──────────────────────────────────────────────────────
+        if (request.params.name === "export_llms_txt") {
+            const domain = args.domain as string;
+            const version = (args.version as string) || "latest";
+            const urlPrefix = args.url_prefix as string | undefined;
+            const order = ((args.order as string) || "sitemap") as LlmsOrder;
+            const outputDir = args.output_dir ? resolveToolPath(args.output_dir as string, remoteServers.has(server)) : undefined;
+            if (!domain) throw new Error("domain is required");
+            if (!LLMS_ORDERS.includes(order)) throw new Error(`order must be one of: ${LLMS_ORDERS.join(", ")}`);
+
+            const pages = listDomainDocuments(domain, version)
+                .filter(doc => !urlPrefix || doc.url.startsWith(urlPrefix))
+                .map(doc => ({ url: doc.url, title: doc.title, markdown: getDocument(doc.url, version)!.markdown }));
+            if (pages.length === 0) {
+                return {
+                    content: [{ type: "text", text: `No cached pages found for: ${domain} (version: ${version})` }],
+                };
+            }
+
+            const result = buildLlmsTxt(domain, version, pages, {
+                title: args.title as string | undefined,
+                summary: args.summary as string | undefined,
+                sitemap: order === "sitemap" ? await discoverSitemapUrls(pages[0].url) : undefined,
+            });
+            const summary = {
+                domain,
+                version,
+                title: result.title,
+                pages: pages.length,
+                order: result.order,
+                tokens: result.tokens,
+                sections: result.sections,
+                ...(outputDir ? { files: writeLlmsTxt(outputDir, result) } : {}),
+            };
+            return {
+                content: [
+                    ...(outputDir ? [] : [{ type: "text", text: result.llms_txt }]),
+                    { type: "text", text: JSON.stringify(summary, null, 2) },
+                ],
+            };
+        }
+
+        // ── export_markdown_tree ─────────────────────────────────────────────────
+        if (request.params.name === "export_markdown_tree") {
+            const domain = args.domain as string;
+            const version = (args.version as string) || "latest";
+            const urlPrefix = args.url_prefix as string | undefined;
+            if (!domain) throw new Error("domain is required");
+            if (!args.output_dir) throw new Error("output_dir is required");
+            const outputDir = resolveToolPath(args.output_dir as string, remoteServers.has(server));
+
+            const docs = listDomainDocuments(domain, version)
+                .filter(doc => !urlPrefix || doc.url.startsWith(urlPrefix))
+                .map(doc => getDocument(doc.url, version)!);
+            if (docs.length === 0) {
+                return {
+                    content: [{ type: "text", text: `No cached pages found for: ${domain} (version: ${version})` }],
+                };
+            }
+
+            const result = writeMarkdownTree(outputDir, buildMarkdownTree(domain, version, docs));
+            return {
+                content: [{ type: "text", text: JSON.stringify({ domain, version, ...result }, null, 2) }],
+            };
+        }
+
+        // ── start_crawl ──────────────────────────────────────────────────────────
+        if (request.params.name === "start_crawl") {
+            const url = args.url as string;
+            const kind = args.kind === "components" ? "components" : "site";
+            const maxPages = (args.max_pages as number) || (kind === "components" ? 200 : 10);
+            const version = (args.version as string) || "latest";
+            if (!url) throw new Error("url is required");
+
+            const job = startCrawlJob({
+                kind,
+                url,
+                version,
+                max_pages: maxPages,
+                url_glob: args.url_glob as string | undefined,
+                expand_tabs: args.expand_tabs !== false,
+            }, jobProgressReporter(server, request, maxPages));
+            return {
+                content: [{
+                    type: "text",
+                    text: JSON.stringify({ job_id: job.id, status: job.status }, null, 2),
+                }],
+            };
+        }
+
+        // ── get_crawl_status ─────────────────────────────────────────────────────
+        if (request.params.name === "get_crawl_status") {
+            const jobId = args.job_id as string;
+            if (!jobId) throw new Error("job_id is required");
+
+            const job = getCrawlJob(jobId);
+            if (!job) throw new Error(`No crawl job found with id: ${jobId}`);
+            return { content: [{ type: "text", text: JSON.stringify(job, null, 2) }] };
+        }
+
+        // ── list_crawl_jobs ──────────────────────────────────────────────────────
+        if (request.params.name === "list_crawl_jobs") {
+            const jobs = listCrawlJobs().map(({ crawled_urls, ...job }) => ({
+                ...job,
+                crawled_count: crawled_urls.length,
+            }));
+            return { content: [{ type: "text", text: JSON.stringify({ jobs }, null, 2) }] };
+        }
+
+        // ── cancel_crawl ─────────────────────────────────────────────────────────
+        if (request.params.name === "cancel_crawl") {
+            const jobId = args.job_id as string;
+            if (!jobId) throw new Error("job_id is required");
+
+            const job = cancelCrawlJob(jobId);
+            if (!job) throw new Error(`No crawl job found with id: ${jobId}`);
+            return {
+                content: [{
+                    type: "text",
+                    text: JSON.stringify({
+                        job_id: job.id,
+                        status: job.status,
+                        cancel_requested: job.status === "running",
+                    }, null, 2),
+                }],
+            };
+        }
+
+        // ── refresh_stale ────────────────────────────────────────────────────────
+        if (request.params.name === "refresh_stale") {
+            const ttl = args.ttl as string | undefined;
+            const limit = Math.min((args.limit as number) || DEFAULT_REFRESH_LIMIT, MAX_REFRESH_LIMIT);
+
+            const report = await refreshStale({
+                domain: (args.domain as string) || undefined,
+                version: (args.version as string) || undefined,
+                ttl: ttl ? parseDuration(ttl) : undefined,
+                limit,
+                tombstone: args.tombstone === true,
+            }, {
+                signal: extra.signal,
+                onProgress: progressReporter(request, extra, limit),
+            });
+            return { content: [{ type: "text", text: JSON.stringify(report, null, 2) }] };
+        }
+
+        // ── get_index_stats ──────────────────────────────────────────────────────
+        if (request.params.name === "get_index_stats") {
+            return {
+                content: [{
+                    type: "text",
+                    text: JSON.stringify({
+                        total_pages: getDocumentCount(),
+                        total_chunks: getChunkCount(),
+                    }, null, 2),
+                }],
+            };
+        }
+
+        // ── list_sources ─────────────────────────────────────────────────────────
+        if (request.params.name === "list_sources") {
+            return {
+                content: [{
+                    type: "text",
+                    text: JSON.stringify({ sources: listSources() }, null, 2),
+                }],
+            };
+        }
+
+        // ── list_collections ─────────────────────────────────────────────────────
+        if (request.params.name === "list_collections") {
+            return {
+                content: [{
+                    type: "text",
+                    text: JSON.stringify({ active: getActiveCollection(), collections: listCollections() }, null, 2),
+                }],
+            };
+        }
+
+        // ── delete_document ──────────────────────────────────────────────────────
+        if (request.params.name === "delete_document") {
+            const url = args.url as string;
+            const version = (args.version as string) || "latest";
+            if (!url) throw new Error("url is required");
+
+            const result = deleteDocument(url, version);
+            return {
+                content: [{
+                    type: "text",
+                    text: JSON.stringify({ url, version, deleted_pages: result.documents, deleted_chunks: result.chunks }, null, 2),
+                }],
+            };
+        }
+
+        // ── purge_domain ─────────────────────────────────────────────────────────
+        if (request.params.name === "purge_domain") {
+            const domain = args.domain as string;
+            const version = args.version as string | undefined;
+            if (!domain) throw new Error("domain is required");
+
+            const result = purgeDomain(domain, version);
+            return {
+                content: [{
+                    type: "text",
+                    text: JSON.stringify({
+                        domain,
+                        version: version ?? null,
+                        deleted_pages: result.documents,
+                        deleted_chunks: result.chunks,
+                    }, null, 2),
+                }],
+            };
+        }
+
+        // ── purge_version ────────────────────────────────────────────────────────
+        if (request.params.name === "purge_version") {
+            const version = args.version as string;
+            if (!version) throw new Error("version is required");
+
+            const result = purgeVersion(version);
+            return {
+                content: [{
+                    type: "text",
+                    text: JSON.stringify({ version, deleted_pages: result.documents, deleted_chunks: result.chunks }, null, 2),
+                }],
+            };
+        }
+
+        // ── maintain_index ───────────────────────────────────────────────────────
+        if (request.params.name === "maintain_index") {
+            return {
+                content: [{ type: "text", text: JSON.stringify(maintainIndex(), null, 2) }],
+            };
+        }
+
+        // ── export_index ─────────────────────────────────────────────────────────
+        if (request.params.name === "export_index") {
+            if (!args.path) throw new Error("path is required");
+            const file = resolveToolPath(args.path as string, remoteServers.has(server));
+
+            const result = exportIndex(file, {
+                domain: (args.domain as string) || undefined,
+                version: (args.version as string) || undefined,
+            });
+            return {
+                content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+            };
+        }
+
+        // ── import_index ─────────────────────────────────────────────────────────
+        if (request.params.name === "import_index") {
+            if (!args.path) throw new Error("path is required");
+            const file = resolveToolPath(args.path as string, remoteServers.has(server));
+
+            const result = await importIndex(file);
+            return {
+                content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+            };
+        }
+
+        throw new Error(`Tool not found: ${request.params.name}`);
+    } catch (err: unknown) {
+        return toolError(err);
+    }
+}
+
+function toolError(err: unknown) {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    return {
+        content: [{ type: "text" as const, text: `Error: ${errorMessage}` }],
+        isError: true,
+    };
+}
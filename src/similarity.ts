@@ -0,0 +1,29 @@
+/**
+ * Shared helpers for telling when two pages are the same or two texts alike.
+ *
+ * - pageUrlKey — one key per page, so llms.txt ordering and the markdown
+ *   mirror agree on which links point at the same cached page.
+ * - jaccard — set overlap, behind near-duplicate dropping in build_context
+ *   and the vocabulary half of MMR similarity.
+ */
+
+/**
+ * Identifies the page a URL points at: the fragment and a trailing slash
+ * don't make a different page.
+ */
+export function pageUrlKey(url: string): string {
+    const u = new URL(url);
+    u.hash = '';
+    return u.href.replace(/\/$/, '');
+}
+
+/**
+ * Jaccard similarity |a ∩ b| / |a ∪ b| in [0, 1]. Two empty sets share
+ * nothing, so they score 0 rather than counting as identical.
+ */
+export function jaccard<T>(a: Set<T>, b: Set<T>): number {
+    let shared = 0;
+    for (const item of a) if (b.has(item)) shared++;
+    const union = a.size + b.size - shared;
+    return union === 0 ? 0 : shared / union;
+}
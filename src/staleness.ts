@@ -0,0 +1,75 @@
+/**
+ * Staleness policy: how long a cached page counts as fresh before
+ * refresh_stale re-checks it against the live site.
+ *
+ * Set WEBSCRIBE_STALE_TTL to a comma-separated list of durations. A bare
+ * duration sets the default; domain=duration overrides it for one hostname:
+ *
+ *   WEBSCRIBE_STALE_TTL="14d,react.dev=1d,docs.python.org=30d"
+ *
+ * Durations are a number with a unit: s, m, h, d or w.
+ */
+
+export const DEFAULT_STALE_TTL = 7 * 24 * 60 * 60;
+
+export interface StalePolicy {
+    /** TTL in seconds for domains without an override */
+    default_ttl: number;
+    /** Per-hostname TTLs in seconds */
+    domains: Record<string, number>;
+}
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+
+/**
+ * Parses a duration such as '90m', '12h' or '7d' into seconds. Throws an
+ * Error for a missing unit or a negative amount.
+ */
+export function parseDuration(text: string): number {
+    const match = /^(\d+(?:\.\d+)?)\s*([smhdw])$/i.exec(text.trim());
+    if (!match) throw new Error(`Invalid duration '${text}': expected a number with a unit (s, m, h, d or w), e.g. 12h or 7d`);
+    return Math.round(Number(match[1]) * DURATION_UNITS[match[2].toLowerCase()]);
+}
+
+/**
+ * Parses a "default,domain=duration,…" spec. Without a bare duration the
+ * default stays at 7 days. Throws an Error for malformed entries.
+ */
+export function parseStalePolicy(spec: string): StalePolicy {
+    const policy: StalePolicy = { default_ttl: DEFAULT_STALE_TTL, domains: {} };
+    for (const entry of spec.split(',').map(e => e.trim()).filter(Boolean)) {
+        const separator = entry.indexOf('=');
+        if (separator === -1) {
+            policy.default_ttl = parseDuration(entry);
+            continue;
+        }
+        const domain = entry.slice(0, separator).trim().toLowerCase();
+        if (!domain) throw new Error(`Invalid stale TTL '${entry}': expected <domain>=<duration>`);
+        policy.domains[domain] = parseDuration(entry.slice(separator + 1));
+    }
+    return policy;
+}
+
+let activePolicy: StalePolicy | null = null;
+
+/**
+ * Returns the configured policy (read from the environment once per process).
+ */
+export function getStalePolicy(): StalePolicy {
+    activePolicy ??= parseStalePolicy(process.env.WEBSCRIBE_STALE_TTL ?? '');
+    return activePolicy;
+}
+
+/**
+ * Overrides the policy; null re-reads the environment. Useful for tests.
+ */
+export function setStalePolicy(policy: StalePolicy | null): void {
+    activePolicy = policy;
+}
+
+/**
+ * TTL in seconds for pages of `domain`.
+ */
+export function ttlFor(domain: string, policy: StalePolicy = getStalePolicy()): number {
+    return policy.domains[domain.toLowerCase()] ?? policy.default_ttl;
+}
@@ -0,0 +1,95 @@
+/**
+ * Tokenization strategy for the chunks_fts index.
+ *
+ * FTS5's unicode61 tokenizer already splits on `.` and `_`, but keeps
+ * camelCase words whole: `useQueryClient` is the single token
+ * "usequeryclient", so a search for "query client" misses it. FTS5 tokenizers
+ * can't be written in JS, so instead every chunk carries an `identifiers`
+ * column listing the parts of each compound identifier in its headings and
+ * body, plus the contiguous runs of those parts joined back together:
+ *
+ *   useQueryClient           → use query client usequery queryclient usequeryclient
+ *   on_change                → on change onchange
+ *   Array.prototype.flatMap  → array prototype flat map flatmap prototypeflat …
+ *
+ * The original text stays in `content`, so the whole token still matches
+ * and snippets are unaffected.
+ *
+ * The FTS5 tokenizer itself is chosen with WEBSCRIBE_FTS_TOKENIZER:
+ *   unicode61 (default)  word tokens, case- and diacritic-insensitive
+ *   porter               unicode61 plus English stemming ("configuring" finds "configure")
+ *   trigram              substring matching ("ueryCli" finds useQueryClient);
+ *                        every search term must be at least 3 characters
+ * The setting applies when the index is created. Setting it to a different
+ * value later rebuilds the existing index on the next start.
+ */
+
+export const FTS_TOKENIZERS = {
+    unicode61: 'unicode61',
+    porter: 'porter unicode61',
+    trigram: 'trigram',
+} as const;
+export type FtsTokenizer = keyof typeof FTS_TOKENIZERS;
+
+// Identifiers with more parts than this only get their single parts and the whole
+const MAX_JOINED_PARTS = 8;
+
+/**
+ * Returns the tokenizer named by WEBSCRIBE_FTS_TOKENIZER, or null when unset
+ * (meaning: keep whatever the index was created with).
+ */
+export function getRequestedTokenizer(): FtsTokenizer | null {
+    const raw = process.env.WEBSCRIBE_FTS_TOKENIZER?.trim().toLowerCase();
+    if (!raw) return null;
+    if (!(raw in FTS_TOKENIZERS)) {
+        throw new Error(`Unknown WEBSCRIBE_FTS_TOKENIZER: ${raw} (expected ${Object.keys(FTS_TOKENIZERS).join(', ')})`);
+    }
+    return raw as FtsTokenizer;
+}
+
+/**
+ * Reads the tokenizer back from a chunks_fts CREATE statement
+ * (unicode61 when the statement has no tokenize option).
+ */
+export function tokenizerFromSql(sql: string): FtsTokenizer {
+    const spec = sql.match(/tokenize\s*=\s*'([^']*)'/i)?.[1].trim().toLowerCase();
+    if (!spec) return 'unicode61';
+    const match = (Object.keys(FTS_TOKENIZERS) as FtsTokenizer[]).find(k => FTS_TOKENIZERS[k] === spec);
+    return match ?? 'unicode61';
+}
+
+/**
+ * Splits a compound identifier into lower-cased parts:
+ * `parseHTTPResponse_v2` → ['parse', 'http', 'response', 'v2'].
+ */
+export function splitIdentifier(identifier: string): string[] {
+    return identifier
+        .replace(/([\p{Ll}\p{N}])(\p{Lu})/gu, '$1 $2')        // fooBar → foo Bar
+        .replace(/(\p{Lu})(\p{Lu}\p{Ll})/gu, '$1 $2')          // HTTPResponse → HTTP Response
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(Boolean)
+        .map(p => p.toLowerCase());
+}
+
+/**
+ * Builds the `identifiers` column value for a chunk: the distinct parts and
+ * joined part-runs of every compound identifier in `text`, space-separated.
+ * Plain words contribute nothing (they're already indexed in `content`).
+ */
+export function identifierTerms(text: string): string {
+    const terms = new Set<string>();
+    for (const token of text.match(/[\p{L}\p{N}_$]+(?:[.\-:][\p{L}\p{N}_$]+)*/gu) ?? []) {
+        const parts = splitIdentifier(token);
+        if (parts.length < 2) continue;
+
+        for (const part of parts) terms.add(part);
+        const maxRun = parts.length <= MAX_JOINED_PARTS ? parts.length : 1;
+        for (let start = 0; start < parts.length; start++) {
+            for (let end = start + 2; end <= Math.min(parts.length, start + maxRun); end++) {
+                terms.add(parts.slice(start, end).join(''));
+            }
+        }
+        terms.add(parts.join(''));
+    }
+    return [...terms].join(' ');
+}
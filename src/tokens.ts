@@ -0,0 +1,17 @@
+/**
+ * Token estimation for sizing sections and context budgets.
+ *
+ * A real tokenizer depends on the model, so this is a fast heuristic in the
+ * spirit of the common "≈ 4 characters per token" rule, refined so code and
+ * punctuation-heavy text (which tokenizes densely) isn't underestimated:
+ * every word costs at least one token plus one per further 4 characters, and
+ * each punctuation or symbol character costs one token.
+ */
+
+export function estimateTokens(text: string): number {
+    let tokens = 0;
+    for (const piece of text.match(/[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) ?? []) {
+        tokens += /^[\p{L}\p{N}_]/u.test(piece) ? Math.ceil(piece.length / 4) : 1;
+    }
+    return tokens;
+}
@@ -49,24 +49,30 @@ function detectLanguage(className: string): string {
     ];
     for (const re of patterns) {
         const m = className.match(re);
-        if (m) {
-            // Normalise common aliases
-            const lang = m[1].toLowerCase();
-            const aliases: Record<string, string> = {
-                js: 'javascript',
-                ts: 'typescript',
-                py: 'python',
-                rb: 'ruby',
-                sh: 'bash',
-                yml: 'yaml',
-                md: 'markdown',
-            };
-            return aliases[lang] ?? lang;
-        }
+        if (m) return normalizeLanguage(m[1]);
     }
     return ''; // No language detected — produce ``` without a label
 }
 
+const LANGUAGE_ALIASES: Record<string, string> = {
+    js: 'javascript',
+    ts: 'typescript',
+    py: 'python',
+    rb: 'ruby',
+    sh: 'bash',
+    yml: 'yaml',
+    md: 'markdown',
+};
+
+/**
+ * Lower-cases a language name and resolves common aliases (js → javascript),
+ * so fence labels and language filters compare equal.
+ */
+export function normalizeLanguage(lang: string): string {
+    const key = lang.trim().toLowerCase();
+    return LANGUAGE_ALIASES[key] ?? key;
+}
+
 // ── Generic selectors (used when no site profile matches) ──────────────────────
 
 /**
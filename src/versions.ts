@@ -0,0 +1,249 @@
+/**
+ * Cross-version comparison of a documentation site.
+ *
+ * The same docs crawled as `version: "v4"` and `version: "v5"` are related by
+ * URL path: version segments such as `/v4/` or `/5.x/` are dropped, so
+ * `/v4/components/button` and `/v5/components/button` (or plain
+ * `/components/button`) count as the same page. Matched pages are compared
+ * section by section — a section being the text stored under one heading
+ * breadcrumb — which keeps diffs small enough to turn into migration notes.
+ *
+ * Links that differ only by the version label (`/v4/…` vs `/v5/…`) would make
+ * nearly every page look changed, so both versions' labels in link paths are
+ * replaced by `/{version}` before comparing.
+ */
+
+import type { DocumentChunk } from './db.js';
+import { diffText } from './diff.js';
+
+export interface VersionPage {
+    url: string;
+    title: string;
+    /** The page's chunks in page order */
+    chunks: DocumentChunk[];
+}
+
+export interface PageRef {
+    /** URL path with version segments removed, used to match pages */
+    path: string;
+    url: string;
+    title: string;
+}
+
+export interface SectionChange {
+    heading_path: string[];
+    lines_added: number;
+    lines_removed: number;
+    /** Unified diff of the section text; omitted when diffs aren't requested */
+    diff?: string;
+}
+
+export interface PageChange {
+    path: string;
+    from_url: string;
+    to_url: string;
+    title: string;
+    sections_added: string[][];
+    sections_removed: string[][];
+    sections_changed: SectionChange[];
+}
+
+export interface VersionComparison {
+    domain: string;
+    from_version: string;
+    to_version: string;
+    summary: { added: number; removed: number; changed: number; unchanged: number };
+    added: PageRef[];
+    removed: PageRef[];
+    changed: PageChange[];
+}
+
+export interface CompareOptions {
+    /** Only compare pages whose versionless path starts with this, e.g. '/components/' */
+    path_prefix?: string;
+    /** Include unified diffs of changed sections (default true) */
+    include_diffs?: boolean;
+    /** Unchanged lines around each change in section diffs (default 3) */
+    context_lines?: number;
+}
+
+// 'v4', 'V5', 'v1.0.3', '4.2', '2.x' — but not a bare number like '2024'
+const VERSION_SEGMENT_RE = /^(?:v\d+(?:\.(?:\d+|x))*|\d+(?:\.(?:\d+|x))+)$/i;
+
+/**
+ * URL path with version-like segments (and the given version labels)
+ * removed, without a trailing slash: '/v4/components/button/' → '/components/button'.
+ */
+export function versionlessPath(url: string, labels: string[] = []): string {
+    const lowerLabels = labels.map(l => l.toLowerCase());
+    const segments = new URL(url).pathname.split('/').filter(Boolean)
+        .filter(s => !VERSION_SEGMENT_RE.test(s) && !lowerLabels.includes(decodeURIComponent(s).toLowerCase()));
+    return `/${segments.join('/')}`;
+}
+
+/**
+ * Compares the pages of two versions of a site. Pages are matched by
+ * versionless path; when several pages of one version share a path, the
+ * first (in the given order) wins.
+ */
+export function compareVersionPages(
+    domain: string,
+    fromVersion: string,
+    toVersion: string,
+    fromPages: VersionPage[],
+    toPages: VersionPage[],
+    options: CompareOptions = {},
+): VersionComparison {
+    const labels = [fromVersion, toVersion];
+    const index = (pages: VersionPage[]) => {
+        const byPath = new Map<string, VersionPage>();
+        for (const page of pages) {
+            const path = versionlessPath(page.url, labels);
+            if (options.path_prefix && !path.startsWith(options.path_prefix)) continue;
+            if (!byPath.has(path)) byPath.set(path, page);
+        }
+        return byPath;
+    };
+    const from = index(fromPages);
+    const to = index(toPages);
+    const ref = (path: string, page: VersionPage): PageRef => ({ path, url: page.url, title: page.title });
+
+    const added: PageRef[] = [];
+    const removed: PageRef[] = [];
+    const changed: PageChange[] = [];
+    let unchanged = 0;
+
+    for (const [path, page] of from) {
+        if (!to.has(path)) removed.push(ref(path, page));
+    }
+    for (const [path, page] of to) {
+        const previous = from.get(path);
+        if (!previous) {
+            added.push(ref(path, page));
+            continue;
+        }
+        const change = comparePage(path, previous, page, labels, options);
+        if (change) changed.push(change);
+        else unchanged++;
+    }
+
+    const byPath = (a: { path: string }, b: { path: string }) => a.path.localeCompare(b.path);
+    return {
+        domain,
+        from_version: fromVersion,
+        to_version: toVersion,
+        summary: { added: added.length, removed: removed.length, changed: changed.length, unchanged },
+        added: added.sort(byPath),
+        removed: removed.sort(byPath),
+        changed: changed.sort(byPath),
+    };
+}
+
+/**
+ * Renders a comparison as markdown — a starting point for migration notes.
+ */
+export function renderComparison(comparison: VersionComparison): string {
+    const { domain, from_version, to_version, summary } = comparison;
+    const lines = [
+        `# ${domain}: ${from_version} → ${to_version}`,
+        '',
+        `${summary.added} added · ${summary.removed} removed · ${summary.changed} changed · ${summary.unchanged} unchanged pages`,
+    ];
+
+    const pageList = (heading: string, pages: PageRef[]) => {
+        if (pages.length === 0) return;
+        lines.push('', `## ${heading}`, '');
+        for (const page of pages) lines.push(`- [${page.title || page.path}](${page.url}) — \`${page.path}\``);
+    };
+    pageList('Added pages', comparison.added);
+    pageList('Removed pages', comparison.removed);
+
+    if (comparison.changed.length > 0) lines.push('', '## Changed pages');
+    for (const page of comparison.changed) {
+        lines.push('', `### ${page.title || page.path} — \`${page.path}\``, '');
+        for (const path of page.sections_added) lines.push(`- Added section: ${sectionLabel(path)}`);
+        for (const path of page.sections_removed) lines.push(`- Removed section: ${sectionLabel(path)}`);
+        for (const section of page.sections_changed) {
+            lines.push(`- Changed section: ${sectionLabel(section.heading_path)} (+${section.lines_added} −${section.lines_removed})`);
+            if (section.diff) lines.push('', '```diff', section.diff, '```', '');
+        }
+    }
+    return lines.join('\n').replace(/\n{3,}/g, '\n\n');
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+function comparePage(
+    path: string,
+    from: VersionPage,
+    to: VersionPage,
+    labels: string[],
+    options: CompareOptions,
+): PageChange | null {
+    const before = sectionsOf(from.chunks, labels);
+    const after = sectionsOf(to.chunks, labels);
+
+    const change: PageChange = {
+        path,
+        from_url: from.url,
+        to_url: to.url,
+        title: to.title,
+        sections_added: [],
+        sections_removed: [],
+        sections_changed: [],
+    };
+    for (const [key, section] of before) {
+        if (!after.has(key)) change.sections_removed.push(section.heading_path);
+    }
+    for (const [key, section] of after) {
+        const previous = before.get(key);
+        if (!previous) {
+            change.sections_added.push(section.heading_path);
+            continue;
+        }
+        if (previous.text === section.text) continue;
+        const label = sectionLabel(section.heading_path);
+        const { unified, added, removed } = diffText(previous.text, section.text, {
+            from_label: `${label} (${labels[0]})`,
+            to_label: `${label} (${labels[1]})`,
+            context_lines: options.context_lines,
+        });
+        // Whitespace-only differences (e.g. a trailing newline) don't count
+        if (added === 0 && removed === 0) continue;
+        change.sections_changed.push({
+            heading_path: section.heading_path,
+            lines_added: added,
+            lines_removed: removed,
+            ...(options.include_diffs === false ? {} : { diff: unified }),
+        });
+    }
+
+    const count = change.sections_added.length + change.sections_removed.length + change.sections_changed.length;
+    return count > 0 ? change : null;
+}
+
+// Section text per heading breadcrumb (case-insensitive key), version links normalised
+function sectionsOf(chunks: DocumentChunk[], labels: string[]): Map<string, { heading_path: string[]; text: string }> {
+    const sections = new Map<string, { heading_path: string[]; text: string }>();
+    for (const chunk of chunks) {
+        const key = chunk.heading_path.map(h => h.trim().toLowerCase()).join('\u0000');
+        const text = normaliseVersionRefs(chunk.content, labels);
+        const section = sections.get(key);
+        if (section) section.text += `\n\n${text}`;
+        else sections.set(key, { heading_path: chunk.heading_path, text });
+    }
+    return sections;
+}
+
+function normaliseVersionRefs(text: string, labels: string[]): string {
+    let result = text;
+    for (const label of labels) {
+        const escaped = label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        result = result.replace(new RegExp(`/${escaped}(?=[/#?)\\s]|$)`, 'g'), '/{version}');
+    }
+    return result;
+}
+
+function sectionLabel(headingPath: string[]): string {
+    return headingPath.length ? headingPath.join(' › ') : '(introduction)';
+}
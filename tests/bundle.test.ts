@@ -0,0 +1,118 @@
+/**
+ * Test: Index export/import bundles
+ *
+ * Runs bundle.ts against temporary collections to verify that exports are
+ * filtered by domain and version, that an import re-indexes and embeds the
+ * pages for search with their crawl time and cache headers intact, that merges keep
+ * the newer copy of each page, and that broken bundles are rejected before
+ * anything is written.
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+    configureDatabase,
+    closeDatabases,
+    withCollection,
+    upsertDocument,
+    upsertChunks,
+    getDocument,
+    getDocumentCount,
+    searchDocuments,
+    countChunksMissingEmbedding,
+} from '../src/db.js';
+import { getEmbeddingProvider } from '../src/embeddings.js';
+import { exportIndex, importIndex, BUNDLE_FORMAT } from '../src/bundle.js';
+
+console.log('Running bundle tests...\n');
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webscribe-bundle-'));
+configureDatabase({ path: path.join(dir, 'docs.db') });
+
+function addPage(url: string, version: string, markdown: string, etag?: string) {
+    const domain = new URL(url).hostname;
+    upsertDocument(url, version, domain, markdown.split('\n')[0].replace(/^# /, ''), markdown, etag);
+    upsertChunks(url, version, [{ heading_path: ['Intro'], content: markdown }]);
+}
+
+function readLines(file: string) {
+    return fs.readFileSync(file, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+}
+
+try {
+    addPage('https://ui.test/button', 'v5', '# Button\n\nThe Button component triggers actions.', '"etag-1"');
+    addPage('https://ui.test/card', 'v5', '# Card\n\nCards group related content.');
+    addPage('https://ui.test/button', 'v4', '# Button\n\nLegacy button.');
+    addPage('https://other.test/', 'latest', '# Other\n\nUnrelated docs.');
+
+    // ── Test 1: Filtered export ──────────────────────────────────────────────
+    const bundle = path.join(dir, 'out', 'ui-v5.jsonl');
+    {
+        const result = exportIndex(bundle, { domain: 'ui.test', version: 'v5' });
+        assert.deepEqual([result.documents, result.chunks], [2, 2]);
+        assert.ok(!fs.existsSync(`${bundle}.partial`));
+
+        const [header, ...pages] = readLines(bundle);
+        assert.equal(header.format, BUNDLE_FORMAT);
+        assert.equal(header.bundle_version, 1);
+        assert.equal(header.documents, 2);
+        assert.deepEqual(pages.map(p => p.url), ['https://ui.test/button', 'https://ui.test/card']);
+        assert.deepEqual(pages[0].chunks, [{ heading_path: ['Intro'], content: '# Button\n\nThe Button component triggers actions.' }]);
+        assert.equal(exportIndex(path.join(dir, 'v4.jsonl'), { version: 'v4' }).documents, 1);
+        console.log('✓ Test 1 passed: exports hold the filtered pages with their chunks');
+    }
+
+    // ── Test 2: Import into an empty collection ──────────────────────────────
+    {
+        const result = await withCollection('team', () => importIndex(bundle));
+        assert.deepEqual([result.added, result.updated, result.skipped, result.chunks], [2, 0, 0, 2]);
+
+        withCollection('team', () => {
+            const original = withCollection(undefined, () => getDocument('https://ui.test/button', 'v5'))!;
+            const imported = getDocument('https://ui.test/button', 'v5')!;
+            assert.equal(imported.etag, '"etag-1"');
+            assert.equal(imported.timestamp, original.timestamp, 'Crawl time is kept');
+            const hits = searchDocuments('triggers actions', { version: 'v5' });
+            assert.deepEqual(hits.map(h => h.url), ['https://ui.test/button'], 'Imported chunks are searchable');
+            assert.equal(countChunksMissingEmbedding(getEmbeddingProvider().id), 0, 'Imported chunks are embedded');
+        });
+        console.log('✓ Test 2 passed: imported pages are re-indexed with their cache headers');
+    }
+
+    // ── Test 3: Merge keeps the newer copy; broken bundles are rejected ──────
+    {
+        const [header, button, card] = readLines(bundle);
+        const merge = path.join(dir, 'merge.jsonl');
+        const write = (lines: unknown[]) => fs.writeFileSync(merge, lines.map(l => JSON.stringify(l)).join('\n') + '\n');
+
+        const newer = { ...button, markdown: '# Button\n\nNow with loading states.', timestamp: '2999-01-01 00:00:00' };
+        newer.chunks = [{ heading_path: ['Intro'], content: newer.markdown }];
+        const older = { ...card, markdown: '# Card\n\nAn outdated copy.', timestamp: '2000-01-01T00:00:00Z' };
+        write([header, newer, older]);
+
+        const result = await withCollection('team', () => importIndex(merge));
+        assert.deepEqual([result.added, result.updated, result.skipped], [0, 1, 1]);
+        withCollection('team', () => {
+            assert.match(getDocument('https://ui.test/button', 'v5')!.markdown, /loading states/);
+            assert.match(getDocument('https://ui.test/card', 'v5')!.markdown, /group related content/);
+            assert.deepEqual(searchDocuments('loading states').map(h => h.url), ['https://ui.test/button']);
+            assert.equal(searchDocuments('triggers actions').length, 0, 'Replaced chunks leave the FTS index');
+        });
+
+        write([{ ...header, documents: 3 }, button, { ...card, url: 'https://ui.test/new' }]);
+        await assert.rejects(withCollection('team', () => importIndex(merge)), /truncated/);
+        write([header, button, { ...card, chunks: 'nope' }]);
+        await assert.rejects(withCollection('team', () => importIndex(merge)), /merge\.jsonl:3: 'chunks' must be an array/);
+        write([{ ...header, bundle_version: 99 }]);
+        await assert.rejects(withCollection('team', () => importIndex(merge)), /newer than this release supports/);
+        assert.equal(withCollection('team', () => getDocumentCount()), 2, 'Rejected bundles import nothing');
+        console.log('✓ Test 3 passed: merges keep the newer copy, broken bundles are rejected');
+    }
+} finally {
+    closeDatabases();
+    fs.rmSync(dir, { recursive: true, force: true });
+}
+
+console.log('\n✅ All bundle tests passed!');
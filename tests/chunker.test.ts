@@ -5,7 +5,7 @@
  * heading-based chunks with proper breadcrumb heading_paths.
  */
 
-import { chunkMarkdown } from '../src/chunker.js';
+import { chunkMarkdown, extractCodeBlocks } from '../src/chunker.js';
 import assert from 'node:assert/strict';
 
 console.log('Running chunker tests...\n');
@@ -125,4 +125,57 @@ Content B.
     console.log('✓ Test 5 passed: empty/whitespace-only input produces no chunks');
 }
 
+// ── Test 6: Headings inside code fences are ignored ──────────────────────────
+{
+    const md = `
+# Install
+
+Run the installer:
+
+\`\`\`bash
+# install dependencies
+npm install
+\`\`\`
+
+## Next steps
+
+Start the dev server.
+`;
+    const chunks = chunkMarkdown(md);
+    assert.deepEqual(chunks.map(c => c.heading_path), [['Install'], ['Install', 'Next steps']]);
+    assert.ok(chunks[0].content.includes('# install dependencies'), 'Shell comment should stay inside the code block');
+    console.log('✓ Test 6 passed: "#" lines inside code fences do not start new chunks');
+}
+
+// ── Test 7: Code block extraction ────────────────────────────────────────────
+{
+    const content = [
+        'Wrap the app in a provider.',
+        '',
+        'Pass the client as a prop:',
+        '```ts',
+        'const client = new QueryClient();',
+        '```',
+        '',
+        '~~~',
+        'plain block',
+        '~~~',
+        '',
+        '```js',
+        '   ',
+        '```',
+    ].join('\n');
+    const blocks = extractCodeBlocks(content);
+    assert.equal(blocks.length, 2, 'Whitespace-only blocks should be skipped');
+    assert.deepEqual(blocks[0], {
+        language: 'typescript',
+        code: 'const client = new QueryClient();',
+        context: 'Pass the client as a prop:',
+    });
+    assert.equal(blocks[1].language, '', 'Unlabelled fences have no language');
+    assert.equal(blocks[1].code, 'plain block');
+    assert.equal(blocks[1].context, 'Pass the client as a prop:', 'A block right after another shares its introducing paragraph');
+    console.log('✓ Test 7 passed: fenced blocks extracted with language and introducing paragraph');
+}
+
 console.log('\n✅ All chunker tests passed!');
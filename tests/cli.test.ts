@@ -0,0 +1,182 @@
+/**
+ * Test: CLI subcommands
+ *
+ * Runs runCli() in-process against a temporary index to verify that every
+ * subcommand parses its positionals and flags, that missing or invalid
+ * arguments are usage errors (exit code 2) and that unknown flags and
+ * commands are rejected. crawl is only checked up to argument validation,
+ * so no browser is started. The server entry point is run as a child process
+ * to check that --http without a port fails instead of falling back to stdio.
+ */
+
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { configureDatabase, closeDatabases, upsertDocument, upsertChunks, DEFAULT_COLLECTION } from '../src/db.js';
+import { runCli, isCliCommand, CLI_COMMANDS } from '../src/cli.js';
+
+console.log('Running CLI tests...\n');
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webscribe-cli-'));
+configureDatabase({ path: path.join(dir, 'docs.db') });
+
+function addPage(url: string, version: string, content: string) {
+    upsertDocument(url, version, new URL(url).hostname, 'Widgets', `# Widgets\n\n${content}`);
+    upsertChunks(url, version, [{ heading_path: ['Widgets'], content }]);
+}
+
+// Runs one command with stdout/stderr captured. Every run opens the index
+// afresh and forgets its --collection, as a separate `webscribe` process would.
+async function run(...argv: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+    let stdout = '';
+    let stderr = '';
+    const out = process.stdout.write;
+    const err = process.stderr.write;
+    process.stdout.write = ((chunk: string) => { stdout += chunk; return true; }) as typeof process.stdout.write;
+    process.stderr.write = ((chunk: string) => { stderr += chunk; return true; }) as typeof process.stderr.write;
+    try {
+        return { code: await runCli(argv), stdout, stderr };
+    } finally {
+        process.stdout.write = out;
+        process.stderr.write = err;
+        closeDatabases();
+        configureDatabase({ collection: DEFAULT_COLLECTION });
+    }
+}
+
+const json = (result: { stdout: string }) => JSON.parse(result.stdout);
+
+try {
+    addPage('https://a.test/one', 'v1', 'Install widgets with npm.');
+    addPage('https://a.test/two', 'v1', 'Style widgets with themes.');
+    addPage('https://b.test/one', 'latest', 'Widgets for b.');
+    closeDatabases();
+
+    // ── Test 1: Reading commands ────────────────────────────────────────────────
+    {
+        const search = await run('search', 'widgets', 'npm', '--domain', 'a.test', '--version', 'v1', '--limit', '1', '--json');
+        assert.equal(search.code, 0, search.stderr);
+        assert.deepEqual([json(search).total, json(search).limit], [1, 1]);
+        assert.equal(json(search).results[0].url, 'https://a.test/one', 'Positionals form the query');
+
+        const paged = json(await run('search', 'widgets', '--url-prefix', 'https://a.test/', '--heading', 'widg', '--offset', '1', '--json'));
+        assert.deepEqual([paged.total, paged.offset, paged.results.length], [2, 1, 1]);
+        const text = await run('search', 'widgets', '--max-per-doc', '1', '--diversify', 'mmr', '--mode', 'hybrid');
+        assert.equal(text.code, 0, text.stderr);
+        assert.match(text.stdout, /^Showing 1–3 of 3 result\(s\)/);
+
+        const get = await run('get', 'https://a.test/two', '--version', 'v1');
+        assert.equal(get.stdout, '# Widgets\n\nStyle widgets with themes.\n');
+        assert.equal((await run('get', 'https://a.test/two')).code, 1, 'Version defaults to latest');
+
+        const stats = await run('stats', '--json');
+        assert.deepEqual([json(stats).total_pages, json(stats).sources.length], [3, 2]);
+        const collections = await run('collections', '--json', '--collection', 'default');
+        assert.ok(json(collections).collections.some((c: { name: string; active: boolean }) => c.name === 'default' && c.active));
+        console.log('✓ Test 1 passed: search, get, stats and collections parse their arguments');
+    }
+
+    // ── Test 2: Writing commands ────────────────────────────────────────────────
+    {
+        const bundle = path.join(dir, 'a.jsonl');
+        const exported = await run('export', bundle, '--domain', 'a.test', '--json');
+        assert.equal(exported.code, 0, exported.stderr);
+        assert.equal(json(exported).documents, 2);
+
+        const imported = await run('import', bundle, '--collection', 'copy', '--json');
+        assert.equal(imported.code, 0, imported.stderr);
+        assert.equal(json(imported).added, 2);
+        assert.equal(json(await run('stats', '--json', '--collection', 'copy')).total_pages, 2, '--collection picks the index');
+
+        const purged = await run('purge', '--url', 'https://a.test/one', '--version', 'v1', '--json');
+        assert.deepEqual(json(purged), { deleted_pages: 1, deleted_chunks: 1 });
+        assert.match((await run('purge', '--domain', 'b.test')).stdout, /^Purged b\.test: 1 page\(s\), 1 chunk\(s\)\./);
+        assert.deepEqual(json(await run('purge', '--version', 'v1', '--json')), { deleted_pages: 1, deleted_chunks: 1 });
+
+        const maintain = await run('maintain', '--json');
+        assert.equal(maintain.code, 0, maintain.stderr);
+        assert.equal(json(maintain).foreign_key_violations, 0);
+
+        // Every page is younger than the TTL, so nothing is fetched
+        const refresh = await run('refresh', '--collection', 'copy', '--domain', 'a.test', '--ttl', '30d', '--limit', '5', '--tombstone', '--json');
+        assert.equal(refresh.code, 0, refresh.stderr);
+        assert.deepEqual([json(refresh).stale, json(refresh).checked], [0, 0]);
+        console.log('✓ Test 2 passed: export, import, purge, maintain and refresh parse their arguments');
+    }
+
+    // ── Test 3: Usage errors ────────────────────────────────────────────────────
+    {
+        const usage = async (argv: string[], message: RegExp) => {
+            const result = await run(...argv);
+            assert.equal(result.code, 2, `${argv.join(' ')}: ${result.stderr}`);
+            assert.match(result.stderr, message);
+            assert.match(result.stderr, /Usage: webscribe <command>/);
+        };
+        await usage(['crawl'], /crawl requires a <url>/);
+        await usage(['crawl', 'https://a.test/', '--max-pages', '0'], /invalid --max-pages: 0/);
+        await usage(['search'], /search requires a <query>/);
+        await usage(['search', 'widgets', '--mode', 'fuzzy'], /--mode must be one of: lexical, semantic, hybrid/);
+        await usage(['search', 'widgets', '--diversify', 'random'], /--diversify must be one of/);
+        await usage(['get'], /get requires a <url>/);
+        await usage(['purge'], /purge requires --url, --domain or --version/);
+        await usage(['refresh', '--limit', 'many'], /invalid --limit: many/);
+        await usage(['export'], /export requires a <file>/);
+        await usage(['import'], /import requires a <file>/);
+
+        const badTtl = await run('refresh', '--ttl', '7');
+        assert.equal(badTtl.code, 1);
+        assert.match(badTtl.stderr, /^Error: Invalid duration '7'/);
+        console.log('✓ Test 3 passed: missing and invalid arguments are usage errors');
+    }
+
+    // ── Test 4: Unknown flags and commands ──────────────────────────────────────
+    {
+        const flag = await run('search', 'widgets', '--bogus');
+        assert.equal(flag.code, 2);
+        assert.match(flag.stderr, /Unknown option '--bogus'/);
+        assert.equal(flag.stdout, '');
+
+        assert.equal((await run('stats', '--limit')).code, 2, 'String options need a value');
+
+        const command = await run('frobnicate');
+        assert.equal(command.code, 2);
+        assert.match(command.stderr, /unknown command: frobnicate/);
+        assert.equal(isCliCommand('frobnicate'), false);
+        assert.ok(CLI_COMMANDS.every(isCliCommand));
+
+        const help = await run('help');
+        assert.equal(help.code, 0);
+        assert.match(help.stdout, /^Usage: webscribe <command> \[options\]/);
+        console.log('✓ Test 4 passed: unknown flags and commands are rejected');
+    }
+
+    // ── Test 5: Server flags ────────────────────────────────────────────────────
+    {
+        // A server that wrongly starts on stdio exits once stdin closes, rather than failing
+        const serve = (...args: string[]) => spawnSync(process.execPath, ['--import', 'tsx', 'src/index.ts', ...args], {
+            input: '',
+            encoding: 'utf8',
+            timeout: 60_000,
+            env: { ...process.env, WEBSCRIBE_DB_PATH: ':memory:' },
+        });
+        for (const args of [['--http'], ['--http', '--host', '0.0.0.0']]) {
+            const result = serve(...args);
+            assert.equal(result.status, 1, `${args.join(' ')}: ${result.stderr}`);
+            assert.match(result.stderr, /Missing value for --http/);
+            assert.doesNotMatch(result.stderr, /running on stdio/);
+        }
+        for (const port of ['--http=', '--http=abc', '--http=70000']) {
+            const result = serve(port);
+            assert.equal(result.status, 1, `${port}: ${result.stderr}`);
+            assert.match(result.stderr, /Invalid --http port/);
+        }
+        console.log('✓ Test 5 passed: --http without a valid port is an error, not a stdio server');
+    }
+} finally {
+    closeDatabases();
+    fs.rmSync(dir, { recursive: true, force: true });
+}
+
+console.log('\n✅ All CLI tests passed!');
@@ -0,0 +1,78 @@
+/**
+ * Test: Database location and named collections
+ *
+ * Runs db.ts against a temporary directory to verify that the database path
+ * is configurable, that named collections are separate files whose data
+ * doesn't leak into each other, that the collection scope survives awaits,
+ * and that list_collections reports them.
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+    configureDatabase,
+    getDatabasePath,
+    getCollectionPath,
+    withCollection,
+    getActiveCollection,
+    listCollections,
+    closeDatabases,
+    upsertDocument,
+    getDocument,
+    getDocumentCount,
+} from '../src/db.js';
+
+console.log('Running collection tests...\n');
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webscribe-collections-'));
+const dbPath = path.join(dir, 'index', 'docs.db');
+configureDatabase({ path: dbPath });
+
+try {
+    // ── Test 1: Configured paths ─────────────────────────────────────────────
+    {
+        assert.equal(getDatabasePath(), dbPath);
+        assert.equal(getCollectionPath('default'), dbPath);
+        assert.equal(getCollectionPath('react-app'), path.join(dir, 'index', 'collections', 'react-app.db'));
+        assert.throws(() => getCollectionPath('../escape'), /Invalid collection name/);
+        assert.throws(() => withCollection('a b', () => 0), /Invalid collection name/);
+        console.log('✓ Test 1 passed: database and collection paths follow the configured location');
+    }
+
+    // ── Test 2: Collections are isolated ─────────────────────────────────────
+    {
+        upsertDocument('https://a.test/', 'latest', 'a.test', 'A', '# A');
+        withCollection('react-app', () => upsertDocument('https://b.test/', 'latest', 'b.test', 'B', '# B'));
+
+        assert.ok(fs.existsSync(dbPath), 'Default collection is created on first write');
+        assert.ok(getDocument('https://a.test/'));
+        assert.equal(getDocument('https://b.test/'), null, 'Named collection data must not leak into the default one');
+        withCollection('react-app', () => {
+            assert.equal(getDocumentCount(), 1);
+            assert.ok(getDocument('https://b.test/'));
+        });
+        console.log('✓ Test 2 passed: collections are separate databases');
+    }
+
+    // ── Test 3: Scope survives awaits; list_collections ──────────────────────
+    {
+        const seen = await withCollection('react-app', async () => {
+            await new Promise(resolve => setTimeout(resolve, 5));
+            return getActiveCollection();
+        });
+        assert.equal(seen, 'react-app');
+        assert.equal(getActiveCollection(), 'default');
+
+        const collections = listCollections();
+        assert.deepEqual(collections.map(c => [c.name, c.page_count, c.active]), [['default', 1, true], ['react-app', 1, false]]);
+        assert.ok(collections.every(c => c.size_bytes > 0 && c.last_crawled));
+        console.log('✓ Test 3 passed: scope follows async work, collections listed');
+    }
+} finally {
+    closeDatabases();
+    fs.rmSync(dir, { recursive: true, force: true });
+}
+
+console.log('\n✅ All collection tests passed!');
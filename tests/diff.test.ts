@@ -0,0 +1,64 @@
+/**
+ * Test: Revision diffs
+ *
+ * Verifies the line diff behind diff_document: minimal edit scripts, unified
+ * hunk headers and context, merging of nearby changes, and that identical
+ * texts produce no diff.
+ */
+
+import assert from 'node:assert/strict';
+import { diffLines, diffText } from '../src/diff.js';
+
+console.log('Running diff tests...\n');
+
+const lines = (n: number) => Array.from({ length: n }, (_, i) => `line ${i + 1}`);
+
+// ── Test 1: Minimal edit script ──────────────────────────────────────────────
+{
+    const ops = diffLines(['a', 'b', 'c', 'a', 'b', 'b', 'a'], ['c', 'b', 'a', 'b', 'a', 'c']);
+    const edits = ops.filter(op => op.type !== 'equal').length;
+    assert.equal(edits, 5, 'Myers finds the 5-edit script of the classic example');
+    assert.deepEqual(ops.filter(op => op.type !== 'insert').map(op => op.line), ['a', 'b', 'c', 'a', 'b', 'b', 'a']);
+    assert.deepEqual(ops.filter(op => op.type !== 'delete').map(op => op.line), ['c', 'b', 'a', 'b', 'a', 'c']);
+    console.log('✓ Test 1 passed: shortest edit script reproduces both texts');
+}
+
+// ── Test 2: Unified hunks with context ───────────────────────────────────────
+{
+    const before = lines(20).join('\n');
+    const after = lines(20).map(l => l === 'line 2' ? 'line two' : l).concat('line 21').join('\n');
+    const { unified, added, removed } = diffText(before, after, { from_label: 'old.md', to_label: 'new.md' });
+    assert.equal(added, 2);
+    assert.equal(removed, 1);
+    assert.deepEqual(unified.split('\n'), [
+        '--- old.md',
+        '+++ new.md',
+        '@@ -1,5 +1,5 @@',
+        ' line 1',
+        '-line 2',
+        '+line two',
+        ' line 3',
+        ' line 4',
+        ' line 5',
+        '@@ -18,3 +18,4 @@',
+        ' line 18',
+        ' line 19',
+        ' line 20',
+        '+line 21',
+    ]);
+    console.log('✓ Test 2 passed: unified hunks with 3 lines of context');
+}
+
+// ── Test 3: Nearby changes share a hunk; identical texts have no diff ────────
+{
+    const before = lines(10).join('\n');
+    const after = lines(10).filter(l => l !== 'line 3' && l !== 'line 7').join('\n');
+    const hunks = diffText(before, after).unified.split('\n').filter(l => l.startsWith('@@'));
+    assert.deepEqual(hunks, ['@@ -1,10 +1,8 @@'], 'Changes 3 lines apart merge into one hunk');
+    assert.deepEqual(diffText(before, after, { context_lines: 0 }).unified.split('\n').filter(l => l.startsWith('@@')),
+        ['@@ -3,1 +2,0 @@', '@@ -7,1 +5,0 @@']);
+    assert.deepEqual(diffText(before, `${before}\n`), { unified: '', added: 0, removed: 0 });
+    console.log('✓ Test 3 passed: hunk merging, zero context, identical texts');
+}
+
+console.log('\n✅ All diff tests passed!');
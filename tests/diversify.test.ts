@@ -0,0 +1,72 @@
+/**
+ * Test: Result diversification
+ *
+ * Verifies the search post-processing behind max_per_document and
+ * diversify 'mmr': capped pages report how many hits were folded into their
+ * best chunk, MMR spreads results across pages, and λ = 1 keeps the ranking.
+ * Also checks the shared Jaccard and page-key helpers from similarity.ts.
+ */
+
+import assert from 'node:assert/strict';
+import { capPerDocument, mmrRerank, wantsDiversity } from '../src/diversify.js';
+import { jaccard, pageUrlKey } from '../src/similarity.js';
+
+console.log('Running diversification tests...\n');
+
+function hit(url: string, score: number, content: string) {
+    return { url: `https://ds.test/${url}`, version: 'latest', content, score };
+}
+
+// One long page dominates the BM25 ranking
+const ranked = [
+    hit('button', 10, 'Button loading state shows a spinner while pending'),
+    hit('button', 9.5, 'Button loading prop disables the button while pending'),
+    hit('button', 9, 'Button loading spinner replaces the label while pending'),
+    hit('spinner', 8, 'Spinner component indicates indeterminate progress'),
+    hit('button', 7.5, 'Button loading state is announced to screen readers'),
+    hit('progress', 6, 'Progress bar shows determinate progress'),
+];
+
+// ── Test 1: Per-document cap folds extra hits ────────────────────────────────
+{
+    const capped = capPerDocument(ranked, 2);
+    assert.deepEqual(capped.map(h => h.score), [10, 9.5, 8, 6]);
+    assert.deepEqual(capped.map(h => h.folded_hits), [2, 0, 0, 0], 'Only the best chunk of a page reports folded hits');
+
+    const single = capPerDocument(ranked, 1);
+    assert.deepEqual(single.map(h => h.url.split('/').pop()), ['button', 'spinner', 'progress']);
+    assert.equal(single[0].folded_hits, 3);
+
+    // Same URL under another version is a different page
+    const versions = capPerDocument([ranked[0], { ...ranked[1], version: 'v4' }], 1);
+    assert.equal(versions.length, 2);
+    console.log('✓ Test 1 passed: per-document cap keeps order and counts folded hits');
+}
+
+// ── Test 2: MMR spreads results across pages ─────────────────────────────────
+{
+    const reranked = mmrRerank(ranked, 0.5);
+    assert.equal(reranked.length, ranked.length, 'MMR re-orders, it never drops results');
+    assert.equal(reranked[0], ranked[0], 'The most relevant result stays first');
+    const topPages = new Set(reranked.slice(0, 3).map(h => h.url));
+    assert.ok(topPages.size >= 2, `Top 3 should span several pages, got ${[...topPages].join(', ')}`);
+    assert.notEqual(reranked[1].url, ranked[0].url, 'Second result should come from another page');
+    console.log(`✓ Test 2 passed: MMR top 3 spans ${topPages.size} pages`);
+}
+
+// ── Test 3: λ = 1 keeps ranking; options gate diversification ────────────────
+{
+    assert.deepEqual(mmrRerank(ranked, 1), ranked);
+    assert.deepEqual(mmrRerank([], 0.5), []);
+    assert.equal(wantsDiversity({}), false);
+    assert.equal(wantsDiversity({ strategy: 'none', max_per_document: 0 }), false);
+    assert.equal(wantsDiversity({ max_per_document: 3 }), true);
+    assert.equal(wantsDiversity({ strategy: 'mmr' }), true);
+
+    assert.equal(jaccard(new Set(['a', 'b', 'c']), new Set(['b', 'c', 'd'])), 0.5);
+    assert.equal(jaccard(new Set(), new Set()), 0, 'Two empty sets share nothing');
+    assert.equal(pageUrlKey('https://a.test/docs/#install'), pageUrlKey('https://a.test/docs'));
+    console.log('✓ Test 3 passed: λ = 1 is a no-op, options gate diversification, shared similarity helpers');
+}
+
+console.log('\n✅ All diversification tests passed!');
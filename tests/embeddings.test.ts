@@ -0,0 +1,52 @@
+/**
+ * Test: Embeddings & rank fusion
+ *
+ * Verifies the offline local embedder and the helpers used by hybrid search:
+ * 1. Determinism and unit-length vectors
+ * 2. Related text scores higher cosine similarity than unrelated text
+ * 3. Reciprocal Rank Fusion favours items ranked by both retrievers
+ */
+
+import { createLocalHashEmbedder, cosineSimilarity, reciprocalRankFusion } from '../src/embeddings.js';
+import assert from 'node:assert/strict';
+
+console.log('Running embeddings tests...\n');
+
+const embedder = createLocalHashEmbedder(256);
+
+// ── Test 1: Deterministic, normalised vectors ────────────────────────────────
+{
+    const [a, b] = await embedder.embed(['Button loading state', 'Button loading state']);
+    assert.equal(a.length, 256, 'Vector should have the configured dimensions');
+    assert.deepEqual([...a], [...b], 'Same text should always produce the same vector');
+    assert.ok(Math.abs(cosineSimilarity(a, a) - 1) < 1e-5, 'Vectors should be L2-normalised');
+    console.log(`✓ Test 1 passed: deterministic unit vectors (id: ${embedder.id})`);
+}
+
+// ── Test 2: Similarity ordering ──────────────────────────────────────────────
+{
+    const [query, related, unrelated] = await embedder.embed([
+        'show a loading spinner on the button',
+        'Set the loading prop to display a loader inside the Button.',
+        'Configure OAuth2 client credentials for the API gateway.',
+    ]);
+    const relatedScore = cosineSimilarity(query, related);
+    const unrelatedScore = cosineSimilarity(query, unrelated);
+    assert.ok(relatedScore > unrelatedScore,
+        `Related text should score higher (${relatedScore.toFixed(3)} vs ${unrelatedScore.toFixed(3)})`);
+    console.log(`✓ Test 2 passed: related ${relatedScore.toFixed(3)} > unrelated ${unrelatedScore.toFixed(3)}`);
+}
+
+// ── Test 3: Reciprocal Rank Fusion ───────────────────────────────────────────
+{
+    const lexical = [1, 2, 3];
+    const semantic = [4, 2, 5];
+    const fused = reciprocalRankFusion([lexical, semantic]);
+
+    assert.equal(fused[0].id, 2, 'Item found by both retrievers should rank first');
+    assert.deepEqual(new Set(fused.map(f => f.id)), new Set([1, 2, 3, 4, 5]), 'Every candidate should be kept');
+    assert.ok(fused.every((f, i) => i === 0 || fused[i - 1].score >= f.score), 'Scores should be descending');
+    console.log(`✓ Test 3 passed: RRF order ${JSON.stringify(fused.map(f => f.id))}`);
+}
+
+console.log('\n✅ All embeddings tests passed!');
@@ -0,0 +1,101 @@
+/**
+ * Test: Export root confinement
+ *
+ * Verifies that client-supplied file paths resolve inside the export root,
+ * that absolute paths and `..` escapes are refused, and that a server for
+ * HTTP clients refuses file paths until an export root is configured —
+ * checked through export_index and import_index on in-memory transports.
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { configureDatabase, closeDatabases, upsertDocument, upsertChunks } from '../src/db.js';
+import { configureExportRoot, getExportRoot, resolveToolPath } from '../src/exportroot.js';
+import { createServer } from '../src/server.js';
+
+console.log('Running export root tests...\n');
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webscribe-exportroot-'));
+configureDatabase({ path: ':memory:' });
+upsertDocument('https://a.test/', 'latest', 'a.test', 'A', '# A');
+upsertChunks('https://a.test/', 'latest', [{ heading_path: ['A'], content: 'About a.' }]);
+
+async function connect(remote: boolean): Promise<Client> {
+    const server = createServer({ remote });
+    const client = new Client({ name: 'exportroot-test', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    return client;
+}
+
+async function call(client: Client, name: string, args: Record<string, unknown>) {
+    const result = await client.callTool({ name, arguments: args });
+    return { text: (result.content as Array<{ text: string }>)[0].text, isError: result.isError ?? false };
+}
+
+try {
+    // ── Test 1: Resolving paths ─────────────────────────────────────────────────
+    {
+        configureExportRoot(dir);
+        assert.equal(getExportRoot(), dir);
+        assert.equal(resolveToolPath('bundles/a.jsonl', false), path.join(dir, 'bundles', 'a.jsonl'));
+        assert.equal(resolveToolPath('x/../a.jsonl', true), path.join(dir, 'a.jsonl'), '.. inside the root is fine');
+        assert.equal(resolveToolPath('..notes', true), path.join(dir, '..notes'));
+        assert.equal(resolveToolPath('.', true), dir);
+
+        assert.throws(() => resolveToolPath('/etc/passwd', false), /Absolute paths are not allowed/);
+        assert.throws(() => resolveToolPath('../outside.jsonl', false), /outside the export root/);
+        assert.throws(() => resolveToolPath('a/../../..', true), /outside the export root/);
+
+        configureExportRoot(null);
+        process.env.WEBSCRIBE_EXPORT_ROOT = 'exports';
+        assert.equal(getExportRoot(), path.resolve('exports'));
+        delete process.env.WEBSCRIBE_EXPORT_ROOT;
+        assert.equal(getExportRoot(), null);
+        assert.equal(resolveToolPath('a.jsonl', false), path.resolve('a.jsonl'), 'stdio defaults to the working directory');
+        assert.throws(() => resolveToolPath('a.jsonl', true), /File paths are disabled over HTTP/);
+        console.log('✓ Test 1 passed: paths resolve inside the root, escapes are refused');
+    }
+
+    // ── Test 2: File tools over stdio and HTTP ──────────────────────────────────
+    {
+        const local = await connect(false);
+        const remote = await connect(true);
+        try {
+            const refused = await call(remote, 'export_index', { path: 'a.jsonl' });
+            assert.equal(refused.isError, true);
+            assert.match(refused.text, /File paths are disabled over HTTP/);
+            assert.match((await call(remote, 'export_markdown_tree', { domain: 'a.test', output_dir: 'mirror' })).text, /disabled over HTTP/);
+            assert.match((await call(remote, 'export_llms_txt', { domain: 'a.test', output_dir: 'llms' })).text, /disabled over HTTP/);
+
+            configureExportRoot(dir);
+            const exported = await call(remote, 'export_index', { path: 'a.jsonl' });
+            assert.equal(exported.isError, false, exported.text);
+            assert.equal(JSON.parse(exported.text).path, path.join(dir, 'a.jsonl'));
+            assert.ok(fs.existsSync(path.join(dir, 'a.jsonl')));
+
+            const escaped = await call(remote, 'import_index', { path: '../a.jsonl' });
+            assert.deepEqual([escaped.isError, /outside the export root/.test(escaped.text)], [true, true]);
+            const absolute = await call(local, 'import_index', { path: path.join(dir, 'a.jsonl') });
+            assert.deepEqual([absolute.isError, /Absolute paths are not allowed/.test(absolute.text)], [true, true]);
+
+            const imported = await call(local, 'import_index', { path: 'a.jsonl' });
+            assert.equal(imported.isError, false, imported.text);
+            assert.equal(JSON.parse(imported.text).documents, 1);
+        } finally {
+            await local.close();
+            await remote.close();
+        }
+        console.log('✓ Test 2 passed: HTTP sessions need an export root, every session stays inside it');
+    }
+} finally {
+    configureExportRoot(null);
+    closeDatabases();
+    fs.rmSync(dir, { recursive: true, force: true });
+}
+
+console.log('\n✅ All export root tests passed!');
@@ -0,0 +1,129 @@
+/**
+ * Test: Streamable HTTP transport
+ *
+ * Starts the HTTP server on an ephemeral port to verify that it binds to
+ * loopback by default, that an initialize request opens a session a client
+ * can keep using, that requests with an unknown or missing session id
+ * are rejected, and that a foreign Host or Origin header (DNS rebinding)
+ * gets 403.
+ */
+
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import os from 'node:os';
+import type { AddressInfo } from 'node:net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { configureDatabase, closeDatabases } from '../src/db.js';
+import { startHttpServer, allowedHostsFor, MCP_HTTP_PATH } from '../src/http.js';
+
+console.log('Running HTTP transport tests...\n');
+
+configureDatabase({ path: ':memory:' });
+
+const httpServer = await startHttpServer(0);
+const { address, port } = httpServer.address() as AddressInfo;
+const endpoint = `http://127.0.0.1:${port}${MCP_HTTP_PATH}`;
+
+const post = (body: unknown, headers: Record<string, string> = {}) => fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+    body: JSON.stringify(body),
+});
+
+try {
+    // ── Test 1: Default bind address ────────────────────────────────────────────
+    {
+        assert.equal(address, '127.0.0.1', 'Only loopback unless a host is given');
+        assert.ok(port > 0);
+        assert.equal((await fetch(`http://127.0.0.1:${port}/other`)).status, 404);
+        console.log(`✓ Test 1 passed: listening on ${address}:${port}`);
+    }
+
+    // ── Test 2: initialize creates a session ────────────────────────────────────
+    let endedSession = '';
+    {
+        const transport = new StreamableHTTPClientTransport(new URL(endpoint));
+        const client = new Client({ name: 'http-test', version: '1.0.0' });
+        await client.connect(transport);
+        try {
+            assert.match(transport.sessionId ?? '', /^[0-9a-f-]{36}$/, 'The server assigns a session id');
+            const { tools } = await client.listTools();
+            assert.ok(tools.some(t => t.name === 'search_crawled_docs'), 'The session serves the tool set');
+            endedSession = transport.sessionId!;
+        } finally {
+            await transport.terminateSession();
+            await client.close();
+        }
+        console.log('✓ Test 2 passed: initialize opens a session that later requests reuse');
+    }
+
+    // ── Test 3: Unknown and missing session ids ─────────────────────────────────
+    {
+        const listTools = { jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} };
+
+        const unknown = await post(listTools, { 'mcp-session-id': '00000000-0000-0000-0000-000000000000' });
+        assert.equal(unknown.status, 400);
+        assert.match((await unknown.json()).error.message, /no valid session ID/);
+
+        const ended = await post(listTools, { 'mcp-session-id': endedSession });
+        assert.equal(ended.status, 400, 'A terminated session is gone');
+        await ended.body?.cancel();
+
+        const missing = await post(listTools);
+        assert.equal(missing.status, 400, 'Only initialize may omit the session id');
+        await missing.body?.cancel();
+
+        const stream = await fetch(endpoint, { headers: { Accept: 'text/event-stream', 'mcp-session-id': 'nope' } });
+        assert.equal(stream.status, 400);
+        assert.match((await stream.json()).error.message, /invalid or missing session ID/);
+
+        const invalid = await fetch(endpoint, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{' });
+        assert.equal(invalid.status, 400);
+        assert.equal((await invalid.json()).error.code, -32700);
+        console.log('✓ Test 3 passed: unknown session ids are rejected');
+    }
+
+    // ── Test 4: DNS rebinding protection ────────────────────────────────────────
+    {
+        const initialize = {
+            jsonrpc: '2.0', id: 1, method: 'initialize',
+            params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'http-test', version: '1.0.0' } },
+        };
+
+        const foreign = await post(initialize, { Origin: 'http://evil.test' });
+        assert.equal(foreign.status, 403);
+        assert.match((await foreign.json()).error.message, /Invalid Origin header: http:\/\/evil\.test/);
+
+        // fetch() won't override Host, so send the rebound request by hand
+        const rebound = await new Promise<{ status: number; body: string }>((resolve, reject) => {
+            const req = http.request(endpoint, {
+                method: 'POST',
+                headers: { Host: `evil.test:${port}`, 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+            }, res => {
+                let body = '';
+                res.on('data', chunk => { body += chunk; });
+                res.on('end', () => resolve({ status: res.statusCode!, body }));
+            });
+            req.on('error', reject);
+            req.end(JSON.stringify(initialize));
+        });
+        assert.equal(rebound.status, 403);
+        assert.match(rebound.body, /Invalid Host header: evil\.test/);
+
+        const local = await post(initialize, { Origin: `http://localhost:${port}` });
+        assert.equal(local.status, 200, 'Pages served by this host are allowed');
+        await fetch(endpoint, { method: 'DELETE', headers: { 'mcp-session-id': local.headers.get('mcp-session-id')! } });
+
+        assert.deepEqual(allowedHostsFor('127.0.0.1', 3333), ['127.0.0.1:3333', 'localhost:3333', '[::1]:3333']);
+        assert.ok(allowedHostsFor('::1', 80).includes('[::1]:80'));
+        assert.ok(allowedHostsFor('0.0.0.0', 3333).includes(`${os.hostname().toLowerCase()}:3333`), 'All interfaces: the machine name too');
+        console.log('✓ Test 4 passed: foreign Host and Origin headers are refused with 403');
+    }
+} finally {
+    httpServer.closeAllConnections();
+    await new Promise(resolve => httpServer.close(resolve));
+    closeDatabases();
+}
+
+console.log('\n✅ All HTTP transport tests passed!');
@@ -9,8 +9,15 @@
  */
 
 import { extractSinglePage } from '../src/crawler.js';
-import { searchDocuments, getDocument, getChunkCount } from '../src/db.js';
+import { searchDocuments, getDocument, getChunkCount, configureDatabase } from '../src/db.js';
 import assert from 'node:assert/strict';
+import os from 'node:os';
+import path from 'node:path';
+
+// Crawl into a throwaway index rather than the user's real one (set WEBSCRIBE_DB_PATH to keep it)
+if (!process.env.WEBSCRIBE_DB_PATH) {
+    configureDatabase({ path: path.join(os.tmpdir(), `webscribe-integration-${process.pid}.db`) });
+}
 
 const TEST_URL = 'https://cube.dev/docs/product/data-modeling/overview';
 const TEST_VERSION = 'test-integration';
@@ -47,7 +54,7 @@ console.log(`✓ Step 4 passed: ${chunkCount} semantic chunks in DB`);
 
 // ── Step 5: FTS5 search returns relevant results ──────────────────────────────
 console.log('Step 5: Searching for "measures quantitative"...');
-const results = searchDocuments('measures quantitative', TEST_VERSION);
+const results = searchDocuments('measures quantitative', { version: TEST_VERSION });
 // Fallback search in case FTS doesn't find it in test version
 const fallbackResults = results.length > 0 ? results : searchDocuments('cube data model');
 assert.ok(fallbackResults.length > 0, 'FTS5 search should return at least one result');
@@ -0,0 +1,171 @@
+/**
+ * Test: Background crawl jobs
+ *
+ * Runs jobs.ts with a fake crawl runner (no browser, no database) to verify
+ * that a job reports progress while running and its URLs once completed,
+ * that cancelling aborts the crawl and leaves the job 'cancelled', that
+ * only the most recent finished jobs are kept, and that start_crawl streams
+ * progress notifications until the job ends or the client disconnects.
+ */
+
+import assert from 'node:assert/strict';
+import {
+    startCrawlJob,
+    getCrawlJob,
+    listCrawlJobs,
+    cancelCrawlJob,
+    setCrawlRunner,
+    MAX_FINISHED_JOBS,
+} from '../src/jobs.js';
+import type { CrawlJob, CrawlJobParams } from '../src/jobs.js';
+import type { CrawlHooks } from '../src/crawler.js';
+import { createServer } from '../src/server.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ProgressNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+
+console.log('Running crawl job tests...\n');
+
+const params: CrawlJobParams = { kind: 'site', url: 'https://docs.test/', version: 'latest', max_pages: 2 };
+
+// Resolves once the job has left 'running'
+async function settled(id: string): Promise<CrawlJob> {
+    for (let i = 0; i < 200; i++) {
+        const job = getCrawlJob(id);
+        if (job && job.status !== 'running') return job;
+        await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    throw new Error(`Job ${id} never finished`);
+}
+
+try {
+    // ── Test 1: start → running → completed ─────────────────────────────────────
+    {
+        let release!: () => void;
+        const gate = new Promise<void>(resolve => { release = resolve; });
+        setCrawlRunner(async (p, hooks) => {
+            hooks.onProgress?.({ done: 1, queued: 1, failed: 0 });
+            await gate;
+            hooks.onProgress?.({ done: 2, queued: 0, failed: 0 });
+            return [p.url, `${p.url}guide`];
+        });
+
+        const seen: number[] = [];
+        const started = startCrawlJob(params, job => seen.push(job.progress.done));
+        assert.equal(started.status, 'running');
+        assert.equal(started.finished_at, null);
+
+        const running = getCrawlJob(started.id)!;
+        assert.equal(running.status, 'running');
+        assert.deepEqual(running.progress, { done: 1, queued: 1, failed: 0 });
+        running.progress.done = 99;
+        assert.equal(getCrawlJob(started.id)!.progress.done, 1, 'Callers get snapshots, not the live job');
+
+        release();
+        const done = await settled(started.id);
+        assert.equal(done.status, 'completed');
+        assert.deepEqual(done.crawled_urls, ['https://docs.test/', 'https://docs.test/guide']);
+        assert.ok(done.finished_at);
+        assert.deepEqual(seen, [1, 2]);
+        console.log('✓ Test 1 passed: a job runs in the background and keeps its result');
+    }
+
+    // ── Test 2: Cancellation ────────────────────────────────────────────────────
+    {
+        setCrawlRunner((_p, hooks) => new Promise(resolve => {
+            hooks.signal!.addEventListener('abort', () => resolve(['https://docs.test/']));
+        }));
+        const job = startCrawlJob(params);
+        assert.equal(cancelCrawlJob(job.id)!.status, 'running', 'The crawl stops before its next page');
+
+        const cancelled = await settled(job.id);
+        assert.equal(cancelled.status, 'cancelled');
+        assert.deepEqual(cancelled.crawled_urls, ['https://docs.test/'], 'Pages stored so far are kept');
+        assert.equal(cancelCrawlJob('no-such-job'), null);
+
+        setCrawlRunner(async () => { throw new Error('browser missing'); });
+        const failed = await settled(startCrawlJob(params).id);
+        assert.equal(failed.status, 'failed');
+        assert.equal(failed.error, 'browser missing');
+        console.log('✓ Test 2 passed: cancel moves a job to cancelled, errors to failed');
+    }
+
+    // ── Test 3: Pruning finished jobs ───────────────────────────────────────────
+    {
+        setCrawlRunner(async p => [p.url]);
+        const ids: string[] = [];
+        for (let i = 0; i < MAX_FINISHED_JOBS + 5; i++) {
+            ids.push(startCrawlJob(params).id);
+            // Distinct start times keep the oldest-first order well defined
+            await new Promise(resolve => setTimeout(resolve, 2));
+        }
+        for (const id of ids.slice(-1)) await settled(id);
+
+        const jobs = listCrawlJobs();
+        assert.equal(jobs.length, MAX_FINISHED_JOBS);
+        assert.equal(jobs[0].id, ids[ids.length - 1], 'Most recently started first');
+        assert.equal(getCrawlJob(ids[0]), null, 'The oldest jobs are dropped');
+        console.log('✓ Test 3 passed: only the most recent finished jobs are kept');
+    }
+
+    // ── Test 4: start_crawl progress notifications ──────────────────────────────
+    {
+        // Each started crawl waits for the test to report its pages
+        const crawls: Array<{ hooks: CrawlHooks; finish: () => void }> = [];
+        setCrawlRunner((p, hooks) => new Promise(resolve => {
+            crawls.push({ hooks, finish: () => resolve([p.url]) });
+        }));
+        const tick = () => new Promise(resolve => setTimeout(resolve, 10));
+
+        const server = createServer();
+        let sent = 0;
+        const notification = server.notification.bind(server);
+        server.notification = (n, options) => { sent++; return notification(n, options); };
+        const client = new Client({ name: 'jobs-test', version: '1.0.0' });
+        const received: Array<{ progressToken: string | number; progress: number; total?: number; message?: string }> = [];
+        client.setNotificationHandler(ProgressNotificationSchema, n => { received.push(n.params); });
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+        const start = async (progressToken?: string) => {
+            const result = await client.callTool({
+                name: 'start_crawl',
+                arguments: { url: 'https://docs.test/', max_pages: 3 },
+                ...(progressToken ? { _meta: { progressToken } } : {}),
+            });
+            return JSON.parse((result.content as Array<{ text: string }>)[0].text).job_id as string;
+        };
+
+        const id = await start('crawl-1');
+        const [crawl] = crawls;
+        crawl.hooks.onProgress!({ done: 1, queued: 2, failed: 0 });
+        crawl.hooks.onProgress!({ done: 2, queued: 1, failed: 1 });
+        await tick();
+        assert.deepEqual(received, [
+            { progressToken: 'crawl-1', progress: 1, total: 3, message: '1 pages done, 2 queued, 0 failed' },
+            { progressToken: 'crawl-1', progress: 2, total: 3, message: '2 pages done, 1 queued, 1 failed' },
+        ], 'Progress keeps coming after start_crawl has returned');
+
+        crawl.finish();
+        await settled(id);
+        crawl.hooks.onProgress!({ done: 3, queued: 0, failed: 1 });
+        await tick();
+        assert.equal(received.length, 2, 'Nothing is sent once the job has finished');
+
+        await start();
+        crawls[1].hooks.onProgress!({ done: 1, queued: 0, failed: 0 });
+        await tick();
+        assert.equal(received.length, 2, 'No progressToken, no notifications');
+
+        await start('crawl-3');
+        await client.close();
+        const before = sent;
+        crawls[2].hooks.onProgress!({ done: 1, queued: 0, failed: 0 });
+        assert.equal(sent, before, 'Nothing is sent after the client disconnected');
+        for (const c of crawls.slice(1)) c.finish();
+        console.log('✓ Test 4 passed: start_crawl streams progress until the job ends or the client leaves');
+    }
+} finally {
+    setCrawlRunner(null);
+}
+
+console.log('\n✅ All crawl job tests passed!');
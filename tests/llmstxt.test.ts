@@ -0,0 +1,99 @@
+/**
+ * Test: llms.txt generation
+ *
+ * Builds llms.txt / llms-full.txt from small in-memory page sets to verify
+ * link-order and sitemap-order page ordering, sections grouped by URL path,
+ * the llms.txt layout (title, summary, link lists with notes) and the
+ * cleaned llms-full.txt with per-section token counts.
+ */
+
+import assert from 'node:assert/strict';
+import { buildLlmsTxt, cleanMarkdown } from '../src/llmstxt.js';
+import type { LlmsPage } from '../src/llmstxt.js';
+import { estimateTokens } from '../src/tokens.js';
+
+console.log('Running llms.txt tests...\n');
+
+const pages: LlmsPage[] = [
+    {
+        url: 'https://ui.test/docs/components/button',
+        title: 'Button',
+        markdown: '# Button\n\nButtons trigger actions. They come in three sizes.\n\n![demo](https://ui.test/b.png)\n\n```tsx\n<Button />\n```',
+    },
+    {
+        url: 'https://ui.test/docs/guides/theming',
+        title: 'Theming',
+        markdown: '# Theming\n\nCustomise colors with a **theme** object. See [Button](/docs/components/button).',
+    },
+    {
+        url: 'https://ui.test/docs/',
+        title: 'Introduction',
+        markdown: '# Introduction\n\nUI Test is a React component library.\n\n- [Theming](./guides/theming)\n- [Installation](https://ui.test/docs/installation#npm)',
+    },
+    {
+        url: 'https://ui.test/docs/installation',
+        title: 'Installation',
+        markdown: '# Installation\n\nInstall the package from npm.\n\n<!-- nav -->\n\n\n\nnpm install ui-test   ',
+    },
+    {
+        url: 'https://ui.test/docs/guides/',
+        title: 'Guides',
+        markdown: '# Guides\n\nLonger walkthroughs.',
+    },
+];
+
+// ── Test 1: Link order and sections ─────────────────────────────────────────
+{
+    const result = buildLlmsTxt('ui.test', 'v2', pages);
+    assert.equal(result.order, 'links');
+    assert.equal(result.title, 'ui.test documentation (v2)');
+    assert.equal(result.summary, 'UI Test is a React component library.', 'Summary defaults to the root page');
+
+    const links = [...result.llms_txt.matchAll(/^- \[([^\]]+)\]/gm)].map(m => m[1]);
+    assert.deepEqual(links, ['Introduction', 'Installation', 'Theming', 'Guides', 'Button'],
+        'Breadth-first from the root, sections in order of first appearance');
+    assert.deepEqual(result.sections.map(s => [s.name, s.path, s.pages]), [
+        ['Overview', '/docs/', 2],
+        ['Guides', '/docs/guides/', 2],
+        ['Components', '/docs/components/', 1],
+    ]);
+    console.log('✓ Test 1 passed: pages follow links from the root, grouped by URL path');
+}
+
+// ── Test 2: Sitemap order ───────────────────────────────────────────────────
+{
+    const sitemap = ['https://ui.test/docs/components/button/', 'https://ui.test/docs/installation', 'https://ui.test/unknown'];
+    const result = buildLlmsTxt('ui.test', 'latest', pages, { sitemap, title: 'UI Test', summary: 'Components for React.' });
+    assert.equal(result.order, 'sitemap');
+    const links = [...result.llms_txt.matchAll(/^- \[([^\]]+)\]/gm)].map(m => m[1]);
+    assert.deepEqual(links.slice(0, 2), ['Button', 'Installation'], 'Sitemap pages come first');
+    assert.equal(links.length, pages.length, 'Pages missing from the sitemap still appear');
+
+    assert.equal(buildLlmsTxt('ui.test', 'latest', pages, { sitemap: ['https://ui.test/other'] }).order, 'links');
+    console.log('✓ Test 2 passed: sitemap order wins, unlisted pages follow in link order');
+}
+
+// ── Test 3: Output layout and token counts ──────────────────────────────────
+{
+    const result = buildLlmsTxt('ui.test', 'latest', pages, { title: 'UI Test', summary: 'Components for React.' });
+    assert.ok(result.llms_txt.startsWith('# UI Test\n\n> Components for React.\n\n## Overview\n\n'));
+    assert.match(result.llms_txt, /^- \[Button\]\(https:\/\/ui\.test\/docs\/components\/button\): Buttons trigger actions\.$/m);
+    assert.match(result.llms_txt, /^- \[Theming\]\(.+\): Customise colors with a theme object\.$/m);
+
+    const full = result.llms_full_txt;
+    assert.ok(full.includes('# Button\n\nSource: https://ui.test/docs/components/button\n\nButtons trigger actions.'),
+        'Each page gets one title heading and its source');
+    assert.ok(!full.includes('![demo]') && !full.includes('<!--'), 'Images and comments are dropped');
+    assert.ok(full.includes('```tsx\n<Button />\n```'), 'Code blocks are kept');
+    assert.ok(full.includes('See [Button](https://ui.test/docs/components/button).'), 'Relative links become absolute');
+    assert.equal(cleanMarkdown('a  \n\n\n\nb'), 'a\n\nb');
+
+    const sectionTokens = result.sections.reduce((sum, s) => sum + s.tokens, 0);
+    const headerTokens = estimateTokens('# UI Test\n\n> Components for React.\n');
+    assert.ok(Math.abs(result.tokens.llms_full_txt - headerTokens - sectionTokens) <= result.sections.length,
+        'Section token counts add up to llms-full.txt');
+    assert.ok(result.tokens.llms_txt > 0 && result.tokens.llms_txt < result.tokens.llms_full_txt);
+    console.log('✓ Test 3 passed: llms.txt layout, cleaned llms-full.txt, per-section tokens');
+}
+
+console.log('\n✅ All llms.txt tests passed!');
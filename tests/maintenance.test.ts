@@ -0,0 +1,122 @@
+/**
+ * Test: Index maintenance
+ *
+ * Damages a temporary index through a second connection (foreign keys off,
+ * FTS trigger dropped) to verify that --check-db reports every problem and
+ * the startup health check the FTS drift, that maintain_index removes orphaned
+ * rows and rebuilds the FTS5
+ * tables, and that VACUUM shrinks the file after pages were purged.
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import {
+    configureDatabase,
+    closeDatabases,
+    upsertDocument,
+    upsertChunks,
+    saveChunkEmbeddings,
+    searchDocuments,
+    getChunkCount,
+    purgeDomain,
+    maintainIndex,
+    checkDatabase,
+} from '../src/db.js';
+import { checkDatabaseHealth, scanDatabase } from '../src/maintenance.js';
+
+console.log('Running maintenance tests...\n');
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webscribe-maintenance-'));
+const file = path.join(dir, 'docs.db');
+configureDatabase({ path: file });
+
+function addPage(url: string, content: string) {
+    upsertDocument(url, 'latest', new URL(url).hostname, 'Page', content);
+    upsertChunks(url, 'latest', [{ heading_path: ['Intro'], content }, { heading_path: ['Usage'], content: `${content}\n\n\`\`\`js\nrun()\n\`\`\`` }]);
+}
+
+try {
+    addPage('https://a.test/keep', 'Kept page about lanterns.');
+    addPage('https://a.test/gone', 'Orphaned page about teapots.');
+
+    // ── Test 1: A healthy index ──────────────────────────────────────────────
+    {
+        const report = maintainIndex();
+        assert.equal(report.foreign_keys, true);
+        assert.deepEqual(report.orphans_removed, { chunks: 0, chunk_embeddings: 0, code_examples: 0, document_revisions: 0 });
+        assert.equal(report.foreign_key_violations, 0);
+        assert.deepEqual(report.fts.map(f => [f.table, f.integrity_before, f.integrity_after]),
+            [['chunks_fts', 'ok', 'ok'], ['code_examples_fts', 'ok', 'ok']]);
+        assert.equal(report.file, file);
+        console.log('✓ Test 1 passed: a healthy index passes every check');
+    }
+
+    // ── Test 2: Orphans and a stale FTS index are found and repaired ────────
+    {
+        closeDatabases();
+        const raw = new Database(file);
+        raw.pragma('foreign_keys = OFF');
+        raw.prepare(`DELETE FROM documents_v2 WHERE url = 'https://a.test/gone'`).run();
+        raw.prepare(`INSERT INTO chunk_embeddings (chunk_id, model, vector) VALUES (9999, 'test', x'00000000')`).run();
+        raw.prepare(`INSERT INTO code_examples (chunk_id, url, version, heading_path, code) VALUES (9999, 'https://a.test/x', 'latest', '[]', 'x()')`).run();
+        // A chunk deleted without its sync trigger leaves a stale FTS row
+        const keepId = (raw.prepare(`SELECT id FROM chunks WHERE url = 'https://a.test/keep' ORDER BY id LIMIT 1`).get() as { id: number }).id;
+        raw.exec(`DROP TRIGGER chunks_ad; DELETE FROM chunks WHERE id = ${keepId};`);
+        const problems = [
+            '2 orphaned row(s) in chunks',
+            '1 orphaned row(s) in chunk_embeddings',
+            '1 orphaned row(s) in code_examples',
+            '1 orphaned row(s) in document_revisions',
+            'chunks_fts indexes 4 row(s) but chunks has 3',
+        ];
+        assert.deepEqual(scanDatabase(raw), problems);
+        assert.deepEqual(checkDatabaseHealth(raw), ['chunks_fts indexes 4 row(s) but chunks has 3'], 'No orphan scans at startup');
+        raw.close();
+        assert.deepEqual(checkDatabase().problems, problems, '--check-db runs the full scan');
+
+        // Reopening runs the startup probe and reports its finding on stderr
+        const logged: string[] = [];
+        const write = process.stderr.write;
+        process.stderr.write = ((chunk: string) => { logged.push(String(chunk)); return true; }) as typeof process.stderr.write;
+        try {
+            saveChunkEmbeddings('test', []);
+        } finally {
+            process.stderr.write = write;
+        }
+        assert.ok(logged.some(line => line.includes('chunks_fts indexes 4 row(s) but chunks has 3; run maintain_index')), logged.join(''));
+        assert.ok(!logged.some(line => line.includes('orphaned')), logged.join(''));
+
+        const report = maintainIndex();
+        assert.deepEqual(report.orphans_removed, { chunks: 2, chunk_embeddings: 1, code_examples: 1, document_revisions: 1 });
+        assert.notEqual(report.fts[0].integrity_before, 'ok');
+        assert.equal(report.fts[0].integrity_after, 'ok');
+        assert.equal(getChunkCount(), 1);
+        assert.deepEqual(searchDocuments('teapots'), [], 'Orphaned chunks leave the search index');
+        assert.equal(searchDocuments('lanterns').length, 1);
+
+        closeDatabases();
+        const check = new Database(file, { readonly: true });
+        assert.deepEqual(scanDatabase(check), []);
+        check.close();
+        console.log('✓ Test 2 passed: orphans removed and FTS rebuilt after damage');
+    }
+
+    // ── Test 3: VACUUM reclaims purged space ─────────────────────────────────
+    {
+        const filler = 'Lorem ipsum dolor sit amet. '.repeat(2000);
+        for (let i = 0; i < 20; i++) addPage(`https://bulk.test/${i}`, `${filler} ${i}`);
+        purgeDomain('bulk.test');
+        const report = maintainIndex();
+        assert.ok(report.size_after < report.size_before, `${report.size_after} < ${report.size_before}`);
+        assert.equal(fs.existsSync(`${file}-wal`) ? fs.statSync(`${file}-wal`).size : 0, 0, 'WAL is checkpointed');
+        console.log('✓ Test 3 passed: vacuum shrinks the database after a purge');
+    }
+} finally {
+    closeDatabases();
+    fs.rmSync(dir, { recursive: true, force: true });
+}
+
+console.log('\n✅ All maintenance tests passed!');
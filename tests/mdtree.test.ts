@@ -0,0 +1,97 @@
+/**
+ * Test: Markdown tree export
+ *
+ * Builds and writes a markdown mirror of a few in-memory pages (into a
+ * temporary directory) to verify URL-to-file path mapping, YAML front
+ * matter, relative rewriting of links between mirrored pages, and the
+ * generated index.md.
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { buildMarkdownTree, writeMarkdownTree } from '../src/mdtree.js';
+import type { DocumentRow } from '../src/db.js';
+
+console.log('Running markdown tree tests...\n');
+
+function doc(url: string, title: string, markdown: string, etag: string | null = null): DocumentRow {
+    return { url, version: 'v5', domain: 'ui.test', title, markdown, etag, last_modified: null, timestamp: '2026-10-19 09:12:03' };
+}
+
+const docs = [
+    doc('https://ui.test/', 'Home', '# Home\n\nStart with [the guide](/docs/guides/theming#colors).'),
+    doc('https://ui.test/docs/guides/theming/', 'Theming "basics"', [
+        '# Theming',
+        '',
+        'Back to [home](https://ui.test/) or see [Button](../../components/button.html) and [Card](/docs/components/card).',
+        '',
+        'Inline `[not a link](/docs/components/button)` and:',
+        '',
+        '```md',
+        '[Button](/docs/components/button)',
+        '```',
+    ].join('\n'), '"abc"'),
+    doc('https://ui.test/docs/components/button.html', 'Button', '# Button\n\nSee [Theming](/docs/guides/theming/).'),
+];
+
+const tree = buildMarkdownTree('ui.test', 'v5', docs);
+const byPath = new Map(tree.files.map(f => [f.path, f]));
+
+// ── Test 1: Paths and front matter ──────────────────────────────────────────
+{
+    assert.deepEqual(tree.files.map(f => f.path), ['_index.md', 'docs/components/button.md', 'docs/guides/theming.md', 'index.md']);
+
+    const theming = byPath.get('docs/guides/theming.md')!.content;
+    assert.ok(theming.startsWith([
+        '---',
+        'url: "https://ui.test/docs/guides/theming/"',
+        'title: "Theming \\"basics\\""',
+        'version: "v5"',
+        'crawled: "2026-10-19T09:12:03Z"',
+        'etag: "\\"abc\\""',
+        '---',
+        '',
+        '# Theming',
+    ].join('\n')));
+    assert.match(byPath.get('_index.md')!.content, /^etag: null$/m);
+    console.log('✓ Test 1 passed: file paths mirror URLs, front matter carries page metadata');
+}
+
+// ── Test 2: Link rewriting ──────────────────────────────────────────────────
+{
+    const theming = byPath.get('docs/guides/theming.md')!.content;
+    assert.ok(theming.includes('Back to [home](../../_index.md) or see [Button](../components/button.md)'));
+    assert.ok(theming.includes('[Card](/docs/components/card)'), 'Links to pages that were not cached stay as they are');
+    assert.ok(theming.includes('`[not a link](/docs/components/button)`'), 'Inline code is left alone');
+    assert.ok(theming.includes('```md\n[Button](/docs/components/button)\n```'), 'Code blocks are left alone');
+    assert.ok(byPath.get('_index.md')!.content.includes('[the guide](docs/guides/theming.md#colors)'), 'Fragments are kept');
+    assert.ok(byPath.get('docs/components/button.md')!.content.includes('[Theming](../guides/theming.md)'));
+    assert.equal(tree.links_rewritten, 4);
+    console.log('✓ Test 2 passed: links between mirrored pages become relative .md links');
+}
+
+// ── Test 3: Index and writing ───────────────────────────────────────────────
+{
+    const index = byPath.get('index.md')!.content;
+    assert.ok(index.startsWith('# ui.test (v5)\n'));
+    assert.match(index, /## \/\n\n- \[Home\]\(_index\.md\)/);
+    assert.match(index, /## docs\/components\/\n\n- \[Button\]\(docs\/components\/button\.md\)/);
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webscribe-mdtree-'));
+    try {
+        const result = writeMarkdownTree(path.join(dir, 'out'), tree);
+        assert.equal(result.pages, 3);
+        assert.equal(fs.readFileSync(path.join(dir, 'out', 'docs', 'guides', 'theming.md'), 'utf8'), byPath.get('docs/guides/theming.md')!.content);
+        assert.ok(fs.existsSync(result.index));
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+
+    const clash = buildMarkdownTree('ui.test', 'v5', [doc('https://ui.test/a?tab=1', 'A1', ''), doc('https://ui.test/A', 'A', '')]);
+    assert.deepEqual(clash.files.map(f => f.path).sort(), ['A.md', 'a-2.md', 'index.md']);
+    console.log('✓ Test 3 passed: index.md lists pages by folder, clashing paths get a suffix');
+}
+
+console.log('\n✅ All markdown tree tests passed!');
@@ -0,0 +1,102 @@
+/**
+ * Test: Schema migrations
+ *
+ * Runs migrations.ts with small fake migrations on in-memory and temporary
+ * databases to verify that migrations apply in order and bump user_version,
+ * that a failing migration rolls back without losing earlier steps, that an
+ * existing database is backed up before a destructive step, and that
+ * databases from a newer release are refused.
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import { runMigrations, migrationStatus, getSchemaVersion } from '../src/migrations.js';
+import type { Migration } from '../src/migrations.js';
+
+console.log('Running migration tests...\n');
+
+const base: Migration[] = [
+    { version: 1, description: 'Create pages', up: db => db.exec(`CREATE TABLE pages (url TEXT PRIMARY KEY)`) },
+    { version: 2, description: 'Add titles', up: db => db.exec(`ALTER TABLE pages ADD COLUMN title TEXT`) },
+];
+
+// ── Test 1: Ordered application and status ──────────────────────────────────
+{
+    const db = new Database(':memory:');
+    assert.deepEqual(migrationStatus(db, base, ':memory:').pending.map(m => m.version), [1, 2]);
+
+    const result = runMigrations(db, base, ':memory:');
+    assert.deepEqual(result, { applied: [1, 2], backup: null });
+    assert.equal(getSchemaVersion(db), 2);
+    db.prepare(`INSERT INTO pages (url, title) VALUES ('a', 'A')`).run();
+
+    assert.deepEqual(runMigrations(db, base, ':memory:').applied, [], 'Applied migrations must not run again');
+    const status = migrationStatus(db, base, ':memory:');
+    assert.equal(status.schema_version, 2);
+    assert.equal(status.pending.length, 0);
+
+    assert.throws(() => runMigrations(db, [base[1]], ':memory:'), /numbered 1, 2, 3/);
+    db.close();
+    console.log('✓ Test 1 passed: migrations apply once, in order, tracked by user_version');
+}
+
+// ── Test 2: A failing migration rolls back ──────────────────────────────────
+{
+    const db = new Database(':memory:');
+    const failing: Migration = {
+        version: 3,
+        description: 'Half-finished',
+        up: db => {
+            db.exec(`CREATE TABLE tags (name TEXT)`);
+            throw new Error('boom');
+        },
+    };
+    assert.throws(() => runMigrations(db, [...base, failing], ':memory:'), /boom/);
+    assert.equal(getSchemaVersion(db), 2, 'Earlier migrations stay applied');
+    const tags = db.prepare(`SELECT 1 FROM sqlite_master WHERE name = 'tags'`).get();
+    assert.equal(tags, undefined, 'The failing migration must leave no trace');
+    db.close();
+    console.log('✓ Test 2 passed: a failed migration is rolled back and retried later');
+}
+
+// ── Test 3: Backups and newer databases ─────────────────────────────────────
+{
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webscribe-migrations-'));
+    try {
+        const file = path.join(dir, 'docs.db');
+        const db = new Database(file);
+        const rebuild: Migration = {
+            version: 3,
+            description: 'Rebuild pages',
+            destructive: true,
+            up: db => db.exec(`DROP TABLE pages; CREATE TABLE pages (url TEXT PRIMARY KEY, title TEXT NOT NULL DEFAULT '')`),
+        };
+
+        // A new database has nothing to back up, even with destructive steps pending
+        assert.equal(migrationStatus(db, [...base, rebuild], file).backup_required, false);
+        runMigrations(db, base, file);
+        db.prepare(`INSERT INTO pages (url, title) VALUES ('a', 'A')`).run();
+
+        assert.equal(migrationStatus(db, [...base, rebuild], file).backup_required, true);
+        const { applied, backup } = runMigrations(db, [...base, rebuild], file);
+        assert.deepEqual(applied, [3]);
+        assert.ok(backup && fs.existsSync(backup), 'Destructive migrations back up the database first');
+        assert.match(path.basename(backup), /^docs\.db\.v2-.+\.bak$/);
+
+        const copy = new Database(backup, { readonly: true });
+        assert.equal(getSchemaVersion(copy), 2);
+        assert.deepEqual(copy.prepare(`SELECT url, title FROM pages`).all(), [{ url: 'a', title: 'A' }]);
+        copy.close();
+
+        assert.throws(() => runMigrations(db, base, file), /newer than this release supports/);
+        db.close();
+        console.log('✓ Test 3 passed: existing databases are backed up, newer ones refused');
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+console.log('\n✅ All migration tests passed!');
@@ -0,0 +1,90 @@
+/**
+ * Test: Document outlines
+ *
+ * Verifies that buildOutline() rebuilds a page's heading tree from chunks with
+ * inclusive section sizes, that max_depth prunes without losing size, that
+ * groupByPath() nests pages by URL path, and that the token estimator is sane.
+ */
+
+import assert from 'node:assert/strict';
+import { buildOutline, groupByPath } from '../src/outline.js';
+import { estimateTokens } from '../src/tokens.js';
+import { chunkMarkdown } from '../src/chunker.js';
+
+console.log('Running outline tests...\n');
+
+const md = `
+Preamble text before any heading.
+
+# Button
+
+Buttons trigger actions.
+
+## Usage
+
+Use one primary button per view.
+
+### Sizes
+
+Small, medium and large.
+
+## Accessibility
+
+Always provide an accessible label.
+`;
+const chunks = chunkMarkdown(md).map((c, i) => ({ ...c, chunk_id: 100 + i, ordinal: i }));
+
+// ── Test 1: Heading tree with chunk ids ──────────────────────────────────────
+{
+    const page = buildOutline('https://ds.test/button', 'Button', chunks);
+    assert.deepEqual(page.outline.map(n => n.heading), ['', 'Button'], 'Preamble comes first, unnamed');
+    const button = page.outline[1];
+    assert.deepEqual(button.children.map(n => n.heading), ['Usage', 'Accessibility']);
+    assert.deepEqual(button.children[0].children.map(n => n.heading_path), [['Button', 'Usage', 'Sizes']]);
+    assert.deepEqual(button.chunk_ids, [101]);
+    assert.deepEqual(button.children[0].children[0].chunk_ids, [103]);
+    console.log('✓ Test 1 passed: heading tree rebuilt from chunk breadcrumbs');
+}
+
+// ── Test 2: Sizes include subsections; max_depth keeps them ──────────────────
+{
+    const page = buildOutline('https://ds.test/button', 'Button', chunks);
+    const total = chunks.reduce((n, c) => n + c.content.length, 0);
+    assert.equal(page.chars, total);
+    const button = page.outline[1];
+    assert.equal(button.chars, total - chunks[0].content.length, 'Section size covers all its subsections');
+    assert.equal(button.tokens, button.children.reduce((n, c) => n + c.tokens, 0) + estimateTokens(chunks[1].content));
+
+    const shallow = buildOutline('https://ds.test/button', 'Button', chunks, 1);
+    assert.deepEqual(shallow.outline[1].children, [], 'Depth 1 keeps only top-level headings');
+    assert.equal(shallow.outline[1].chars, button.chars, 'Pruned sections still count towards their parent');
+    console.log('✓ Test 2 passed: inclusive section sizes, depth pruning');
+}
+
+// ── Test 3: Site table of contents grouped by URL path ───────────────────────
+{
+    const page = (url: string) => buildOutline(url, url, []);
+    const toc = groupByPath([
+        page('https://ds.test/components/tooltip'),
+        page('https://ds.test/getting-started'),
+        page('https://ds.test/components/'),
+        page('https://ds.test/components/button'),
+    ]);
+    assert.deepEqual(toc.pages.map(p => p.url), ['https://ds.test/getting-started']);
+    assert.deepEqual(toc.groups.map(g => g.path), ['/components/']);
+    assert.deepEqual(toc.groups[0].pages.map(p => new URL(p.url).pathname), ['/components/', '/components/button', '/components/tooltip']);
+    console.log('✓ Test 3 passed: pages grouped by URL path');
+}
+
+// ── Test 4: Token estimator ──────────────────────────────────────────────────
+{
+    assert.equal(estimateTokens(''), 0);
+    assert.equal(estimateTokens('the cat sat'), 3);
+    assert.ok(estimateTokens('foo(bar, baz);') > estimateTokens('foo bar baz'), 'Punctuation costs tokens');
+    const prose = 'Buttons trigger actions and should describe what happens when they are pressed. '.repeat(10);
+    const ratio = prose.length / estimateTokens(prose);
+    assert.ok(ratio > 3 && ratio < 6, `Prose should be roughly 4 chars per token, got ${ratio.toFixed(2)}`);
+    console.log('✓ Test 4 passed: token estimates are in the expected range');
+}
+
+console.log('\n✅ All outline tests passed!');
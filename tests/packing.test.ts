@@ -0,0 +1,88 @@
+/**
+ * Test: Context packing
+ *
+ * Verifies the build_context building blocks: question → query translation,
+ * near-duplicate removal, heading anchors, and that packContext() prefers
+ * larger sections while they fit, never repeats chunks, and never exceeds
+ * the token budget.
+ */
+
+import assert from 'node:assert/strict';
+import { packContext, dropNearDuplicates, headingAnchor } from '../src/packing.js';
+import type { PackOption } from '../src/packing.js';
+import { questionToQuery, parseSearchQuery } from '../src/query.js';
+import { estimateTokens } from '../src/tokens.js';
+
+console.log('Running context packing tests...\n');
+
+const words = (n: number, word: string) => Array.from({ length: n }, () => word).join(' ');
+
+function option(headingPath: string[], chunkIds: number[], size: number): PackOption {
+    return {
+        url: 'https://ds.test/button',
+        title: 'Button',
+        heading_path: headingPath,
+        chunk_ids: chunkIds,
+        markdown: words(size, headingPath[headingPath.length - 1].toLowerCase()),
+    };
+}
+
+// ── Test 1: Questions become OR queries ──────────────────────────────────────
+{
+    const query = questionToQuery('How do I show a loading spinner on the Button? Use useQueryClient OR not');
+    assert.equal(query, 'show OR loading OR spinner OR button OR usequeryclient OR not');
+    assert.doesNotThrow(() => parseSearchQuery(query), 'The derived query must always parse');
+    assert.equal(questionToQuery('How do I?'), '');
+    console.log(`✓ Test 1 passed: question → ${query}`);
+}
+
+// ── Test 2: Near-duplicates and anchors ──────────────────────────────────────
+{
+    const texts = [
+        'Set the loading prop to show a spinner while the action runs.',
+        'Set the loading prop to show a spinner while the action runs!',
+        'Sizes come in small, medium and large.',
+    ];
+    assert.deepEqual(dropNearDuplicates(texts, t => t), [texts[0], texts[2]]);
+    assert.equal(headingAnchor('Keyboard Navigation (ARIA)'), 'keyboard-navigation-aria');
+    console.log('✓ Test 2 passed: near-duplicates dropped, GitHub-style anchors');
+}
+
+// ── Test 3: Largest option that fits, no repeated chunks ─────────────────────
+{
+    const hits = [
+        // Hit in "Loading > Spinner": parent section (chunks 2–4), own section (3–4), chunk 3
+        [option(['Button', 'Loading'], [2, 3, 4], 300), option(['Button', 'Loading', 'Spinner'], [3, 4], 120), option(['Button', 'Loading', 'Spinner'], [3], 60)],
+        // A second hit already covered by the first one's parent section
+        [option(['Button', 'Loading'], [2], 40)],
+        [option(['Button', 'Sizes'], [7], 50)],
+    ];
+
+    const roomy = packContext(hits, 2000);
+    assert.deepEqual(roomy.citations.map(c => c.chunk_ids), [[2, 3, 4], [7]], 'Parent section packed; covered hit skipped');
+    assert.equal(roomy.omitted, 1);
+    assert.equal(roomy.citations[0].source, 'https://ds.test/button#loading');
+    assert.ok(roomy.markdown.includes('**[1]** Button › Loading'), 'H1 equal to the title is not repeated');
+    assert.ok(roomy.markdown.endsWith('[1] https://ds.test/button#loading\n[2] https://ds.test/button#sizes'));
+
+    const tight = packContext(hits, 350);
+    assert.deepEqual(tight.citations.map(c => c.chunk_ids)[0], [3, 4], 'Falls back to the own section when the parent is too big');
+    for (const budget of [200, 350, 700, 2000]) {
+        const packed = packContext(hits, budget);
+        assert.ok(estimateTokens(packed.markdown) <= budget, `Budget ${budget} exceeded: ${estimateTokens(packed.markdown)}`);
+    }
+    console.log('✓ Test 3 passed: largest fitting option, no repeats, budget respected');
+}
+
+// ── Test 4: Oversized best hit is truncated, not dropped ─────────────────────
+{
+    const packed = packContext([[option(['Button', 'Huge'], [9], 5000)]], 300);
+    assert.equal(packed.citations.length, 1);
+    assert.ok(packed.truncated);
+    assert.ok(packed.tokens <= 300, `Truncated pack should fit, got ${packed.tokens}`);
+    assert.ok(packed.markdown.includes('huge …'));
+    assert.deepEqual(packContext([], 300).citations, []);
+    console.log('✓ Test 4 passed: oversized top hit truncated to fit');
+}
+
+console.log('\n✅ All context packing tests passed!');
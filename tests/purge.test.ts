@@ -0,0 +1,117 @@
+/**
+ * Test: Deleting and purging pages
+ *
+ * Indexes pages of two domains in a temporary database, then deletes one
+ * page, purges a domain and purges a version to verify that every derived
+ * row goes with the page — chunks, chunks_fts entries, code examples and
+ * revisions — while other pages, versions and domains are left alone.
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import {
+    configureDatabase,
+    closeDatabases,
+    upsertDocument,
+    upsertChunks,
+    getDocument,
+    getDocumentChunks,
+    listDocumentRevisions,
+    searchDocuments,
+    searchCodeExamples,
+    deleteDocument,
+    purgeDomain,
+    purgeVersion,
+} from '../src/db.js';
+
+console.log('Running purge tests...\n');
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webscribe-purge-'));
+const file = path.join(dir, 'docs.db');
+configureDatabase({ path: file });
+
+function addPage(url: string, version: string) {
+    const markdown = `# Page\n\nAbout ${url} and zeppelins.\n\n\`\`\`js\nlaunchZeppelin()\n\`\`\``;
+    upsertDocument(url, version, new URL(url).hostname, 'Page', markdown);
+    upsertChunks(url, version, [
+        { heading_path: ['Intro'], content: `About ${url} and zeppelins.` },
+        { heading_path: ['Usage'], content: 'Launch one:\n\n```js\nlaunchZeppelin()\n```' },
+    ]);
+}
+
+// Everything the index holds for one page, through the public search paths
+function pageRows(url: string, version: string) {
+    return {
+        document: getDocument(url, version) !== null,
+        chunks: getDocumentChunks(url, version).length,
+        search: searchDocuments('zeppelins', { version }).filter(r => r.url === url).length,
+        code: searchCodeExamples('launchZeppelin', { version }).filter(r => r.url === url).length,
+        revisions: listDocumentRevisions(url, version).length,
+    };
+}
+
+const gone = { document: false, chunks: 0, search: 0, code: 0, revisions: 0 };
+const kept = { document: true, chunks: 2, search: 1, code: 1, revisions: 1 };
+
+try {
+    addPage('https://a.test/one', 'v1');
+    addPage('https://a.test/one', 'v2');
+    addPage('https://a.test/two', 'v1');
+    addPage('https://b.test/other', 'v1');
+    addPage('https://b.test/other', 'v2');
+    assert.deepEqual(pageRows('https://a.test/one', 'v1'), kept);
+
+    // ── Test 1: Deleting one page ───────────────────────────────────────────────
+    {
+        assert.deepEqual(deleteDocument('https://a.test/one', 'v1'), { documents: 1, chunks: 2 });
+        assert.deepEqual(pageRows('https://a.test/one', 'v1'), gone);
+        assert.deepEqual(pageRows('https://a.test/one', 'v2'), kept, 'Other versions of the page stay');
+        assert.deepEqual(pageRows('https://a.test/two', 'v1'), kept);
+        assert.deepEqual(deleteDocument('https://a.test/one', 'v1'), { documents: 0, chunks: 0 });
+        console.log('✓ Test 1 passed: deleting a page removes its chunks, search rows, code examples and revisions');
+    }
+
+    // ── Test 2: Purging a domain ────────────────────────────────────────────────
+    {
+        assert.deepEqual(purgeDomain('a.test', 'v2'), { documents: 1, chunks: 2 });
+        assert.deepEqual(pageRows('https://a.test/one', 'v2'), gone);
+        assert.deepEqual(pageRows('https://a.test/two', 'v1'), kept, 'Only the given version is purged');
+
+        assert.deepEqual(purgeDomain('a.test'), { documents: 1, chunks: 2 });
+        assert.deepEqual(pageRows('https://a.test/two', 'v1'), gone);
+        assert.deepEqual(pageRows('https://b.test/other', 'v1'), kept, 'Other domains are untouched');
+        assert.deepEqual(pageRows('https://b.test/other', 'v2'), kept);
+        console.log('✓ Test 2 passed: purging a domain leaves other domains alone');
+    }
+
+    // ── Test 3: Purging a version ───────────────────────────────────────────────
+    {
+        addPage('https://a.test/one', 'v1');
+        assert.deepEqual(purgeVersion('v1'), { documents: 2, chunks: 4 });
+        assert.deepEqual(pageRows('https://a.test/one', 'v1'), gone);
+        assert.deepEqual(pageRows('https://b.test/other', 'v1'), gone);
+        assert.deepEqual(pageRows('https://b.test/other', 'v2'), kept);
+
+        // No row of a removed page is left in any table, FTS indexes included
+        closeDatabases();
+        const raw = new Database(file, { readonly: true });
+        const count = (sql: string, ...params: string[]) => (raw.prepare(sql).get(...params) as { n: number }).n;
+        assert.equal(count(`SELECT COUNT(*) AS n FROM chunks WHERE url LIKE 'https://a.test/%' OR version = 'v1'`), 0);
+        // Only the intro chunk of b.test/other v2 is left to mention zeppelins
+        assert.equal(count(`SELECT COUNT(*) AS n FROM chunks_fts WHERE chunks_fts MATCH 'zeppelins'`), 1);
+        assert.equal(count(`SELECT COUNT(*) AS n FROM chunks_fts WHERE chunks_fts MATCH ?`, '"a.test"'), 0);
+        assert.equal(count(`SELECT COUNT(*) AS n FROM code_examples WHERE url LIKE 'https://a.test/%' OR version = 'v1'`), 0);
+        assert.equal(count(`SELECT COUNT(*) AS n FROM code_examples_fts WHERE code_examples_fts MATCH 'launchZeppelin'`), 1);
+        assert.equal(count(`SELECT COUNT(*) AS n FROM document_revisions WHERE url LIKE 'https://a.test/%' OR version = 'v1'`), 0);
+        raw.close();
+        console.log('✓ Test 3 passed: purging a version clears every table, only other versions remain');
+    }
+} finally {
+    closeDatabases();
+    fs.rmSync(dir, { recursive: true, force: true });
+}
+
+console.log('\n✅ All purge tests passed!');
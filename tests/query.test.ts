@@ -0,0 +1,79 @@
+/**
+ * Test: Search query parser
+ *
+ * Verifies that parseSearchQuery() translates phrases, prefixes, negation,
+ * OR and NEAR into FTS5 syntax, keeps plain queries identical to the old
+ * quote-every-term behaviour, and rejects malformed queries with a clear error.
+ * Generated expressions are run against an in-memory FTS5 table.
+ */
+
+import Database from 'better-sqlite3';
+import assert from 'node:assert/strict';
+import { parseSearchQuery } from '../src/query.js';
+
+console.log('Running query parser tests...\n');
+
+const db = new Database(':memory:');
+db.exec(`CREATE VIRTUAL TABLE docs USING fts5(content);`);
+const insert = db.prepare(`INSERT INTO docs (rowid, content) VALUES (?, ?)`);
+insert.run(1, 'Call useQueryClient to access the query client instance.');
+insert.run(2, 'The tooltip appears on hover. Tooltip placement is configurable.');
+insert.run(3, 'The popover is deprecated; use the tooltip instead.');
+insert.run(4, 'Focus management: the dialog keeps a focus trap while it is open.');
+
+function match(query: string): number[] {
+    const { fts } = parseSearchQuery(query);
+    return (db.prepare(`SELECT rowid FROM docs WHERE docs MATCH ? ORDER BY rowid`).all(fts) as Array<{ rowid: number }>)
+        .map(r => r.rowid);
+}
+
+// ── Test 1: Plain queries keep the old behaviour ─────────────────────────────
+{
+    assert.equal(parseSearchQuery('tooltip placement').fts, '"tooltip" "placement"');
+    assert.equal(parseSearchQuery('Array.prototype.flatMap a:b').fts, '"Array.prototype.flatMap" "a:b"',
+        'FTS5 special characters should be matched literally');
+    assert.equal(parseSearchQuery('   ').fts, '', 'Blank query should produce no expression');
+    assert.deepEqual(match('tooltip placement'), [2]);
+    console.log('✓ Test 1 passed: plain terms are quoted exactly as before');
+}
+
+// ── Test 2: Phrases and prefixes ─────────────────────────────────────────────
+{
+    assert.equal(parseSearchQuery('"focus trap"').fts, '"focus trap"');
+    assert.deepEqual(match('"focus trap"'), [4]);
+    assert.deepEqual(match('"trap focus"'), [], 'Phrase order should matter');
+
+    assert.equal(parseSearchQuery('useQuer*').fts, '"useQuer"*');
+    assert.deepEqual(match('useQuer*'), [1]);
+    console.log('✓ Test 2 passed: phrases and prefix queries');
+}
+
+// ── Test 3: Negation, OR and NEAR ────────────────────────────────────────────
+{
+    assert.deepEqual(match('tooltip -deprecated'), [2]);
+    assert.equal(parseSearchQuery('tooltip -deprecated').fts, '"tooltip" NOT "deprecated"');
+
+    assert.deepEqual(match('popover OR dialog'), [3, 4]);
+    assert.equal(parseSearchQuery('the popover OR dialog').fts, '"the" ("popover" OR "dialog")',
+        'OR should bind tighter than the implicit AND');
+
+    assert.deepEqual(match('NEAR(tooltip placement, 2)'), [2]);
+    assert.deepEqual(match('focus NEAR/1 open'), [], 'Terms further apart than the distance should not match');
+    assert.equal(parseSearchQuery('focus NEAR/3 trap').fts, 'NEAR("focus" "trap", 3)');
+    assert.equal(parseSearchQuery('NEAR("fn(x)" foo, 3)').fts, 'NEAR("fn(x)" "foo", 3)', "A ')' inside a phrase doesn't close NEAR(");
+    assert.equal(parseSearchQuery('NEAR(foo "a, b")').fts, 'NEAR("foo" "a, b")', "A ',' inside a phrase isn't the distance");
+    console.log('✓ Test 3 passed: negation, OR and NEAR');
+}
+
+// ── Test 4: Malformed queries ────────────────────────────────────────────────
+{
+    const bad = ['"unterminated', 'OR tooltip', 'tooltip OR', '-deprecated', 'tooltip -', 'NEAR(tooltip', 'NEAR(a "b)', 'a NEAR/x b', '*'];
+    for (const q of bad) {
+        assert.throws(() => parseSearchQuery(q), /^Error: Invalid search query: /, `Should reject: ${q}`);
+    }
+    assert.equal(parseSearchQuery('hooks -"class components"').text, 'hooks', 'Excluded terms are left out of the plain text');
+    console.log(`✓ Test 4 passed: ${bad.length} malformed queries rejected with a clear error`);
+}
+
+db.close();
+console.log('\n✅ All query parser tests passed!');
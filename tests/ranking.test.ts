@@ -0,0 +1,61 @@
+/**
+ * Test: Field-weighted BM25 ranking
+ *
+ * Uses an in-memory FTS5 table with the same columns as chunks_fts to verify:
+ * 1. Weight specs parse on top of the defaults and reject bad entries
+ * 2. A page titled "Tooltip" outranks pages that merely mention tooltips
+ * 3. Heading matches outrank body-only matches
+ */
+
+import Database from 'better-sqlite3';
+import assert from 'node:assert/strict';
+import { FTS_COLUMNS, DEFAULT_BM25_WEIGHTS, parseBm25Weights, bm25Expression } from '../src/ranking.js';
+
+console.log('Running ranking tests...\n');
+
+const db = new Database(':memory:');
+db.exec(`CREATE VIRTUAL TABLE chunks_fts USING fts5(${FTS_COLUMNS.join(', ')});`);
+const insert = db.prepare(`INSERT INTO chunks_fts (rowid, ${FTS_COLUMNS.join(', ')}) VALUES (?, ?, 'latest', ?, ?, ?, '')`);
+
+insert.run(1, 'https://ds.test/components/tooltip', 'Tooltip', '["Tooltip","Usage"]', 'Shows a short label when the user hovers an element.');
+insert.run(2, 'https://ds.test/components/icon-button', 'Icon Button', '["Icon Button","Accessibility"]',
+    'Always pair an icon button with a tooltip. The tooltip gives sighted users the same tooltip text as the aria-label.');
+insert.run(3, 'https://ds.test/components/popover', 'Popover', '["Popover","Tooltip vs popover"]', 'Popovers hold interactive content.');
+insert.run(4, 'https://ds.test/components/table', 'Table', '["Table","Sorting"]', 'Column headers may show a tooltip with the sort order.');
+for (let i = 5; i <= 12; i++) {
+    insert.run(i, `https://ds.test/components/c${i}`, `Component ${i}`, `["Component ${i}"]`, 'Unrelated content about layout and spacing.');
+}
+
+function rank(query: string, expression: string): number[] {
+    return (db.prepare(`
+        SELECT rowid FROM chunks_fts WHERE chunks_fts MATCH ? ORDER BY ${expression}
+    `).all(query) as Array<{ rowid: number }>).map(r => r.rowid);
+}
+
+// ── Test 1: Weight spec parsing ──────────────────────────────────────────────
+{
+    assert.deepEqual(parseBm25Weights(''), DEFAULT_BM25_WEIGHTS);
+    assert.deepEqual(parseBm25Weights(' title=20 , url=0 '), { ...DEFAULT_BM25_WEIGHTS, title: 20, url: 0 });
+    assert.throws(() => parseBm25Weights('summary=3'), /Unknown BM25 weight column 'summary'/);
+    assert.throws(() => parseBm25Weights('title=high'), /Invalid BM25 weight 'title=high'/);
+    assert.throws(() => parseBm25Weights('title=-1'), /Invalid BM25 weight/);
+    assert.equal(bm25Expression('chunks_fts', DEFAULT_BM25_WEIGHTS), 'bm25(chunks_fts, 2, 0, 10, 5, 1, 1)');
+    console.log('✓ Test 1 passed: weight specs parse and validate');
+}
+
+// ── Test 2: Title match beats body mentions ──────────────────────────────────
+{
+    const weighted = rank('"tooltip"', bm25Expression('chunks_fts', DEFAULT_BM25_WEIGHTS));
+    assert.equal(weighted[0], 1, `Tooltip page should rank first, got ${weighted}`);
+    console.log('✓ Test 2 passed: the Tooltip page ranks above pages that mention tooltips');
+}
+
+// ── Test 3: Heading match beats body-only match ──────────────────────────────
+{
+    const weighted = rank('"tooltip"', bm25Expression('chunks_fts', DEFAULT_BM25_WEIGHTS));
+    assert.ok(weighted.indexOf(3) < weighted.indexOf(4), 'Heading "Tooltip vs popover" should outrank a body mention');
+    console.log('✓ Test 3 passed: heading matches outrank body-only matches');
+}
+
+db.close();
+console.log('\n✅ All ranking tests passed!');
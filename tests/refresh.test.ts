@@ -0,0 +1,150 @@
+/**
+ * Test: Staleness policy and refresh_stale
+ *
+ * Parses WEBSCRIBE_STALE_TTL specs, selects stale pages from a temporary
+ * index by per-domain TTL, and refreshes pages served by a local HTTP server
+ * to verify that unchanged pages start a new TTL, 404/410 pages are reported
+ * gone (and tombstoned on request) and unreachable pages are reported failed.
+ * None of the pages needs re-extracting, so no browser is started.
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import {
+    configureDatabase,
+    closeDatabases,
+    importDocument,
+    upsertDocument,
+    upsertChunks,
+    getDocument,
+    getTombstone,
+    listStaleDocuments,
+    markDocumentChecked,
+    searchDocuments,
+} from '../src/db.js';
+import { parseDuration, parseStalePolicy, getStalePolicy, setStalePolicy, ttlFor, DEFAULT_STALE_TTL } from '../src/staleness.js';
+import { refreshStale } from '../src/crawler.js';
+
+console.log('Running refresh tests...\n');
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webscribe-refresh-'));
+configureDatabase({ path: path.join(dir, 'docs.db') });
+
+// Stores a page as if it had been crawled `daysAgo` days ago
+function addPage(url: string, daysAgo: number, etag: string | null = null) {
+    const timestamp = new Date(Date.now() - daysAgo * 86_400_000).toISOString().slice(0, 19).replace('T', ' ');
+    const markdown = `# ${url}\n\nContent of ${url} about quokkas.`;
+    importDocument(
+        { url, version: 'latest', domain: new URL(url).hostname, title: url, markdown, etag, last_modified: null, timestamp },
+        [{ heading_path: ['Intro'], content: markdown }],
+    );
+}
+
+async function listen(server: http.Server): Promise<number> {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return (server.address() as AddressInfo).port;
+}
+
+try {
+    // ── Test 1: Policy parsing ──────────────────────────────────────────────────
+    {
+        assert.equal(parseDuration('90m'), 5400);
+        assert.equal(parseDuration('1.5d'), 129_600);
+        assert.throws(() => parseDuration('7'), /Invalid duration '7'/);
+
+        assert.deepEqual(parseStalePolicy(''), { default_ttl: DEFAULT_STALE_TTL, domains: {} });
+        const policy = parseStalePolicy('14d, React.dev=1d ,docs.python.org=4w');
+        assert.deepEqual(policy, { default_ttl: 14 * 86400, domains: { 'react.dev': 86400, 'docs.python.org': 28 * 86400 } });
+        assert.equal(ttlFor('REACT.DEV', policy), 86400);
+        assert.equal(ttlFor('mui.com', policy), 14 * 86400);
+        assert.throws(() => parseStalePolicy('=1d'), /expected <domain>=<duration>/);
+        assert.throws(() => parseStalePolicy('mui.com=soon'), /Invalid duration 'soon'/);
+
+        process.env.WEBSCRIBE_STALE_TTL = '2w,a.test=36h';
+        setStalePolicy(null);
+        assert.deepEqual(getStalePolicy(), { default_ttl: 14 * 86400, domains: { 'a.test': 36 * 3600 } });
+        delete process.env.WEBSCRIBE_STALE_TTL;
+        setStalePolicy(null);
+        console.log('✓ Test 1 passed: durations, per-domain overrides and the environment spec');
+    }
+
+    // ── Test 2: Stale page selection ────────────────────────────────────────────
+    {
+        addPage('https://a.test/old', 3);
+        addPage('https://b.test/older', 4);
+        addPage('https://b.test/recent', 0.5);
+        const policy = parseStalePolicy('5d,b.test=1d');
+        const stale = (ttl = (domain: string) => ttlFor(domain, policy)) =>
+            listStaleDocuments(ttl).filter(d => d.url.includes('.test/')).map(d => d.url);
+
+        assert.deepEqual(stale(), ['https://b.test/older']);
+        assert.deepEqual(stale(() => 3600), ['https://b.test/older', 'https://a.test/old', 'https://b.test/recent'], 'Oldest first');
+        assert.deepEqual(listStaleDocuments(() => 3600, { domain: 'a.test' }).map(d => d.url), ['https://a.test/old']);
+        const [older] = listStaleDocuments(() => 3600, { domain: 'b.test' });
+        assert.ok(older.age_seconds >= 4 * 86400 - 5 && older.age_seconds <= 4 * 86400 + 5, String(older.age_seconds));
+
+        markDocumentChecked('https://b.test/older', 'latest');
+        assert.deepEqual(stale(), [], 'A confirmed page starts a new TTL');
+        console.log('✓ Test 2 passed: pages older than their domain TTL are selected, oldest first');
+    }
+
+    // ── Test 3: Refreshing against a live site ──────────────────────────────────
+    {
+        const server = http.createServer((req, res) => {
+            if (req.url === '/same') res.writeHead(200, { ETag: '"v1"' });
+            else if (req.url === '/deleted') res.writeHead(410);
+            else res.writeHead(404);
+            res.end();
+        });
+        const port = await listen(server);
+        // A port nothing listens on
+        const closed = http.createServer();
+        const closedPort = await listen(closed);
+        await new Promise(resolve => closed.close(resolve));
+
+        const base = `http://127.0.0.1:${port}`;
+        addPage(`${base}/same`, 5, '"v1"');
+        addPage(`${base}/removed`, 4, '"v1"');
+        addPage(`${base}/deleted`, 3, '"v1"');
+        addPage(`http://127.0.0.1:${closedPort}/down`, 2, '"v1"');
+
+        try {
+            const first = await refreshStale({ domain: '127.0.0.1', ttl: 3600, limit: 2 });
+            assert.equal(first.stale, 4);
+            assert.equal(first.checked, 2);
+            assert.deepEqual(first.unchanged.map(p => p.url), [`${base}/same`]);
+            assert.deepEqual(first.gone.map(p => [p.url, p.status]), [[`${base}/removed`, 404]]);
+            assert.equal(first.tombstoned, 0);
+            assert.ok(getDocument(`${base}/removed`), 'Gone pages stay without tombstone');
+
+            const second = await refreshStale({ domain: '127.0.0.1', ttl: 3600, tombstone: true });
+            assert.equal(second.stale, 3, 'The unchanged page is fresh again');
+            assert.deepEqual(second.gone.map(p => [p.url, p.status]), [[`${base}/removed`, 404], [`${base}/deleted`, 410]]);
+            assert.deepEqual(second.failed.map(p => p.url), [`http://127.0.0.1:${closedPort}/down`]);
+            assert.ok(second.failed[0].error);
+            assert.deepEqual(second.refreshed, []);
+            assert.equal(second.tombstoned, 2);
+
+            assert.equal(getDocument(`${base}/deleted`), null);
+            assert.equal(getTombstone(`${base}/deleted`)?.status, 410);
+            assert.deepEqual(searchDocuments('quokkas').map(r => r.url).filter(u => u.startsWith(base)), [`${base}/same`]);
+
+            // Crawling the page again clears its tombstone
+            upsertDocument(`${base}/deleted`, 'latest', '127.0.0.1', 'Back', '# Back');
+            upsertChunks(`${base}/deleted`, 'latest', [{ heading_path: ['Back'], content: 'Back again.' }]);
+            assert.equal(getTombstone(`${base}/deleted`), null);
+        } finally {
+            server.close();
+        }
+        console.log('✓ Test 3 passed: unchanged, gone and failed pages reported; gone pages tombstoned');
+    }
+} finally {
+    closeDatabases();
+    fs.rmSync(dir, { recursive: true, force: true });
+}
+
+console.log('\n✅ All refresh tests passed!');
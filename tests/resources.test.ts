@@ -0,0 +1,88 @@
+/**
+ * Test: MCP resource URIs
+ *
+ * Verifies that cached document URLs map to webscribe:// resource URIs
+ * and that those URIs parse back into their version, domain and path, and
+ * that a server only announces list changes for its own collection.
+ */
+
+import { toResourceUri, parseResourceUri } from '../src/resources.js';
+import { configureDatabase, closeDatabases, upsertDocument, withCollection } from '../src/db.js';
+import { createServer } from '../src/server.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import assert from 'node:assert/strict';
+
+console.log('Running resource URI tests...\n');
+
+// ── Test 1: URL → resource URI ───────────────────────────────────────────────
+{
+    const uri = toResourceUri('https://mui.com/material-ui/react-button/', 'v5');
+    assert.equal(uri, 'webscribe://v5/mui.com/material-ui/react-button/');
+
+    const withQuery = toResourceUri('https://docs.example.com/search?page=2', 'latest');
+    assert.equal(withQuery, 'webscribe://latest/docs.example.com/search?page=2', 'Query string should be kept');
+
+    assert.equal(toResourceUri('http://localhost:3000/docs', 'latest'), 'webscribe://latest/localhost:3000/docs', 'Port should be kept');
+    assert.equal(toResourceUri('https://example.com:443/docs', 'latest'), 'webscribe://latest/example.com/docs');
+    console.log(`✓ Test 1 passed: URL maps to resource URI (${uri})`);
+}
+
+// ── Test 2: Round-trip parse ─────────────────────────────────────────────────
+{
+    const uri = toResourceUri('https://cube.dev/docs/product/data-modeling/overview', 'v1.2 beta');
+    const parsed = parseResourceUri(uri);
+    assert.deepEqual(parsed, {
+        version: 'v1.2 beta',
+        domain: 'cube.dev',
+        path: 'docs/product/data-modeling/overview',
+    });
+
+    const local = parseResourceUri(toResourceUri('http://127.0.0.1:8080/guide/intro?lang=en', 'latest'));
+    assert.deepEqual(local, { version: 'latest', domain: '127.0.0.1:8080', path: 'guide/intro?lang=en' });
+    console.log('✓ Test 2 passed: resource URI parses back to version, domain and path');
+}
+
+// ── Test 3: Site root and invalid URIs ───────────────────────────────────────
+{
+    const root = parseResourceUri(toResourceUri('https://example.com', 'latest'));
+    assert.deepEqual(root, { version: 'latest', domain: 'example.com', path: '' }, 'Root page has an empty path');
+
+    assert.equal(parseResourceUri('https://example.com/page'), null, 'Non-webscribe URIs should be rejected');
+    assert.equal(parseResourceUri('webscribe://latest'), null, 'URIs without a domain should be rejected');
+    console.log('✓ Test 3 passed: root pages and invalid URIs handled');
+}
+
+// ── Test 4: list_changed per collection ──────────────────────────────────────
+{
+    configureDatabase({ path: ':memory:' });
+    const server = createServer();
+    const client = new Client({ name: 'resources-test', version: '1.0.0' });
+    let notifications = 0;
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => { notifications++; });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    const settle = () => new Promise(resolve => setTimeout(resolve, 20));
+
+    try {
+        withCollection('other', () => upsertDocument('http://localhost:3000/a', 'latest', 'localhost', 'A', '# A'));
+        await settle();
+        assert.equal(notifications, 0, 'Writes to another collection are not announced');
+
+        upsertDocument('http://localhost:3000/b', 'latest', 'localhost', 'B', '# B');
+        await settle();
+        assert.equal(notifications, 1);
+
+        const { resources } = await client.listResources();
+        assert.deepEqual(resources.map(r => r.uri), ['webscribe://latest/localhost:3000/b']);
+        const { contents } = await client.readResource({ uri: resources[0].uri });
+        assert.equal(contents[0].text, '# B', 'Resources on a non-default port can be read');
+    } finally {
+        await client.close();
+        closeDatabases();
+    }
+    console.log('✓ Test 4 passed: list_changed only for the session\'s collection; ports round-trip');
+}
+
+console.log('\n✅ All resource URI tests passed!');
@@ -0,0 +1,105 @@
+/**
+ * Test: Lexical search filters and paging
+ *
+ * Indexes pages of two domains and versions in an in-memory database to
+ * verify that the version, domain, url_prefix and heading_contains filters
+ * are applied in SQL before the limit, that limit/offset page through
+ * the filtered results with a stable total, and that a semantic query embeds
+ * only a bounded batch of unembedded chunks and reports the rest.
+ */
+
+import assert from 'node:assert/strict';
+import {
+    configureDatabase,
+    closeDatabases,
+    upsertDocument,
+    upsertChunks,
+    searchDocuments,
+    countSearchMatches,
+    countChunksMissingEmbedding,
+} from '../src/db.js';
+import { getEmbeddingProvider } from '../src/embeddings.js';
+import { searchIndex } from '../src/search.js';
+
+console.log('Running search tests...\n');
+
+configureDatabase({ path: ':memory:' });
+
+function addPage(url: string, version: string, heading: string[], content: string) {
+    upsertDocument(url, version, new URL(url).hostname, 'Widgets', content);
+    upsertChunks(url, version, [{ heading_path: heading, content }]);
+}
+
+// b.test pages mention widgets more often, so they outrank every a.test page
+for (let i = 0; i < 12; i++) {
+    addPage(`https://a.test/docs/p${i}`, 'v1', i % 2 ? ['API'] : ['Guide', 'Setup'], `Page ${i} covers widgets.`);
+}
+for (let i = 0; i < 5; i++) {
+    addPage(`https://b.test/docs/q${i}`, 'v1', ['Guide', 'Setup'], 'Widgets, widgets and more widgets.');
+}
+addPage('https://a.test/docs/p0', 'v2', ['Guide', 'Setup'], 'Version two widgets.');
+
+try {
+    // ── Test 1: Each filter narrows the matches ─────────────────────────────────
+    {
+        assert.equal(countSearchMatches('widgets'), 18);
+        assert.equal(countSearchMatches('widgets', { version: 'v2' }), 1);
+        assert.equal(countSearchMatches('widgets', { domain: 'b.test' }), 5);
+        assert.deepEqual(
+            searchDocuments('widgets', { url_prefix: 'https://a.test/docs/p1', version: 'v1' }).map(r => r.url).sort(),
+            ['https://a.test/docs/p1', 'https://a.test/docs/p10', 'https://a.test/docs/p11'],
+        );
+        const setup = searchDocuments('widgets', { domain: 'a.test', version: 'v1', heading_contains: 'SETUP' });
+        assert.equal(setup.length, 6, 'heading_contains is case-insensitive');
+        assert.ok(setup.every(r => r.heading_path.includes('Setup')));
+        assert.equal(countSearchMatches('widgets', { url_prefix: 'https://c.test/' }), 0);
+        console.log('✓ Test 1 passed: version, domain, url_prefix and heading_contains filters');
+    }
+
+    // ── Test 2: Filters apply before the limit ──────────────────────────────────
+    {
+        // The top 5 unfiltered hits are all b.test; filtering afterwards would leave nothing
+        assert.ok(searchDocuments('widgets', { limit: 5 }).every(r => r.url.startsWith('https://b.test/')));
+        const page = searchDocuments('widgets', { domain: 'a.test', version: 'v1', limit: 5 });
+        assert.equal(page.length, 5);
+        assert.ok(page.every(r => r.url.startsWith('https://a.test/') && r.version === 'v1'));
+        console.log('✓ Test 2 passed: a filtered page is filled from matching chunks only');
+    }
+
+    // ── Test 3: Paging with a stable total ──────────────────────────────────────
+    {
+        const filters = { domain: 'a.test', version: 'v1', limit: 5 };
+        const pages = await Promise.all([0, 5, 10, 15].map(offset => searchIndex('widgets', { ...filters, offset })));
+        assert.deepEqual(pages.map(p => p.total), [12, 12, 12, 12]);
+        assert.deepEqual(pages.map(p => [p.offset, p.limit, p.results.length]), [[0, 5, 5], [5, 5, 5], [10, 5, 2], [15, 5, 0]]);
+
+        const urls = pages.flatMap(p => p.results.map(r => r.url));
+        assert.equal(new Set(urls).size, 12, 'Pages neither overlap nor skip results');
+        assert.deepEqual(urls, searchDocuments('widgets', { domain: 'a.test', version: 'v1', limit: 100 }).map(r => r.url),
+            'Pages follow the ranking');
+
+        assert.equal((await searchIndex('widgets', { limit: 1000 })).limit, 100, 'limit is clamped');
+        console.log('✓ Test 3 passed: limit/offset page through the filtered results, total stays the same');
+    }
+
+    // ── Test 4: Semantic queries back-fill a bounded batch ──────────────────────
+    {
+        for (let i = 0; i < 60; i++) addPage(`https://c.test/docs/r${i}`, 'v1', ['Guide'], `Gadget ${i} pairs with widgets.`);
+        const model = getEmbeddingProvider().id;
+        assert.equal(countChunksMissingEmbedding(model), 78, 'Nothing embedded yet');
+
+        const first = await searchIndex('widgets', { domain: 'c.test' }, 'semantic');
+        assert.equal(countChunksMissingEmbedding(model), 14, 'One query embeds at most 64 chunks');
+        assert.equal(first.unembedded, 14, 'Skipped chunks within the filters are reported');
+        assert.equal(first.total, 46);
+
+        const hybrid = await searchIndex('widgets', { domain: 'c.test' }, 'hybrid');
+        assert.equal(hybrid.unembedded, undefined);
+        assert.equal((await searchIndex('widgets', { domain: 'c.test' }, 'semantic')).total, 60);
+        console.log('✓ Test 4 passed: a semantic query embeds one batch and reports the unembedded rest');
+    }
+} finally {
+    closeDatabases();
+}
+
+console.log('\n✅ All search tests passed!');
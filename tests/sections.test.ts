@@ -0,0 +1,117 @@
+/**
+ * Test: Section retrieval
+ *
+ * Indexes a page with nested headings in an in-memory database to verify
+ * that getSection() finds a section by chunk id or (case-insensitive)
+ * heading path, spans its subsections up to the next sibling or higher
+ * heading, clamps before/after at the page edges, and reports unknown
+ * sections — directly and through the get_section tool.
+ */
+
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { configureDatabase, closeDatabases, upsertDocument, upsertChunks, getDocumentChunks } from '../src/db.js';
+import { getSection } from '../src/sections.js';
+import { createServer } from '../src/server.js';
+
+console.log('Running section tests...\n');
+
+configureDatabase({ path: ':memory:' });
+
+const URL = 'https://ui.test/button';
+upsertDocument(URL, 'latest', 'ui.test', 'Button', '# Button');
+upsertChunks(URL, 'latest', [
+    { heading_path: [], content: 'Components overview.' },
+    { heading_path: ['Button'], content: 'A clickable button.' },
+    { heading_path: ['Button', 'Props'], content: 'Props of the button.' },
+    { heading_path: ['Button', 'Props', 'size'], content: 'small | medium | large' },
+    { heading_path: ['Button', 'Accessibility'], content: 'Use a label.' },
+    { heading_path: ['Icon Button'], content: 'A button with an icon.' },
+]);
+const chunks = getDocumentChunks(URL, 'latest');
+const ids = (list: Array<{ chunk_id: number }>) => list.map(c => c.chunk_id);
+
+try {
+    // ── Test 1: Selecting by chunk id and heading path ──────────────────────────
+    {
+        const byId = getSection({ chunk_id: chunks[2].chunk_id })!;
+        assert.deepEqual(byId.heading_path, ['Button', 'Props']);
+        assert.deepEqual(ids(byId.chunks), ids(chunks.slice(2, 4)));
+        assert.equal(byId.title, 'Button');
+        assert.equal(byId.page_chunk_count, 6);
+        assert.equal(byId.markdown, '## Props\n\nProps of the button.\n\n### size\n\nsmall | medium | large');
+
+        const byPath = getSection({ url: URL, heading_path: ['button', 'PROPS'] })!;
+        assert.deepEqual(byPath.heading_path, ['Button', 'Props'], 'Stored headings are returned');
+        assert.deepEqual(ids(byPath.chunks), ids(byId.chunks));
+        console.log('✓ Test 1 passed: chunk id and case-insensitive heading path select the same section');
+    }
+
+    // ── Test 2: Section span ────────────────────────────────────────────────────
+    {
+        // Subsections at any depth are included; the next top-level heading ends it
+        assert.deepEqual(ids(getSection({ url: URL, heading_path: ['Button'] })!.chunks), ids(chunks.slice(1, 5)));
+        // A sibling ends it
+        assert.deepEqual(ids(getSection({ url: URL, heading_path: ['Button', 'Props', 'size'] })!.chunks), [chunks[3].chunk_id]);
+        // The next heading up ends it too
+        assert.deepEqual(ids(getSection({ chunk_id: chunks[4].chunk_id })!.chunks), [chunks[4].chunk_id]);
+        // 'Icon Button' is not nested under 'Button'
+        assert.deepEqual(ids(getSection({ url: URL, heading_path: ['Icon Button'] })!.chunks), [chunks[5].chunk_id]);
+        // The preamble has no subsections
+        assert.deepEqual(ids(getSection({ chunk_id: chunks[0].chunk_id })!.chunks), [chunks[0].chunk_id]);
+        console.log('✓ Test 2 passed: a section spans its subsections up to the next sibling or higher heading');
+    }
+
+    // ── Test 3: Neighbours clamped at the page edges ────────────────────────────
+    {
+        const first = getSection({ chunk_id: chunks[0].chunk_id, before: 3, after: 2 })!;
+        assert.deepEqual(first.before, []);
+        assert.deepEqual(ids(first.after), ids(chunks.slice(1, 3)));
+
+        const last = getSection({ url: URL, heading_path: ['Icon Button'], before: 2, after: 5 })!;
+        assert.deepEqual(ids(last.before), ids(chunks.slice(3, 5)));
+        assert.deepEqual(last.after, []);
+
+        const props = getSection({ chunk_id: chunks[2].chunk_id, before: 1000, after: -4 })!;
+        assert.deepEqual(ids(props.before), ids(chunks.slice(0, 2)));
+        assert.deepEqual(props.after, [], 'Negative counts mean no neighbours');
+        console.log('✓ Test 3 passed: before/after stop at the first and last chunk');
+    }
+
+    // ── Test 4: Unknown sections and the get_section tool ───────────────────────
+    {
+        assert.equal(getSection({ chunk_id: 999_999 }), null);
+        assert.equal(getSection({ url: URL, heading_path: ['Button', 'Events'] }), null);
+        assert.equal(getSection({ url: URL, version: 'v2', heading_path: ['Button'] }), null);
+        assert.throws(() => getSection({}), /chunk_id or url is required/);
+        assert.throws(() => getSection({ url: URL }), /heading_path is required/);
+
+        const server = createServer();
+        const client = new Client({ name: 'sections-test', version: '1.0.0' });
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+        const call = async (args: Record<string, unknown>) => {
+            const result = await client.callTool({ name: 'get_section', arguments: args });
+            return { text: (result.content as Array<{ text: string }>)[0].text, isError: result.isError };
+        };
+        try {
+            const found = await call({ url: URL, heading_path: ['button'], after: 1 });
+            assert.deepEqual(ids(JSON.parse(found.text).after), [chunks[5].chunk_id]);
+
+            assert.equal((await call({ chunk_id: 999_999 })).text, 'No cached section found for: chunk 999999');
+            assert.equal(
+                (await call({ url: URL, heading_path: ['Button', 'Events'] })).text,
+                `No cached section found for: ${URL} › Button › Events (version: latest)`,
+            );
+            assert.deepEqual(await call({ url: URL }), { text: 'Error: heading_path is required when selecting a section by url', isError: true });
+        } finally {
+            await client.close();
+        }
+        console.log('✓ Test 4 passed: unknown sections are reported, invalid requests are errors');
+    }
+} finally {
+    closeDatabases();
+}
+
+console.log('\n✅ All section tests passed!');
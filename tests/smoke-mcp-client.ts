@@ -33,7 +33,7 @@ async function runTest() {
     const toolNames = tools.tools.map(t => t.name);
     console.log('Tools available:', toolNames);
 
-    const expected = ['read_and_extract_page', 'crawl_documentation_site', 'crawl_component_docs', 'search_crawled_docs', 'get_document', 'get_index_stats'];
+    const expected = ['read_and_extract_page', 'crawl_documentation_site', 'crawl_component_docs', 'search_crawled_docs', 'search_code_examples', 'build_context', 'get_document', 'get_section', 'get_document_outline', 'get_document_history', 'diff_document', 'compare_versions', 'export_llms_txt', 'export_markdown_tree', 'start_crawl', 'get_crawl_status', 'list_crawl_jobs', 'cancel_crawl', 'refresh_stale', 'get_index_stats', 'list_sources', 'list_collections', 'delete_document', 'purge_domain', 'purge_version', 'maintain_index', 'export_index', 'import_index'];
     for (const toolName of expected) {
         if (!toolNames.includes(toolName)) {
             console.error(`❌ Missing expected tool: ${toolName}`);
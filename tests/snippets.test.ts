@@ -0,0 +1,85 @@
+/**
+ * Test: Search snippets and match positions
+ *
+ * Indexes a known chunk in an in-memory database to verify the snippet
+ * markers, the distinct matched terms and the exact match offsets reported
+ * for every hit, and that the opening-words snippet of semantic-only hits
+ * is clamped to the same 1–64 token range as FTS5 snippets.
+ */
+
+import assert from 'node:assert/strict';
+import {
+    configureDatabase,
+    closeDatabases,
+    upsertDocument,
+    upsertChunks,
+    searchDocuments,
+    getMatchInfo,
+    MAX_SNIPPET_TOKENS,
+} from '../src/db.js';
+import { searchIndex } from '../src/search.js';
+
+console.log('Running snippet tests...\n');
+
+configureDatabase({ path: ':memory:' });
+
+const CONTENT = 'Install the widget, then style the Widget.';
+upsertDocument('https://a.test/widget', 'latest', 'a.test', 'Widget', CONTENT);
+upsertChunks('https://a.test/widget', 'latest', [{ heading_path: ['Setup'], content: CONTENT }]);
+
+// 100 words that share trigrams with "gadgetry" but never the word itself
+const LONG = Array.from({ length: 100 }, (_, i) => `gadgets${i}`).join(' ');
+upsertDocument('https://a.test/long', 'latest', 'a.test', 'Long', LONG);
+upsertChunks('https://a.test/long', 'latest', [{ heading_path: ['Gadgets'], content: LONG }]);
+
+const [widget] = searchDocuments('widget');
+
+try {
+    // ── Test 1: Match offsets and matched terms ─────────────────────────────────
+    {
+        const info = getMatchInfo('widget style', [widget.chunk_id]).get(widget.chunk_id)!;
+        assert.deepEqual(info.match_offsets, [[12, 18], [25, 30], [35, 41]]);
+        assert.deepEqual(info.match_offsets.map(([start, end]) => CONTENT.slice(start, end)), ['widget', 'style', 'Widget']);
+        assert.deepEqual(info.matched_terms, ['widget', 'style'], 'Distinct, lower-cased, in order of first appearance');
+
+        assert.equal(getMatchInfo('gadgetry', [widget.chunk_id]).size, 0, 'Chunks without a lexical match are absent');
+        assert.equal(getMatchInfo('widget', []).size, 0);
+        console.log('✓ Test 1 passed: match offsets point at each match in the chunk content');
+    }
+
+    // ── Test 2: Snippet markers ─────────────────────────────────────────────────
+    {
+        const plain = getMatchInfo('widget', [widget.chunk_id]).get(widget.chunk_id)!;
+        assert.equal(plain.snippet, 'Install the **widget**, then style the **Widget**.');
+
+        const custom = getMatchInfo('style', [widget.chunk_id], { start_marker: '<b>', end_marker: '</b>' }).get(widget.chunk_id)!;
+        assert.equal(custom.snippet, 'Install the widget, then <b>style</b> the Widget.');
+
+        const short = getMatchInfo('style', [widget.chunk_id], { tokens: 2, ellipsis: '[…]' }).get(widget.chunk_id)!;
+        assert.ok(short.snippet.includes('**style**'), short.snippet);
+        assert.ok(short.snippet.includes('[…]'), short.snippet);
+        assert.deepEqual(short.match_offsets, [[25, 30]], 'Offsets always refer to the full content');
+        console.log('✓ Test 2 passed: default and custom markers, ellipsis for cut text');
+    }
+
+    // ── Test 3: Semantic-only hits ──────────────────────────────────────────────
+    {
+        const hit = async (tokens?: number) => {
+            const page = await searchIndex('gadgetry', {}, 'semantic', tokens === undefined ? {} : { tokens });
+            const long = page.results.find(r => r.url === 'https://a.test/long')!;
+            assert.deepEqual([long.matched_terms, long.match_offsets], [[], []]);
+            return long.snippet;
+        };
+        const words = (snippet: string) => snippet.replace(/…$/, '').split(' ');
+
+        assert.equal(words(await hit()).length, 24);
+        assert.equal(words(await hit(1000)).length, MAX_SNIPPET_TOKENS, 'Clamped like FTS5 snippets');
+        assert.equal(await hit(0), 'gadgets0…');
+        assert.ok((await hit(1000)).endsWith('gadgets63…'));
+        console.log('✓ Test 3 passed: opening-words snippets are clamped to 1–64 tokens');
+    }
+} finally {
+    closeDatabases();
+}
+
+console.log('\n✅ All snippet tests passed!');
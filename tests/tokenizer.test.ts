@@ -0,0 +1,76 @@
+/**
+ * Test: Code-identifier-aware tokenization
+ *
+ * Verifies identifier splitting and the `identifiers` column value, then
+ * checks against an in-memory FTS5 table (same columns as chunks_fts) that
+ * "query client" finds useQueryClient while the whole token still matches,
+ * and that the porter and trigram tokenizer modes behave as documented.
+ */
+
+import Database from 'better-sqlite3';
+import assert from 'node:assert/strict';
+import { FTS_TOKENIZERS, splitIdentifier, identifierTerms, tokenizerFromSql } from '../src/tokenizer.js';
+import type { FtsTokenizer } from '../src/tokenizer.js';
+import { FTS_COLUMNS } from '../src/ranking.js';
+import { parseSearchQuery } from '../src/query.js';
+
+console.log('Running tokenizer tests...\n');
+
+const CONTENT = 'Call useQueryClient() inside a component. Pass on_change, or use Array.prototype.flatMap when configuring caches.';
+
+function createIndex(tokenizer: FtsTokenizer): Database.Database {
+    const db = new Database(':memory:');
+    db.exec(`CREATE VIRTUAL TABLE chunks_fts USING fts5(${FTS_COLUMNS.join(', ')}, tokenize='${FTS_TOKENIZERS[tokenizer]}');`);
+    db.prepare(`INSERT INTO chunks_fts (rowid, ${FTS_COLUMNS.join(', ')}) VALUES (1, 'https://x.test', 'latest', 'Hooks', '["Hooks"]', ?, ?)`)
+        .run(CONTENT, identifierTerms(CONTENT));
+    return db;
+}
+
+function matches(db: Database.Database, query: string): boolean {
+    return db.prepare(`SELECT 1 FROM chunks_fts WHERE chunks_fts MATCH ?`).get(parseSearchQuery(query).fts) !== undefined;
+}
+
+// ── Test 1: Identifier splitting ─────────────────────────────────────────────
+{
+    assert.deepEqual(splitIdentifier('useQueryClient'), ['use', 'query', 'client']);
+    assert.deepEqual(splitIdentifier('parseHTTPResponse_v2'), ['parse', 'http', 'response', 'v2']);
+    assert.deepEqual(splitIdentifier('Array.prototype.flatMap'), ['array', 'prototype', 'flat', 'map']);
+
+    const terms = identifierTerms('Use useQueryClient and on_change.').split(' ');
+    for (const t of ['use', 'query', 'client', 'queryclient', 'usequeryclient', 'on', 'change', 'onchange']) {
+        assert.ok(terms.includes(t), `identifiers should include '${t}'`);
+    }
+    assert.ok(!terms.includes('and'), 'Plain words are not repeated in the identifiers column');
+    assert.equal(new Set(terms).size, terms.length, 'Terms are distinct');
+    console.log('✓ Test 1 passed: camelCase, snake_case and dotted identifiers split into parts and runs');
+}
+
+// ── Test 2: unicode61 finds parts and whole tokens ───────────────────────────
+{
+    const db = createIndex('unicode61');
+    for (const q of ['query client', 'QueryClient', 'useQueryClient', 'flatMap', 'onChange', 'on_change']) {
+        assert.ok(matches(db, q), `unicode61 should match "${q}"`);
+    }
+    assert.ok(!matches(db, 'configure'), 'unicode61 does not stem');
+    db.close();
+    console.log('✓ Test 2 passed: "query client" finds useQueryClient; whole identifiers still match');
+}
+
+// ── Test 3: porter and trigram modes ─────────────────────────────────────────
+{
+    const porter = createIndex('porter');
+    assert.ok(matches(porter, 'configure'), 'porter should stem "configuring" to match "configure"');
+    assert.ok(matches(porter, 'query client'));
+    porter.close();
+
+    const trigram = createIndex('trigram');
+    assert.ok(matches(trigram, 'ueryCli'), 'trigram should match substrings');
+    assert.ok(matches(trigram, 'query client'));
+    trigram.close();
+
+    assert.equal(tokenizerFromSql(`CREATE VIRTUAL TABLE t USING fts5(a, tokenize='porter unicode61')`), 'porter');
+    assert.equal(tokenizerFromSql(`CREATE VIRTUAL TABLE t USING fts5(a, content='chunks')`), 'unicode61');
+    console.log('✓ Test 3 passed: porter stemming and trigram substring modes');
+}
+
+console.log('\n✅ All tokenizer tests passed!');
@@ -0,0 +1,84 @@
+/**
+ * Test: Cross-version comparison
+ *
+ * Verifies compare_versions' building blocks: version segments are ignored
+ * when matching pages, pages are classified as added / removed / changed /
+ * unchanged, changed pages get section-level diffs, and links differing only
+ * by the version label don't count as changes.
+ */
+
+import assert from 'node:assert/strict';
+import { versionlessPath, compareVersionPages, renderComparison } from '../src/versions.js';
+import type { VersionPage } from '../src/versions.js';
+
+console.log('Running version comparison tests...\n');
+
+function page(url: string, sections: Array<[string[], string]>): VersionPage {
+    return {
+        url,
+        title: url.split('/').pop()!,
+        chunks: sections.map(([heading_path, content], ordinal) => ({ chunk_id: ordinal + 1, ordinal, heading_path, content })),
+    };
+}
+
+// ── Test 1: Version segments are ignored when matching ───────────────────────
+{
+    assert.equal(versionlessPath('https://mui.com/v4/components/button/'), '/components/button');
+    assert.equal(versionlessPath('https://docs.test/5.x/guide/intro'), '/guide/intro');
+    assert.equal(versionlessPath('https://docs.test/docs/v1.2.3/api'), '/docs/api');
+    assert.equal(versionlessPath('https://docs.test/next/api', ['next']), '/api', 'Version labels count as version segments');
+    assert.equal(versionlessPath('https://docs.test/blog/2024/release'), '/blog/2024/release', 'Bare numbers are not versions');
+    console.log('✓ Test 1 passed: version segments stripped from paths');
+}
+
+const v4 = [
+    page('https://ui.test/v4/components/button', [
+        [['Button'], 'Buttons trigger actions. See [Icon](/v4/components/icon).'],
+        [['Button', 'Props'], 'variant: "default" | "primary"\nsize: "small" | "large"'],
+        [['Button', 'Legacy'], 'Use `ButtonBase` for custom buttons.'],
+    ]),
+    page('https://ui.test/v4/components/icon', [[['Icon'], 'Icons from the v4 set.']]),
+    page('https://ui.test/v4/components/hidden', [[['Hidden'], 'Hides content responsively.']]),
+];
+const v5 = [
+    page('https://ui.test/v5/components/button', [
+        [['Button'], 'Buttons trigger actions. See [Icon](/v5/components/icon).'],
+        [['Button', 'Props'], 'variant: "contained" | "outlined"\nsize: "small" | "large"'],
+        [['Button', 'Loading'], 'Set `loading` to show a spinner.'],
+    ]),
+    page('https://ui.test/v5/components/icon', [[['Icon'], 'Icons from the v4 set.']]),
+    page('https://ui.test/v5/components/stack', [[['Stack'], 'Lays out children in one direction.']]),
+];
+
+// ── Test 2: Pages added, removed, changed and unchanged ──────────────────────
+{
+    const report = compareVersionPages('ui.test', 'v4', 'v5', v4, v5);
+    assert.deepEqual(report.summary, { added: 1, removed: 1, changed: 1, unchanged: 1 });
+    assert.deepEqual(report.added.map(p => p.path), ['/components/stack']);
+    assert.deepEqual(report.removed.map(p => p.path), ['/components/hidden']);
+
+    const [button] = report.changed;
+    assert.equal(button.path, '/components/button');
+    assert.deepEqual(button.sections_added, [['Button', 'Loading']]);
+    assert.deepEqual(button.sections_removed, [['Button', 'Legacy']]);
+    assert.deepEqual(button.sections_changed.map(s => s.heading_path), [['Button', 'Props']],
+        'The intro differs only by its /v4/ → /v5/ link and is not a change');
+    assert.equal(button.sections_changed[0].lines_added, 1);
+    assert.ok(button.sections_changed[0].diff!.includes('+variant: "contained" | "outlined"'));
+    console.log('✓ Test 2 passed: added / removed / changed / unchanged pages and sections');
+}
+
+// ── Test 3: Options and markdown report ──────────────────────────────────────
+{
+    const scoped = compareVersionPages('ui.test', 'v4', 'v5', v4, v5, { path_prefix: '/components/icon', include_diffs: false });
+    assert.deepEqual(scoped.summary, { added: 0, removed: 0, changed: 0, unchanged: 1 });
+
+    const markdown = renderComparison(compareVersionPages('ui.test', 'v4', 'v5', v4, v5, { context_lines: 0 }));
+    assert.ok(markdown.startsWith('# ui.test: v4 → v5'));
+    assert.ok(markdown.includes('## Added pages') && markdown.includes('`/components/stack`'));
+    assert.ok(markdown.includes('- Removed section: Button › Legacy'));
+    assert.ok(markdown.includes('- Changed section: Button › Props (+1 −1)\n\n```diff'));
+    console.log('✓ Test 3 passed: path prefix, diff toggle, markdown report');
+}
+
+console.log('\n✅ All version comparison tests passed!');